@@ -1,18 +1,41 @@
-import React, { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import React, {
+  forwardRef,
+  useCallback,
+  useImperativeHandle,
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
 import { Toolbar } from './components/Toolbar/Toolbar';
 import { SearchBar } from './components/SearchBar/SearchBar';
 import { CodeEditor } from './components/CodeEditor/CodeEditor';
 import { TreeEditor } from './components/TreeEditor/TreeEditor';
 import { StatusBar } from './components/StatusBar/StatusBar';
+import { DiffBar } from './components/DiffBar/DiffBar';
+import { DiffView } from './components/DiffView/DiffView';
+import type { TreeDiff, TreeDiffReveal } from './components/TreeEditor/TreeEditor';
 import { useJsonParser } from './hooks/useJsonParser';
 import { useUndoRedo } from './hooks/useUndoRedo';
 import { useSearch } from './hooks/useSearch';
+import { useErrorNavigation } from './hooks/useErrorNavigation';
 import { useContainerWidth } from './hooks/useContainerWidth';
+import { useDiff } from './hooks/useDiff';
 import { computeStats } from './core/formatter';
+import { parseJson, stringifyJson } from './core/parser';
+import { applyTreeAction } from './core/edit';
+import { getCompletions, type CompletionProvider } from './core/completion';
+import { generateFromSchema } from './core/generate';
+import { inferSchema } from './core/infer';
+import { acceptChange, counterpartPath, type DiffOperation } from './core/diff';
+import { createPatch } from './core/patch';
+import { getByPath, getParentPath, parsePath } from './core/path';
 import { lightTheme } from './themes/light';
 import { darkTheme } from './themes/dark';
-import type { JsonEditorProps, EditorMode, CursorPosition } from './types/editor';
+import { englishUiMessages } from './i18n/en';
+import type { JsonEditorProps, JsonEditorHandle, EditorMode, CursorPosition } from './types/editor';
 import type { ThemeConfig } from './themes/types';
+import type { TreeAction } from './types/tree';
 
 /** Breakpoints based on container width (not viewport) */
 const BREAKPOINT_SM = 480;
@@ -23,36 +46,54 @@ const BREAKPOINT_MD = 768;
  *
  * Supports code editing, tree editing, split view, JSON Schema validation,
  * undo/redo, search, theming, and full keyboard accessibility.
+ * Pass a ref to get a `JsonEditorHandle` (validate, getValue, setValue, …).
  */
-export const JsonEditor: React.FC<JsonEditorProps> = ({
-  value: externalValue,
-  onChange,
-  mode: controlledMode,
-  onModeChange,
-  schema,
-  validators,
-  validationMode = 'onChange',
-  onValidate,
-  theme = 'light',
-  height = 400,
-  readOnly = false,
-  searchable = true,
-  sortable: _sortable = true,
-  indentation = 2,
-  lineNumbers = true,
-  bracketMatching = true,
-  maxSize: _maxSize,
-  virtualize: _virtualize = 'auto',
-  onError: _onError,
-  onFocus,
-  onBlur,
-  className = '',
-  style,
-  'aria-label': ariaLabel = 'JSON Editor',
-}) => {
+export const JsonEditor = forwardRef<JsonEditorHandle, JsonEditorProps>(function JsonEditor(
+  {
+    value: externalValue,
+    onChange,
+    onPatch,
+    mode: controlledMode,
+    onModeChange,
+    original,
+    onOriginalChange,
+    diffView = 'side-by-side',
+    diffOptions,
+    format = 'json',
+    losslessNumbers = false,
+    schema,
+    schemaRegistry,
+    validators,
+    formats,
+    formatMode,
+    validationMode = 'onChange',
+    onValidate,
+    onInferSchema,
+    messages,
+    theme = 'light',
+    height = 400,
+    readOnly = false,
+    searchable = true,
+    sortable: _sortable = true,
+    indentation = 2,
+    lineNumbers = true,
+    bracketMatching = true,
+    maxSize: _maxSize,
+    virtualize: _virtualize = 'auto',
+    onError: _onError,
+    onFocus,
+    onBlur,
+    className = '',
+    style,
+    'aria-label': ariaLabel = 'JSON Editor',
+  },
+  ref,
+) {
   // Mode state (uncontrolled fallback)
   const [internalMode, setInternalMode] = useState<EditorMode>('code');
   const mode = controlledMode ?? internalMode;
+  // Diff mode needs something to compare with; without it, show the code
+  const view = mode === 'diff' && original === undefined ? 'code' : mode;
   const handleModeChange = useCallback(
     (newMode: EditorMode) => {
       if (onModeChange) onModeChange(newMode);
@@ -64,56 +105,132 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
   // JSON parser + validation
   const parser = useJsonParser(externalValue, {
     schema,
+    schemaRegistry,
     validators,
-    debounce: validationMode === 'onChange' ? 300 : undefined,
+    formats,
+    formatMode,
+    messages: messages?.validation,
+    debounce: 300,
+    autoValidate: validationMode === 'onChange',
+    format,
+    lossless: losslessNumbers,
   });
 
+  const uiMessages = useMemo(() => ({ ...englishUiMessages, ...messages?.ui }), [messages?.ui]);
+
   // Undo/redo
   const history = useUndoRedo(parser.text, { maxHistory: 100 });
 
+  // The last valid document the parent has seen, which the next patch starts
+  // from; edits made through invalid text arrive as one patch once it is valid
+  const patchBase = useRef<unknown>(undefined);
+
   // Sync external value changes
   useEffect(() => {
     if (externalValue !== undefined) {
       const text =
         typeof externalValue === 'string'
           ? externalValue
-          : JSON.stringify(externalValue, null, indentation === 'tab' ? '\t' : indentation);
+          : stringifyJson(externalValue, indentation === 'tab' ? '\t' : indentation);
       if (text !== parser.text) {
         parser.setText(text);
         history.reset(text);
       }
+      // The parent already has this document, so patches start from it
+      const { value, error } = parseJson(text, { format, lossless: losslessNumbers });
+      if (!error) patchBase.current = value;
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [externalValue]);
 
+  // The document diff mode compares with; accepting changes into it edits this copy
+  const [originalText, setOriginalText] = useState('');
+  useEffect(() => {
+    if (original !== undefined) {
+      setOriginalText(
+        typeof original === 'string'
+          ? original
+          : stringifyJson(original, indentation === 'tab' ? '\t' : indentation),
+      );
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [original]);
+
   // Notify parent of changes
-  const handleTextChange = useCallback(
+  const commitText = useCallback(
     (text: string) => {
       parser.setText(text);
-      history.set(text);
+      if (!onChange && !onPatch) return;
 
-      if (onChange) {
-        try {
-          const parsed = JSON.parse(text);
-          onChange(parsed, text);
-        } catch {
-          // Pass raw text even if invalid — parent can check parseError
-          onChange(undefined, text);
-        }
+      const { value, error } = parseJson(text, { format, lossless: losslessNumbers });
+      // Pass raw text even if invalid — parent can check parseError
+      onChange?.(error ? undefined : value, text);
+      if (onPatch && !error) {
+        const patch = createPatch(patchBase.current, value);
+        patchBase.current = value;
+        if (patch.length > 0) onPatch(patch);
       }
     },
-    [parser, history, onChange],
+    [parser, onChange, onPatch, format, losslessNumbers],
   );
 
+  const handleTextChange = useCallback(
+    (text: string) => {
+      commitText(text);
+      history.set(text);
+    },
+    [commitText, history],
+  );
+
+  // Undo and redo reach the parent like any other edit
+  const handleUndo = useCallback(() => {
+    const text = history.undo();
+    if (text !== undefined) commitText(text);
+  }, [history, commitText]);
+
+  const handleRedo = useCallback(() => {
+    const text = history.redo();
+    if (text !== undefined) commitText(text);
+  }, [history, commitText]);
+
+  // Tree edits patch the source text in place so comments and formatting
+  // elsewhere survive; re-serialize only when a patch isn't possible.
   const handleTreeChange = useCallback(
-    (newValue: unknown) => {
+    (newValue: unknown, action?: TreeAction) => {
+      const patched = action ? applyTreeAction(parser.text, action, { format, indentation }) : null;
       const indent = indentation === 'tab' ? '\t' : indentation;
-      const text = JSON.stringify(newValue, null, indent);
-      handleTextChange(text);
+      handleTextChange(patched ?? stringifyJson(newValue, indent));
     },
-    [handleTextChange, indentation],
+    [handleTextChange, parser.text, format, indentation],
   );
 
+  const handleFormat = useCallback(
+    () => parser.format(indentation === 'tab' ? '\t' : indentation),
+    [parser, indentation],
+  );
+
+  // Fill in what the schema requires. Additions to an existing document are
+  // patched in like tree edits; text that doesn't parse is left alone.
+  const handleInsertFromSchema = useCallback(() => {
+    if (!schema) return;
+    const indent = indentation === 'tab' ? '\t' : indentation;
+    const isEmpty = parser.text.trim() === '';
+    if (!isEmpty && parser.parsedValue === undefined) return;
+
+    const current = isEmpty ? undefined : parser.parsedValue;
+    const generated = generateFromSchema(schema, { schemas: schemaRegistry, document: current });
+    if (current === undefined) {
+      handleTextChange(stringifyJson(generated, indent));
+      return;
+    }
+    let text: string | null = parser.text;
+    for (const action of addedMembers(current, generated, '$')) {
+      text = text && applyTreeAction(text, action, { format, indentation });
+    }
+    const next = text ?? stringifyJson(generated, indent);
+    if (next !== parser.text) handleTextChange(next);
+  }, [schema, schemaRegistry, parser, handleTextChange, format, indentation]);
+
   // Notify parent of validation
   useEffect(() => {
     if (onValidate) {
@@ -124,6 +241,77 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
   // Search
   const search = useSearch(parser.text);
 
+  // Changes against the original, compared only while diff mode shows them
+  const diff = useDiff(originalText, parser.text, {
+    enabled: view === 'diff',
+    format,
+    lossless: losslessNumbers,
+    diffOptions,
+  });
+  const arrayKey = diffOptions?.arrayKey;
+
+  // "Accept left" puts a change back in the document; "accept right" copies
+  // it into the original. Both patch the text where they can, like tree edits.
+  const handleAcceptChange = useCallback(
+    (side: 'a' | 'b') => {
+      const { current, original: before, modified: after } = diff;
+      if (!current || !before || !after) return;
+      const next = acceptChange(before.value, after.value, current, side, diffOptions);
+      const action = acceptAction(current, side, before.value, after.value, arrayKey);
+      if (side === 'a') {
+        handleTreeChange(next, action);
+        return;
+      }
+      const patched = action
+        ? applyTreeAction(originalText, action, { format, indentation })
+        : null;
+      const text = patched ?? stringifyJson(next, indentation === 'tab' ? '\t' : indentation);
+      setOriginalText(text);
+      onOriginalChange?.(next, text);
+    },
+    [
+      diff,
+      diffOptions,
+      arrayKey,
+      handleTreeChange,
+      originalText,
+      format,
+      indentation,
+      onOriginalChange,
+    ],
+  );
+
+  // The inline view marks nodes in the tree and shows removed values where they were
+  const treeDiff = useMemo(
+    () =>
+      view === 'diff' && diffView === 'inline' && diff.original && diff.modified
+        ? buildTreeDiff(diff.operations, diff.original.value, diff.modified.value, arrayKey)
+        : undefined,
+    [view, diffView, diff.operations, diff.original, diff.modified, arrayKey],
+  );
+  const treeDiffReveal = useMemo<TreeDiffReveal | null>(() => {
+    const operation = diff.reveal?.operation;
+    if (!operation) return null;
+    return { id: operation.kind === 'remove' ? `${operation.path}#removed` : operation.path };
+  }, [diff.reveal]);
+
+  // Next/previous error, shared by code and tree mode
+  const errorNav = useErrorNavigation(parser.validationErrors);
+
+  // Schema-driven suggestions in the code editor
+  const completionProvider = useMemo<CompletionProvider | undefined>(
+    () =>
+      schema
+        ? (text, offset) =>
+            getCompletions(text, offset, schema, {
+              schemas: schemaRegistry,
+              format,
+              document: parser.partialValue,
+            })
+        : undefined,
+    [schema, schemaRegistry, format, parser.partialValue],
+  );
+
   // Cursor
   const [cursor, setCursor] = useState<CursorPosition>({ line: 1, column: 1, offset: 0 });
 
@@ -173,6 +361,10 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
     vars['--mjr-tree-hover'] = resolvedTheme.treeHover;
     vars['--mjr-tree-selected'] = resolvedTheme.treeSelected;
     vars['--mjr-type-badge-bg'] = resolvedTheme.typeBadgeBg;
+    // Optional tokens: the stylesheet has defaults for these
+    if (resolvedTheme.diffAddedBg) vars['--mjr-diff-added-bg'] = resolvedTheme.diffAddedBg;
+    if (resolvedTheme.diffRemovedBg) vars['--mjr-diff-removed-bg'] = resolvedTheme.diffRemovedBg;
+    if (resolvedTheme.diffChangedBg) vars['--mjr-diff-changed-bg'] = resolvedTheme.diffChangedBg;
     return vars;
   }, [resolvedTheme]);
 
@@ -183,21 +375,12 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
 
       if (mod && e.key === 'z' && !e.shiftKey) {
         e.preventDefault();
-        history.undo();
-        // Sync parser with undone state
-        const undoneText = history.current;
-        if (undoneText !== undefined) {
-          parser.setText(undoneText as string);
-        }
+        handleUndo();
       }
 
       if (mod && e.key === 'z' && e.shiftKey) {
         e.preventDefault();
-        history.redo();
-        const redoneText = history.current;
-        if (redoneText !== undefined) {
-          parser.setText(redoneText as string);
-        }
+        handleRedo();
       }
 
       if (mod && e.key === 'f') {
@@ -208,22 +391,78 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
       if (e.key === 'Escape') {
         search.close();
       }
+
+      if (e.key === 'F8') {
+        e.preventDefault();
+        if (e.shiftKey) errorNav.goToPrevious();
+        else errorNav.goToNext();
+      }
+
+      if (e.key === 'F7' && view === 'diff') {
+        e.preventDefault();
+        if (e.shiftKey) diff.goToPrevious();
+        else diff.goToNext();
+      }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [history, parser, search, searchable]);
+  }, [handleUndo, handleRedo, search, searchable, errorNav, view, diff]);
 
   // Responsive container measurement
   const containerRef = useRef<HTMLDivElement>(null);
   const containerWidth = useContainerWidth(containerRef);
 
+  // Validate when focus leaves the editor, not when it moves between its parts
+  const handleBlur = useCallback(
+    (e: React.FocusEvent<HTMLDivElement>) => {
+      if (containerRef.current?.contains(e.relatedTarget as Node | null)) return;
+      if (validationMode === 'onBlur') parser.validate().catch(ignoreAbort);
+      onBlur?.();
+    },
+    [validationMode, parser, onBlur],
+  );
+
+  // Validate when the surrounding form is submitted
+  useEffect(() => {
+    const form = containerRef.current?.closest('form');
+    if (validationMode !== 'onSubmit' || !form) return;
+    const handleSubmit = () => parser.validate().catch(ignoreAbort);
+    form.addEventListener('submit', handleSubmit);
+    return () => form.removeEventListener('submit', handleSubmit);
+  }, [validationMode, parser]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      validate: parser.validate,
+      getValue: () => parser.parsedValue,
+      setValue: (value: unknown) => {
+        const indent = indentation === 'tab' ? '\t' : indentation;
+        handleTextChange(typeof value === 'string' ? value : stringifyJson(value, indent));
+      },
+      focus: () => {
+        // The original's pane in diff mode is read-only, so skip it
+        Array.from(
+          containerRef.current?.querySelectorAll<HTMLElement>(
+            '.mjr-code__textarea, .mjr-tree-editor [tabindex="0"]',
+          ) ?? [],
+        )
+          .find((el) => !el.closest('[data-testid="diff-original"]'))
+          ?.focus();
+      },
+      format: handleFormat,
+    }),
+    [parser, handleTextChange, handleFormat, indentation],
+  );
+
   const isSmall = containerWidth > 0 && containerWidth <= BREAKPOINT_SM;
   const isMedium = containerWidth > 0 && containerWidth <= BREAKPOINT_MD;
 
   // Build responsive class names
   const sizeClass = isSmall ? 'mjr-editor--sm' : isMedium ? 'mjr-editor--md' : '';
-  const shouldStackSplit = mode === 'split' && isMedium;
+  const isSideBySide = view === 'split' || (view === 'diff' && diffView === 'side-by-side');
+  const shouldStackSplit = isSideBySide && isMedium;
 
   const heightStyle = typeof height === 'number' ? `${height}px` : height;
 
@@ -235,25 +474,30 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
       role="application"
       aria-label={ariaLabel}
       onFocus={onFocus}
-      onBlur={onBlur}
+      onBlur={handleBlur}
       data-testid="json-editor"
     >
       <Toolbar
-        mode={mode}
+        mode={view}
         onModeChange={handleModeChange}
+        canDiff={original !== undefined}
         canUndo={history.canUndo}
         canRedo={history.canRedo}
-        onUndo={() => {
-          history.undo();
-        }}
-        onRedo={() => {
-          history.redo();
-        }}
-        onFormat={() => parser.format(indentation === 'tab' ? '\t' : indentation)}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onFormat={handleFormat}
+        onInsertFromSchema={schema ? handleInsertFromSchema : undefined}
+        onInferSchema={onInferSchema && (() => onInferSchema(inferSchema(parser.parsedValue)))}
+        canInferSchema={parser.parsedValue !== undefined}
         searchable={searchable}
         isSearchOpen={search.isActive}
         onToggleSearch={() => (search.isActive ? search.close() : search.open())}
         readOnly={readOnly}
+        format={format}
+        errorCount={errorNav.errors.length}
+        onNextError={errorNav.goToNext}
+        onPreviousError={errorNav.goToPrevious}
+        messages={uiMessages}
       />
 
       {search.isActive && (
@@ -268,47 +512,208 @@ export const JsonEditor: React.FC<JsonEditorProps> = ({
           onClose={search.close}
           options={search.options}
           onOptionsChange={search.setOptions}
+          messages={uiMessages}
+        />
+      )}
+
+      {view === 'diff' && (
+        <DiffBar
+          total={diff.operations.length}
+          currentIndex={diff.currentIndex}
+          unavailable={!!(diff.original?.error || diff.modified?.error)}
+          onNext={diff.goToNext}
+          onPrevious={diff.goToPrevious}
+          onAcceptLeft={() => handleAcceptChange('a')}
+          onAcceptRight={() => handleAcceptChange('b')}
+          readOnly={readOnly}
+          messages={uiMessages}
         />
       )}
 
       <div
         className={`mjr-editor__content ${shouldStackSplit ? 'mjr-editor__content--responsive-stack' : ''}`}
       >
-        {(mode === 'code' || mode === 'split') && (
-          <div className={`mjr-editor__panel ${mode === 'split' ? 'mjr-editor__panel--half' : ''}`}>
+        {(view === 'code' || view === 'split') && (
+          <div className={`mjr-editor__panel ${view === 'split' ? 'mjr-editor__panel--half' : ''}`}>
             <CodeEditor
               value={parser.text}
               onChange={handleTextChange}
-              parseError={parser.parseError}
+              parseErrors={parser.parseErrors}
+              validationErrors={parser.validationErrors}
               readOnly={readOnly}
               lineNumbers={isSmall ? false : lineNumbers}
               bracketMatching={bracketMatching}
               searchMatches={search.matches}
               currentMatchIndex={search.currentMatchIndex}
               onCursorChange={setCursor}
+              revealError={errorNav.reveal}
+              completionProvider={completionProvider}
+              messages={uiMessages}
             />
           </div>
         )}
 
-        {(mode === 'tree' || mode === 'split') && (
-          <div className={`mjr-editor__panel ${mode === 'split' ? 'mjr-editor__panel--half' : ''}`}>
+        {(view === 'tree' || view === 'split') && (
+          <div className={`mjr-editor__panel ${view === 'split' ? 'mjr-editor__panel--half' : ''}`}>
             <TreeEditor
-              value={parser.parsedValue}
+              value={parser.partialValue}
               onChange={handleTreeChange}
               readOnly={readOnly}
+              partialErrorCount={parser.parseErrors.length}
+              duplicateKeys={parser.duplicateKeys}
+              validationErrors={parser.validationErrors}
+              revealError={errorNav.reveal}
+              schema={schema}
+              schemaRegistry={schemaRegistry}
               searchQuery={search.isActive ? search.query : ''}
               searchCaseSensitive={search.options.caseSensitive}
+              messages={uiMessages}
+            />
+          </div>
+        )}
+
+        {view === 'diff' && diffView === 'side-by-side' && (
+          <DiffView
+            originalText={originalText}
+            value={parser.text}
+            onChange={handleTextChange}
+            original={diff.original}
+            modified={diff.modified}
+            operations={diff.operations}
+            currentIndex={diff.currentIndex}
+            reveal={diff.reveal}
+            arrayKey={arrayKey}
+            parseErrors={parser.parseErrors}
+            validationErrors={parser.validationErrors}
+            readOnly={readOnly}
+            lineNumbers={isSmall ? false : lineNumbers}
+            bracketMatching={bracketMatching}
+            onCursorChange={setCursor}
+            searchMatches={search.matches}
+            currentMatchIndex={search.currentMatchIndex}
+            completionProvider={completionProvider}
+            messages={uiMessages}
+          />
+        )}
+
+        {view === 'diff' && diffView === 'inline' && (
+          <div className="mjr-editor__panel">
+            <TreeEditor
+              value={parser.partialValue}
+              onChange={handleTreeChange}
+              readOnly={readOnly}
+              partialErrorCount={parser.parseErrors.length}
+              duplicateKeys={parser.duplicateKeys}
+              validationErrors={parser.validationErrors}
+              schema={schema}
+              schemaRegistry={schemaRegistry}
+              searchQuery={search.isActive ? search.query : ''}
+              searchCaseSensitive={search.options.caseSensitive}
+              messages={uiMessages}
+              diff={treeDiff}
+              revealDiff={treeDiffReveal}
             />
           </div>
         )}
       </div>
 
       <StatusBar
-        parseError={parser.parseError}
-        validationErrors={parser.validationErrors}
+        parseErrors={parser.parseErrors}
+        validationErrors={errorNav.errors}
         cursor={cursor}
         stats={stats}
+        isValidating={parser.isValidating}
+        onSelectProblem={errorNav.goToError}
+        messages={uiMessages}
       />
     </div>
   );
-};
+});
+
+/** ADD_CHILD actions for the object members `after` has and `before` lacks, at any depth */
+function addedMembers(before: unknown, after: unknown, path: string): TreeAction[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return before.flatMap((item, i) => addedMembers(item, after[i], `${path}[${i}]`));
+  }
+  if (!isObject(before) || !isObject(after)) return [];
+  return Object.keys(after).flatMap((key) =>
+    hasOwn(before, key)
+      ? addedMembers(before[key], after[key], `${path}.${key}`)
+      : [{ type: 'ADD_CHILD' as const, parentId: path, key, value: after[key] }],
+  );
+}
+
+/**
+ * The text edit that makes the same change as `acceptChange`, when one tree
+ * action can: setting a changed value, or deleting an added or removed one.
+ * Restoring and moving members is left to re-serializing.
+ */
+function acceptAction(
+  operation: DiffOperation,
+  side: 'a' | 'b',
+  before: unknown,
+  after: unknown,
+  arrayKey?: string,
+): TreeAction | undefined {
+  const { kind, path } = operation;
+  if (kind === 'change') {
+    return side === 'a'
+      ? { type: 'SET_VALUE', nodeId: path, value: operation.oldValue }
+      : {
+          type: 'SET_VALUE',
+          nodeId: counterpartPath(path, after, before, arrayKey),
+          value: operation.newValue,
+        };
+  }
+  if ((kind === 'add' && side === 'a') || (kind === 'remove' && side === 'b')) {
+    return { type: 'DELETE_NODE', nodeId: path };
+  }
+  return undefined;
+}
+
+/** Changed nodes by path in `after`, and removed values by the container they were in */
+function buildTreeDiff(
+  operations: DiffOperation[],
+  before: unknown,
+  after: unknown,
+  arrayKey?: string,
+): TreeDiff {
+  const changes = new Map<string, DiffOperation['kind']>();
+  const removed: TreeDiff['removed'] = new Map();
+  for (const operation of operations) {
+    if (operation.kind !== 'remove') {
+      changes.set(operation.path, operation.kind);
+      continue;
+    }
+    const parent = getParentPath(operation.path) ?? '$';
+    const container = getByPath(before, parent);
+    const name = parsePath(operation.path).pop() as string;
+    const isItem = Array.isArray(container);
+    const index = isItem ? Number(name) : Object.keys(container as object).indexOf(name);
+    const at = counterpartPath(parent, before, after, arrayKey);
+    if (!removed.has(at)) removed.set(at, []);
+    removed.get(at)!.push({
+      path: operation.path,
+      key: isItem ? index : name,
+      value: operation.oldValue,
+      index,
+    });
+  }
+  return { changes, removed };
+}
+
+/**
+ * For validations the editor starts itself: a newer run superseding one
+ * rejects it with an AbortError, which is expected and nobody awaits.
+ */
+function ignoreAbort(err: unknown): void {
+  if ((err as { name?: unknown } | null)?.name !== 'AbortError') throw err;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
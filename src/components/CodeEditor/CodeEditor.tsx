@@ -1,20 +1,51 @@
-import React, { useRef, useCallback, useEffect, useMemo } from 'react';
+import React, { useRef, useCallback, useEffect, useMemo, useState } from 'react';
 import type { ParseError, CursorPosition } from '../../types/editor';
+import type { ValidationError, ValidationSeverity } from '../../types/validation';
 import type { SearchMatch } from '../../hooks/useSearch';
+import type { ErrorReveal } from '../../hooks/useErrorNavigation';
+import type { CompletionProvider, CompletionResult } from '../../core/completion';
+import type { DiffKind } from '../../core/diff';
+import type { UiMessages } from '../../i18n/types';
+import { worstSeverity } from '../../core/validator';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
 
 export interface CodeEditorProps {
   value: string;
   onChange: (value: string) => void;
-  parseError: ParseError | null;
+  parseErrors: ParseError[];
+  /** Schema and custom-validator errors; those with a line/column are marked inline */
+  validationErrors?: ValidationError[];
   readOnly: boolean;
   lineNumbers: boolean;
   bracketMatching: boolean;
   searchMatches: SearchMatch[];
   currentMatchIndex: number;
   onCursorChange: (pos: CursorPosition) => void;
+  /** Select and scroll to an error when the user navigates to it */
+  revealError?: ErrorReveal | null;
+  /** Source of suggestions for the completion popup (Ctrl+Space, or as you type) */
+  completionProvider?: CompletionProvider;
+  /** Lines that differ from the other side in diff mode, by line number */
+  diffLines?: Map<number, DiffLine>;
+  /** UI text; English by default */
+  messages?: UiMessages;
   className?: string;
 }
 
+/** How a line differs in diff mode */
+export interface DiffLine {
+  kind: DiffKind;
+  /** The line belongs to the change navigated to */
+  active: boolean;
+}
+
+const NO_ERRORS: ValidationError[] = [];
+const NO_DIFF_LINES = new Map<number, DiffLine>();
+
+/** Typing one of these opens the completion popup */
+const COMPLETION_TRIGGER = /^[\w"':]$/;
+
 /**
  * Syntax-highlighted code editor for JSON.
  * Uses a contentEditable approach with a textarea overlay for input,
@@ -23,34 +54,124 @@ export interface CodeEditorProps {
 export const CodeEditor: React.FC<CodeEditorProps> = ({
   value,
   onChange,
-  parseError,
+  parseErrors,
+  validationErrors = NO_ERRORS,
   readOnly,
   lineNumbers,
   searchMatches,
   currentMatchIndex,
   onCursorChange,
+  revealError = null,
+  completionProvider,
+  diffLines = NO_DIFF_LINES,
+  messages = englishUiMessages,
   className = '',
 }) => {
+  const t = createTranslator(messages);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState<{ line: number; column: number } | null>(null);
+  const [hoveredError, setHoveredError] = useState<number | null>(null);
+  const [completion, setCompletion] = useState<{
+    result: CompletionResult;
+    selected: number;
+  } | null>(null);
+  // Caret offset to complete at once the edit that was just made has rendered
+  const pendingCompletion = useRef<number | null>(null);
 
   const lines = useMemo(() => value.split('\n'), [value]);
 
+  const openCompletion = useCallback(
+    (text: string, offset: number) => {
+      const result = completionProvider?.(text, offset) ?? null;
+      setCompletion(result && result.items.length > 0 ? { result, selected: 0 } : null);
+    },
+    [completionProvider],
+  );
+
+  useEffect(() => {
+    const offset = pendingCompletion.current;
+    if (offset === null) return;
+    pendingCompletion.current = null;
+    openCompletion(value, offset);
+  }, [value, openCompletion]);
+
+  const acceptCompletion = useCallback(
+    (index: number) => {
+      const textarea = textareaRef.current;
+      const item = completion?.result.items[index];
+      if (!textarea || !completion || !item) return;
+      const { from, to } = completion.result;
+      const caretOffset = from + item.insertText.length;
+      setCompletion(null);
+      // After a property name, go straight on to its value
+      if (item.kind === 'property' && item.insertText.endsWith(' ')) {
+        pendingCompletion.current = caretOffset;
+      }
+      onChange(value.substring(0, from) + item.insertText + value.substring(to));
+      requestAnimationFrame(() => {
+        textarea.selectionStart = textarea.selectionEnd = caretOffset;
+      });
+    },
+    [completion, value, onChange],
+  );
+
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       if (readOnly) return;
-      onChange(e.target.value);
+      const next = e.target.value;
+      const offset = e.target.selectionStart;
+      const typed =
+        next.length === value.length + 1 ? next.substring(offset - 1, offset) : undefined;
+      if (completionProvider && (completion || (typed && COMPLETION_TRIGGER.test(typed)))) {
+        pendingCompletion.current = offset;
+      }
+      onChange(next);
     },
-    [onChange, readOnly],
+    [onChange, readOnly, value, completion, completionProvider],
   );
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
       if (readOnly) return;
 
+      // Ctrl+Space asks for suggestions
+      if (e.key === ' ' && e.ctrlKey && completionProvider) {
+        e.preventDefault();
+        openCompletion(value, e.currentTarget.selectionStart);
+        return;
+      }
+
+      // The completion popup takes the navigation keys while open
+      if (completion) {
+        const count = completion.result.items.length;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setCompletion({ ...completion, selected: (completion.selected + step + count) % count });
+          return;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          acceptCompletion(completion.selected);
+          return;
+        }
+        if (e.key === 'Escape') {
+          // Don't let the editor-wide Escape close the search bar as well
+          e.preventDefault();
+          e.stopPropagation();
+          setCompletion(null);
+          return;
+        }
+        if (['ArrowLeft', 'ArrowRight', 'Home', 'End', 'PageUp', 'PageDown'].includes(e.key)) {
+          setCompletion(null);
+        }
+      }
+
       // Tab key inserts 2 spaces
       if (e.key === 'Tab') {
         e.preventDefault();
+        setCompletion(null);
         const textarea = textareaRef.current;
         if (!textarea) return;
 
@@ -80,6 +201,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         if (start === end) {
           e.preventDefault();
           const newValue = value.substring(0, start) + e.key + closeChar + value.substring(end);
+          if (completionProvider && e.key === '"') pendingCompletion.current = start + 1;
           onChange(newValue);
 
           requestAnimationFrame(() => {
@@ -88,7 +210,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         }
       }
     },
-    [value, onChange, readOnly],
+    [value, onChange, readOnly, completion, completionProvider, openCompletion, acceptCompletion],
   );
 
   // Sync scroll: when the wrapper scrolls (via touch or mouse wheel),
@@ -119,9 +241,78 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     const line = linesBefore.length;
     const column = linesBefore[linesBefore.length - 1].length + 1;
 
+    setCaret({ line, column });
     onCursorChange({ line, column, offset: pos });
   }, [value, onCursorChange]);
 
+  // The display layer ignores the pointer, so hit-test the squiggles by position
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLTextAreaElement>) => {
+      const wrapper = wrapperRef.current;
+      if (!wrapper || validationErrors.length === 0) return;
+      const hit = Array.from(wrapper.querySelectorAll<HTMLElement>('.mjr-code__squiggle')).find(
+        (el) => {
+          const rect = el.getBoundingClientRect();
+          return (
+            e.clientX >= rect.left &&
+            e.clientX <= rect.right &&
+            e.clientY >= rect.top &&
+            e.clientY <= rect.bottom
+          );
+        },
+      );
+      setHoveredError(hit ? Number(hit.dataset.errorIndex) : null);
+    },
+    [validationErrors],
+  );
+
+  const handleMouseLeave = useCallback(() => setHoveredError(null), []);
+
+  // Select an error's range when it is navigated to (next/previous error)
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!revealError || !textarea) return;
+    const { line, column = 1, endLine = line, endColumn = column } = revealError.error;
+    if (line === undefined || endLine === undefined) return;
+
+    const offsetOf = (l: number, c: number) =>
+      lines.slice(0, l - 1).reduce((sum, text) => sum + text.length + 1, 0) + c - 1;
+    const start = offsetOf(line, column);
+    textarea.focus();
+    textarea.setSelectionRange(start, offsetOf(endLine, endColumn));
+    setCaret({ line, column });
+    onCursorChange({ line, column, offset: start });
+    wrapperRef.current
+      ?.querySelectorAll('.mjr-code__line')
+      [line - 1]?.scrollIntoView?.({ block: 'nearest' });
+    // Only navigation should move the selection, not edits that re-run validation
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [revealError]);
+
+  // Group syntax errors by line for gutter markers
+  const errorsByLine = useMemo(() => {
+    const map = new Map<number, ParseError[]>();
+    for (const err of parseErrors) {
+      if (!map.has(err.line)) map.set(err.line, []);
+      map.get(err.line)!.push(err);
+    }
+    return map;
+  }, [parseErrors]);
+
+  // Resolve located validation errors to per-line column ranges
+  const markers = useMemo(() => buildMarkers(validationErrors, lines), [validationErrors, lines]);
+
+  // The hovered squiggle wins; otherwise show the error under the caret
+  const activeError = useMemo(() => {
+    if (hoveredError !== null && validationErrors[hoveredError]) {
+      return validationErrors[hoveredError];
+    }
+    if (!caret) return undefined;
+    const ranges = markers.rangesByLine.get(caret.line) ?? [];
+    const hit = ranges.find((r) => caret.column - 1 >= r.from && caret.column - 1 <= r.to);
+    return hit && validationErrors[hit.index];
+  }, [hoveredError, caret, markers, validationErrors]);
+
   // Build a lookup of matches per line for efficient rendering
   const matchesByLine = useMemo(() => {
     const map = new Map<number, { match: SearchMatch; isActive: boolean }[]>();
@@ -148,29 +339,100 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   }, [currentMatchIndex, searchMatches]);
 
+  // Tokenize each line once, carrying block-comment state across lines
+  const lineSegments = useMemo(() => {
+    let inBlockComment = false;
+    return lines.map((line) => {
+      const result = highlightJsonLine(line, inBlockComment);
+      inBlockComment = result.inBlockComment;
+      return result.segments;
+    });
+  }, [lines]);
+
   // Syntax highlight the JSON text with search match overlays
   const highlightedLines = useMemo(() => {
     return lines.map((line, idx) => {
       const lineNum = idx + 1;
-      const isErrorLine = parseError?.line === lineNum;
-      const lineMatches = matchesByLine.get(lineNum);
+      const lineErrors = errorsByLine.get(lineNum);
+      const lineMatches = matchesByLine.get(lineNum) ?? [];
+      const lineRanges = markers.rangesByLine.get(lineNum) ?? [];
+      const lineValidation = markers.gutterByLine.get(lineNum);
+      const diffLine = diffLines.get(lineNum);
+
+      const decorations: LineDecoration[] = [
+        ...lineRanges.map(
+          (r): LineDecoration => ({
+            from: r.from,
+            to: r.to,
+            wrap: (children, key) => (
+              <span
+                key={key}
+                className={`mjr-code__squiggle mjr-code__squiggle--${r.severity}`}
+                data-error-index={r.index}
+                data-testid={`squiggle-${r.severity}`}
+              >
+                {children}
+              </span>
+            ),
+          }),
+        ),
+        ...lineMatches.map(
+          ({ match, isActive }): LineDecoration => ({
+            from: match.columnStart,
+            to: match.columnEnd,
+            wrap: (children, key) => (
+              <mark
+                key={key}
+                className={isActive ? 'mjr-code__match mjr-code__match--active' : 'mjr-code__match'}
+                data-testid={isActive ? 'search-match-active' : 'search-match'}
+              >
+                {children}
+              </mark>
+            ),
+          }),
+        ),
+      ];
 
       return (
-        <div key={idx} className={`mjr-code__line ${isErrorLine ? 'mjr-code__line--error' : ''}`}>
+        <div
+          key={idx}
+          className={`mjr-code__line ${lineErrors ? 'mjr-code__line--error' : ''} ${diffLine ? `mjr-code__line--diff-${diffLine.kind}` : ''} ${diffLine?.active ? 'mjr-code__line--diff-active' : ''}`}
+        >
           {lineNumbers && (
-            <span className="mjr-code__line-number" aria-hidden="true">
+            <span
+              className={`mjr-code__line-number ${lineErrors ? 'mjr-code__line-number--error' : ''}`}
+              aria-hidden="true"
+              title={lineErrors?.map((err) => `Col ${err.column}: ${err.message}`).join('\n')}
+              data-testid={lineErrors ? `gutter-error-${lineNum}` : undefined}
+            >
+              {lineValidation && (
+                <span
+                  className={`mjr-code__gutter-icon mjr-code__gutter-icon--${worstSeverity(lineValidation)}`}
+                  title={lineValidation.map((e) => e.message).join('\n')}
+                  data-testid={`gutter-validation-${lineNum}`}
+                />
+              )}
               {lineNum}
             </span>
           )}
           <span className="mjr-code__line-content">
-            {lineMatches && lineMatches.length > 0
-              ? highlightLineWithMatches(line, lineMatches)
-              : highlightJsonLine(line)}
+            {decorations.length > 0
+              ? renderDecoratedLine(lineSegments[idx], line.length, decorations)
+              : renderSegments(lineSegments[idx])}
           </span>
         </div>
       );
     });
-  }, [lines, lineNumbers, parseError, matchesByLine]);
+  }, [lines, lineSegments, lineNumbers, errorsByLine, matchesByLine, markers, diffLines]);
+
+  const parseError = parseErrors[0];
+
+  // The popup opens under the start of the text it replaces
+  const completionAnchor = useMemo(() => {
+    if (!completion) return null;
+    const before = value.substring(0, completion.result.from).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  }, [completion, value]);
 
   return (
     <div ref={wrapperRef} className={`mjr-code-editor ${className}`}>
@@ -187,7 +449,13 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         onChange={handleChange}
         onKeyDown={handleKeyDown}
         onKeyUp={handleCursorMove}
-        onClick={handleCursorMove}
+        onClick={() => {
+          setCompletion(null);
+          handleCursorMove();
+        }}
+        onBlur={() => setCompletion(null)}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
         readOnly={readOnly}
         spellCheck={false}
         autoCapitalize="off"
@@ -196,10 +464,60 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         aria-label="JSON code editor"
         aria-multiline="true"
         aria-readonly={readOnly}
+        aria-autocomplete={completionProvider ? 'list' : undefined}
+        aria-expanded={completionProvider ? completion !== null : undefined}
+        aria-controls={completion ? 'mjr-completion' : undefined}
+        aria-activedescendant={completion ? `mjr-completion-${completion.selected}` : undefined}
         data-testid="code-editor-textarea"
       />
 
-      {/* Error tooltip */}
+      {/* Schema suggestions for the text at the caret */}
+      {completion && completionAnchor && (
+        <ul
+          id="mjr-completion"
+          className="mjr-completion"
+          role="listbox"
+          aria-label={t('completionLabel')}
+          data-testid="completion-popup"
+          style={{
+            top: `${completionAnchor.line * 1.5}em`,
+            left: `calc(50px + ${completionAnchor.column - 1}ch)`,
+          }}
+        >
+          {completion.result.items.map((item, i) => (
+            <li
+              key={item.insertText}
+              id={`mjr-completion-${i}`}
+              className={`mjr-completion__item mjr-completion__item--${item.kind} ${i === completion.selected ? 'mjr-completion__item--selected' : ''}`}
+              role="option"
+              aria-selected={i === completion.selected}
+              // Keep the focus (and the caret) in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => acceptCompletion(i)}
+            >
+              <span className="mjr-completion__label">{item.label}</span>
+              {(item.type || item.required || item.source === 'default') && (
+                <span className="mjr-completion__detail">
+                  {[
+                    item.type,
+                    item.required && t('completionRequired'),
+                    item.source === 'default' && t('completionDefault'),
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </span>
+              )}
+              {item.description && (
+                <span className="mjr-completion__description" title={item.description}>
+                  {item.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Error tooltip for the first syntax error; the rest are marked in the gutter */}
       {parseError && (
         <div
           className="mjr-code__error-tooltip"
@@ -207,54 +525,155 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
           style={{ top: `${(parseError.line - 1) * 1.5}em` }}
         >
           Line {parseError.line}, Col {parseError.column}: {parseError.message}
+          {parseErrors.length > 1 && ` (+${parseErrors.length - 1} more)`}
+        </div>
+      )}
+
+      {/* Details of the validation error under the pointer or caret */}
+      {!parseError && activeError?.line !== undefined && (
+        <div
+          className={`mjr-code__validation-tooltip mjr-code__validation-tooltip--${activeError.severity}`}
+          role="tooltip"
+          data-testid="validation-tooltip"
+          style={{ top: `${(activeError.endLine ?? activeError.line) * 1.5}em` }}
+        >
+          <div className="mjr-code__validation-message">{activeError.message}</div>
+          {activeError.schemaKeyword && (
+            <div className="mjr-code__validation-rule">
+              <code>{activeError.schemaKeyword}</code>
+              {activeError.schemaRule !== undefined && <>: {formatRule(activeError.schemaRule)}</>}
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 };
 
+/** A run of characters sharing one syntax class ("" for plain text) */
+interface HighlightSegment {
+  text: string;
+  className: string;
+}
+
+/** Render highlighted segments as spans */
+function renderSegments(segments: HighlightSegment[]): React.ReactNode[] {
+  return segments.map((seg, i) => (
+    <span key={i} className={seg.className || undefined}>
+      {seg.text}
+    </span>
+  ));
+}
+
+/** A column range [from, to) of a line wrapped in an extra element */
+interface LineDecoration {
+  from: number;
+  to: number;
+  wrap: (children: React.ReactNode, key: number) => React.ReactNode;
+}
+
 /**
- * Renders a line with search match highlights overlaid on the syntax highlighting.
- * Splits the line into segments: non-match regions get normal syntax highlighting,
- * match regions get wrapped in a highlight span.
+ * Renders a line with decorations (validation squiggles, search matches)
+ * overlaid on the syntax highlighting. The line is cut at every decoration
+ * boundary: each piece keeps its syntax classes and is wrapped by every
+ * decoration covering it, earlier decorations outermost.
  */
-function highlightLineWithMatches(
-  line: string,
-  lineMatches: { match: SearchMatch; isActive: boolean }[],
+function renderDecoratedLine(
+  segments: HighlightSegment[],
+  lineLength: number,
+  decorations: LineDecoration[],
 ): React.ReactNode[] {
-  // Sort matches by column position
-  const sorted = [...lineMatches].sort((a, b) => a.match.columnStart - b.match.columnStart);
+  // Markers past the end of the line (e.g. a missing value) still need something to underline
+  const end = Math.max(lineLength, ...decorations.map((d) => d.to));
+  const padded =
+    end > lineLength
+      ? [...segments, { text: ' '.repeat(end - lineLength), className: '' }]
+      : segments;
+
+  const cuts = [...new Set([0, end, ...decorations.flatMap((d) => [d.from, d.to])])]
+    .filter((c) => c >= 0 && c <= end)
+    .sort((a, b) => a - b);
 
   const result: React.ReactNode[] = [];
-  let pos = 0;
   let key = 0;
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const [from, to] = [cuts[i], cuts[i + 1]];
+    let node: React.ReactNode = renderSegments(sliceSegments(padded, from, to));
+    const covering = decorations.filter((d) => d.from <= from && d.to >= to);
+    if (covering.length === 0) {
+      result.push(<span key={key++}>{node}</span>);
+      continue;
+    }
+    for (let j = covering.length - 1; j >= 0; j--) node = covering[j].wrap(node, key++);
+    result.push(node);
+  }
+  return result;
+}
+
+/** Column range of a validation error on one line (0-based, [from, to)) */
+interface MarkerRange {
+  from: number;
+  to: number;
+  index: number;
+  severity: ValidationSeverity;
+}
 
-  for (const { match, isActive } of sorted) {
-    // Render text before this match with normal syntax highlighting
-    if (match.columnStart > pos) {
-      const before = line.substring(pos, match.columnStart);
-      result.push(<span key={key++}>{highlightJsonLine(before)}</span>);
+/**
+ * Spread each located error over the lines it covers, and pick the gutter
+ * icon for the line it starts on (the most severe error there wins).
+ */
+function buildMarkers(errors: ValidationError[], lines: string[]) {
+  const rangesByLine = new Map<number, MarkerRange[]>();
+  const gutterByLine = new Map<number, ValidationError[]>();
+
+  errors.forEach((error, index) => {
+    if (error.line === undefined || error.line > lines.length) return;
+    const startCol = (error.column ?? 1) - 1;
+    const endLine = Math.min(error.endLine ?? error.line, lines.length);
+    // Without an end, mark the word the error points at
+    const endCol =
+      error.endColumn !== undefined
+        ? error.endColumn - 1
+        : startCol +
+          Math.max(1, /^[^\s,:\]}]*/.exec(lines[error.line - 1].slice(startCol))![0].length);
+
+    for (let line = error.line; line <= endLine; line++) {
+      const from = line === error.line ? startCol : 0;
+      const to = line === endLine ? endCol : lines[line - 1].length;
+      if (!rangesByLine.has(line)) rangesByLine.set(line, []);
+      rangesByLine
+        .get(line)!
+        .push({ from, to: Math.max(to, from + 1), index, severity: error.severity });
     }
 
-    // Render the match with highlight
-    const matchText = line.substring(match.columnStart, match.columnEnd);
-    const cls = isActive ? 'mjr-code__match mjr-code__match--active' : 'mjr-code__match';
-    result.push(
-      <mark
-        key={key++}
-        className={cls}
-        data-testid={isActive ? 'search-match-active' : 'search-match'}
-      >
-        {highlightJsonLine(matchText)}
-      </mark>,
-    );
-
-    pos = match.columnEnd;
-  }
+    if (!gutterByLine.has(error.line)) gutterByLine.set(error.line, []);
+    gutterByLine.get(error.line)!.push(error);
+  });
 
-  // Remaining text after last match
-  if (pos < line.length) {
-    result.push(<span key={key++}>{highlightJsonLine(line.substring(pos))}</span>);
+  return { rangesByLine, gutterByLine };
+}
+
+/** Short, single-line rendering of a schema rule for the tooltip */
+function formatRule(rule: unknown): string {
+  const json = JSON.stringify(rule) ?? String(rule);
+  return json.length > 80 ? `${json.slice(0, 77)}…` : json;
+}
+
+/** Cut the [from, to) column range out of a line's segments */
+function sliceSegments(segments: HighlightSegment[], from: number, to: number): HighlightSegment[] {
+  const result: HighlightSegment[] = [];
+  let offset = 0;
+
+  for (const seg of segments) {
+    const segEnd = offset + seg.text.length;
+    if (segEnd > from && offset < to) {
+      result.push({
+        text: seg.text.slice(Math.max(0, from - offset), Math.min(seg.text.length, to - offset)),
+        className: seg.className,
+      });
+    }
+    offset = segEnd;
+    if (offset >= to) break;
   }
 
   return result;
@@ -262,11 +681,29 @@ function highlightLineWithMatches(
 
 /**
  * Simple JSON syntax highlighter — tokenizes a single line.
+ * Understands the JSONC/JSON5 additions (comments, single quotes, bare keys,
+ * Infinity/NaN) regardless of the active dialect; the parser reports them
+ * where they are not allowed. `inBlockComment` carries an unclosed
+ * block comment over from the previous line.
  */
-function highlightJsonLine(line: string): React.ReactNode[] {
-  const tokens: React.ReactNode[] = [];
+function highlightJsonLine(
+  line: string,
+  inBlockComment: boolean,
+): { segments: HighlightSegment[]; inBlockComment: boolean } {
+  const segments: HighlightSegment[] = [];
   let i = 0;
-  let key = 0;
+
+  const push = (text: string, className: string) => segments.push({ text, className });
+
+  if (inBlockComment) {
+    const close = line.indexOf('*/');
+    if (close === -1) {
+      push(line, 'mjr-syn-comment');
+      return { segments, inBlockComment: true };
+    }
+    push(line.substring(0, close + 2), 'mjr-syn-comment');
+    i = close + 2;
+  }
 
   while (i < line.length) {
     const ch = line[i];
@@ -278,13 +715,29 @@ function highlightJsonLine(line: string): React.ReactNode[] {
         ws += line[i];
         i++;
       }
-      tokens.push(<span key={key++}>{ws}</span>);
+      push(ws, '');
+      continue;
+    }
+
+    // Comments
+    if (ch === '/' && line[i + 1] === '/') {
+      push(line.substring(i), 'mjr-syn-comment');
+      break;
+    }
+    if (ch === '/' && line[i + 1] === '*') {
+      const close = line.indexOf('*/', i + 2);
+      if (close === -1) {
+        push(line.substring(i), 'mjr-syn-comment');
+        return { segments, inBlockComment: true };
+      }
+      push(line.substring(i, close + 2), 'mjr-syn-comment');
+      i = close + 2;
       continue;
     }
 
     // Strings
-    if (ch === '"') {
-      let str = '"';
+    if (ch === '"' || ch === "'") {
+      let str = ch;
       i++;
       while (i < line.length) {
         if (line[i] === '\\') {
@@ -293,90 +746,58 @@ function highlightJsonLine(line: string): React.ReactNode[] {
           continue;
         }
         str += line[i];
-        if (line[i] === '"') {
+        if (line[i] === ch) {
           i++;
           break;
         }
         i++;
       }
 
-      // Check if this is a key (followed by colon)
-      const rest = line.substring(i).trimStart();
-      const isKey = rest.startsWith(':');
-
-      tokens.push(
-        <span key={key++} className={isKey ? 'mjr-syn-key' : 'mjr-syn-string'}>
-          {str}
-        </span>,
-      );
+      push(str, isFollowedByColon(line, i) ? 'mjr-syn-key' : 'mjr-syn-string');
       continue;
     }
 
     // Numbers
-    if (ch === '-' || (ch >= '0' && ch <= '9')) {
+    if (ch === '-' || ch === '+' || ch === '.' || (ch >= '0' && ch <= '9')) {
       let num = '';
-      while (i < line.length && /[\d.eE+-]/.test(line[i])) {
+      while (i < line.length && /[0-9a-zA-Z.+-]/.test(line[i])) {
         num += line[i];
         i++;
       }
-      tokens.push(
-        <span key={key++} className="mjr-syn-number">
-          {num}
-        </span>,
-      );
+      push(num, 'mjr-syn-number');
       continue;
     }
 
-    // Booleans
-    if (line.substring(i, i + 4) === 'true') {
-      tokens.push(
-        <span key={key++} className="mjr-syn-boolean">
-          true
-        </span>,
-      );
-      i += 4;
-      continue;
-    }
-    if (line.substring(i, i + 5) === 'false') {
-      tokens.push(
-        <span key={key++} className="mjr-syn-boolean">
-          false
-        </span>,
-      );
-      i += 5;
-      continue;
-    }
-
-    // Null
-    if (line.substring(i, i + 4) === 'null') {
-      tokens.push(
-        <span key={key++} className="mjr-syn-null">
-          null
-        </span>,
-      );
-      i += 4;
+    // Words: literals, JSON5 Infinity/NaN, and bare keys
+    if (/[A-Za-z_$]/.test(ch)) {
+      let word = '';
+      while (i < line.length && /[\w$]/.test(line[i])) {
+        word += line[i];
+        i++;
+      }
+      if (word === 'true' || word === 'false') push(word, 'mjr-syn-boolean');
+      else if (word === 'null') push(word, 'mjr-syn-null');
+      else if (word === 'Infinity' || word === 'NaN') push(word, 'mjr-syn-number');
+      else if (isFollowedByColon(line, i)) push(word, 'mjr-syn-key');
+      else push(word, 'mjr-syn-punctuation');
       continue;
     }
 
     // Brackets and structural characters
     if (ch === '{' || ch === '}' || ch === '[' || ch === ']') {
-      tokens.push(
-        <span key={key++} className="mjr-syn-bracket">
-          {ch}
-        </span>,
-      );
+      push(ch, 'mjr-syn-bracket');
       i++;
       continue;
     }
 
     // Colon and comma
-    tokens.push(
-      <span key={key++} className="mjr-syn-punctuation">
-        {ch}
-      </span>,
-    );
+    push(ch, 'mjr-syn-punctuation');
     i++;
   }
 
-  return tokens;
+  return { segments, inBlockComment: false };
+}
+
+function isFollowedByColon(line: string, from: number): boolean {
+  return line.substring(from).trimStart().startsWith(':');
 }
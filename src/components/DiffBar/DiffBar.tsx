@@ -0,0 +1,124 @@
+import React from 'react';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
+
+export interface DiffBarProps {
+  /** Number of changes */
+  total: number;
+  /** Index of the change navigated to, or -1 */
+  currentIndex: number;
+  /** The original or the edited text doesn't parse, so there is nothing to compare */
+  unavailable?: boolean;
+  onNext: () => void;
+  onPrevious: () => void;
+  /** Puts the current change back the way the original has it */
+  onAcceptLeft: () => void;
+  /** Copies the current change into the original */
+  onAcceptRight: () => void;
+  /** The edited document can't change, so only "accept right" is offered */
+  readOnly: boolean;
+  /** UI text; English by default */
+  messages?: UiMessages;
+}
+
+/**
+ * Change counter, next/previous change and the accept actions for diff mode.
+ * The accept buttons act on the change navigated to.
+ */
+export const DiffBar: React.FC<DiffBarProps> = ({
+  total,
+  currentIndex,
+  unavailable = false,
+  onNext,
+  onPrevious,
+  onAcceptLeft,
+  onAcceptRight,
+  readOnly,
+  messages = englishUiMessages,
+}) => {
+  const t = createTranslator(messages);
+  const hasCurrent = currentIndex >= 0 && currentIndex < total;
+
+  const countLabel = unavailable
+    ? t('diffUnavailable')
+    : total === 0
+      ? t('noChanges')
+      : hasCurrent
+        ? t('changeCount', { current: currentIndex + 1, total })
+        : t('changeTotal', { total });
+
+  return (
+    <div className="mjr-diff-bar" role="region" aria-label={t('diffLabel')} data-testid="diff-bar">
+      <span className="mjr-diff-bar__count" aria-live="polite" data-testid="diff-count">
+        {countLabel}
+      </span>
+
+      {/* Navigation */}
+      <div className="mjr-diff-bar__nav">
+        <button
+          className="mjr-diff-bar__nav-btn"
+          onClick={onPrevious}
+          disabled={total === 0}
+          aria-label={t('previousChange')}
+          title={t('previousChangeTitle')}
+        >
+          <svg
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <polyline points="18 15 12 9 6 15" />
+          </svg>
+        </button>
+        <button
+          className="mjr-diff-bar__nav-btn"
+          onClick={onNext}
+          disabled={total === 0}
+          aria-label={t('nextChange')}
+          title={t('nextChangeTitle')}
+        >
+          <svg
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <polyline points="6 9 12 15 18 9" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Resolve the current change */}
+      <div className="mjr-diff-bar__actions">
+        {!readOnly && (
+          <button
+            className="mjr-diff-bar__accept"
+            onClick={onAcceptLeft}
+            disabled={!hasCurrent}
+            title={t('acceptLeftTitle')}
+          >
+            {t('acceptLeft')}
+          </button>
+        )}
+        <button
+          className="mjr-diff-bar__accept"
+          onClick={onAcceptRight}
+          disabled={!hasCurrent}
+          title={t('acceptRightTitle')}
+        >
+          {t('acceptRight')}
+        </button>
+      </div>
+    </div>
+  );
+};
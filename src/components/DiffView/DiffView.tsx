@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { CodeEditor, type DiffLine } from '../CodeEditor/CodeEditor';
+import { counterpartPath, type DiffKind, type DiffOperation } from '../../core/diff';
+import type { ParseResult } from '../../core/parser';
+import type { DiffReveal } from '../../hooks/useDiff';
+import type { SearchMatch } from '../../hooks/useSearch';
+import type { CompletionProvider } from '../../core/completion';
+import type { CursorPosition, NodeLocation, ParseError } from '../../types/editor';
+import type { ValidationError } from '../../types/validation';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
+
+export interface DiffViewProps {
+  /** Text of the original, shown read-only on the left */
+  originalText: string;
+  /** Text being edited, on the right */
+  value: string;
+  onChange: (value: string) => void;
+  /** Both texts parsed, for the location of every changed node */
+  original: ParseResult | null;
+  modified: ParseResult | null;
+  operations: DiffOperation[];
+  /** Index of the change navigated to, or -1 */
+  currentIndex: number;
+  /** Scroll to a change when the user navigates to it */
+  reveal?: DiffReveal | null;
+  /** The `arrayKey` the operations were computed with, to find both sides of a change */
+  arrayKey?: string;
+  /** Syntax and validation errors of the edited text */
+  parseErrors: ParseError[];
+  validationErrors?: ValidationError[];
+  readOnly: boolean;
+  lineNumbers: boolean;
+  bracketMatching: boolean;
+  onCursorChange: (pos: CursorPosition) => void;
+  /** Search matches in the edited text */
+  searchMatches?: SearchMatch[];
+  currentMatchIndex?: number;
+  completionProvider?: CompletionProvider;
+  /** UI text; English by default */
+  messages?: UiMessages;
+}
+
+const NO_MATCHES: SearchMatch[] = [];
+const ignoreCursor = () => {};
+const ignoreChange = () => {};
+
+/**
+ * Side-by-side diff: the original and the edited text in two code panes that
+ * scroll together, with the lines of every change marked on each side.
+ */
+export const DiffView: React.FC<DiffViewProps> = ({
+  originalText,
+  value,
+  onChange,
+  original,
+  modified,
+  operations,
+  currentIndex,
+  reveal = null,
+  arrayKey,
+  parseErrors,
+  validationErrors,
+  readOnly,
+  lineNumbers,
+  bracketMatching,
+  onCursorChange,
+  searchMatches = NO_MATCHES,
+  currentMatchIndex = 0,
+  completionProvider,
+  messages = englishUiMessages,
+}) => {
+  const t = createTranslator(messages);
+  const leftRef = useRef<HTMLDivElement>(null);
+  const rightRef = useRef<HTMLDivElement>(null);
+
+  // Removals only exist on the left and additions only on the right
+  const [leftLines, rightLines] = useMemo(() => {
+    const left = new Map<number, DiffLine>();
+    const right = new Map<number, DiffLine>();
+    if (!original || !modified) return [left, right];
+    const markLeft = createMarker(originalText, original.locations, left);
+    const markRight = createMarker(value, modified.locations, right);
+
+    operations.forEach((op, i) => {
+      const active = i === currentIndex;
+      if (op.kind === 'remove') {
+        markLeft(op.path, op.kind, active);
+        return;
+      }
+      markRight(op.path, op.kind, active);
+      if (op.kind === 'move') markLeft(op.from ?? op.path, op.kind, active);
+      if (op.kind === 'change') {
+        markLeft(
+          counterpartPath(op.path, modified.value, original.value, arrayKey),
+          op.kind,
+          active,
+        );
+      }
+    });
+    return [left, right];
+  }, [original, modified, originalText, value, operations, currentIndex, arrayKey]);
+
+  // Keep both panes at the same scroll position
+  useEffect(() => {
+    const panes = [leftRef.current, rightRef.current].map(
+      (pane) => pane?.querySelector<HTMLElement>('.mjr-code-editor') ?? null,
+    );
+    const [a, b] = panes;
+    if (!a || !b) return;
+    const follow = (source: HTMLElement, target: HTMLElement) => () => {
+      if (target.scrollTop !== source.scrollTop) target.scrollTop = source.scrollTop;
+      if (target.scrollLeft !== source.scrollLeft) target.scrollLeft = source.scrollLeft;
+    };
+    const syncA = follow(a, b);
+    const syncB = follow(b, a);
+    a.addEventListener('scroll', syncA, { passive: true });
+    b.addEventListener('scroll', syncB, { passive: true });
+    return () => {
+      a.removeEventListener('scroll', syncA);
+      b.removeEventListener('scroll', syncB);
+    };
+  }, []);
+
+  // Bring the change navigated to into view; the other pane follows
+  useEffect(() => {
+    if (!reveal) return;
+    const pane = reveal.operation.kind === 'remove' ? leftRef.current : rightRef.current;
+    pane?.querySelector('.mjr-code__line--diff-active')?.scrollIntoView?.({ block: 'nearest' });
+  }, [reveal]);
+
+  return (
+    <>
+      <div
+        ref={leftRef}
+        className="mjr-editor__panel mjr-editor__panel--half mjr-diff__pane"
+        data-testid="diff-original"
+      >
+        <div className="mjr-diff__pane-title">{t('diffOriginal')}</div>
+        <CodeEditor
+          value={originalText}
+          onChange={ignoreChange}
+          parseErrors={original?.errors ?? []}
+          readOnly
+          lineNumbers={lineNumbers}
+          bracketMatching={bracketMatching}
+          searchMatches={NO_MATCHES}
+          currentMatchIndex={0}
+          onCursorChange={ignoreCursor}
+          diffLines={leftLines}
+          messages={messages}
+        />
+      </div>
+      <div
+        ref={rightRef}
+        className="mjr-editor__panel mjr-editor__panel--half mjr-diff__pane"
+        data-testid="diff-modified"
+      >
+        <div className="mjr-diff__pane-title">{t('diffModified')}</div>
+        <CodeEditor
+          value={value}
+          onChange={onChange}
+          parseErrors={parseErrors}
+          validationErrors={validationErrors}
+          readOnly={readOnly}
+          lineNumbers={lineNumbers}
+          bracketMatching={bracketMatching}
+          searchMatches={searchMatches}
+          currentMatchIndex={currentMatchIndex}
+          onCursorChange={onCursorChange}
+          completionProvider={completionProvider}
+          diffLines={rightLines}
+          messages={messages}
+        />
+      </div>
+    </>
+  );
+};
+
+/**
+ * A function marking the lines of the node at a path in `lines`: from its key
+ * (when it has one) to the end of its value. Nested changes come after the
+ * change around them, so the inner kind wins on the lines they share.
+ */
+function createMarker(
+  text: string,
+  locations: Map<string, NodeLocation>,
+  lines: Map<number, DiffLine>,
+) {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineOf = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  return (path: string, kind: DiffKind, active: boolean) => {
+    const loc = locations.get(path);
+    if (!loc) return;
+    const first = lineOf(loc.keyStart ?? loc.start);
+    const last = lineOf(Math.max(loc.start, loc.end - 1));
+    for (let line = first; line <= last; line++) {
+      lines.set(line, { kind, active: active || (lines.get(line)?.active ?? false) });
+    }
+  };
+}
@@ -1,5 +1,8 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import type { SearchMatch } from '../../hooks/useSearch';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
 
 export interface SearchBarProps {
   query: string;
@@ -15,6 +18,8 @@ export interface SearchBarProps {
     useRegex?: boolean;
   };
   onOptionsChange: (opts: { caseSensitive?: boolean; useRegex?: boolean }) => void;
+  /** UI text; English by default */
+  messages?: UiMessages;
 }
 
 export const SearchBar: React.FC<SearchBarProps> = ({
@@ -27,7 +32,9 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onClose,
   options,
   onOptionsChange,
+  messages = englishUiMessages,
 }) => {
+  const t = createTranslator(messages);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Auto-focus input when mounted
@@ -56,12 +63,12 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   const matchLabel =
     totalMatches === 0
       ? query
-        ? 'No results'
+        ? t('noResults')
         : ''
-      : `${currentMatchIndex + 1} of ${totalMatches}`;
+      : t('matchCount', { current: currentMatchIndex + 1, total: totalMatches });
 
   return (
-    <div className="mjr-search" role="search" aria-label="Search in editor">
+    <div className="mjr-search" role="search" aria-label={t('searchLabel')}>
       <div className="mjr-search__input-group">
         {/* Search icon */}
         <svg
@@ -87,8 +94,8 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           value={query}
           onChange={(e) => onQueryChange(e.target.value)}
           onKeyDown={handleKeyDown}
-          placeholder="Search..."
-          aria-label="Search query"
+          placeholder={t('searchPlaceholder')}
+          aria-label={t('searchQuery')}
           spellCheck={false}
           autoComplete="off"
         />
@@ -107,8 +114,8 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           className={`mjr-search__option-btn ${options.caseSensitive ? 'mjr-search__option-btn--active' : ''}`}
           onClick={() => onOptionsChange({ caseSensitive: !options.caseSensitive })}
           aria-pressed={options.caseSensitive}
-          title="Match case"
-          aria-label="Match case"
+          title={t('matchCase')}
+          aria-label={t('matchCase')}
         >
           Aa
         </button>
@@ -116,8 +123,8 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           className={`mjr-search__option-btn ${options.useRegex ? 'mjr-search__option-btn--active' : ''}`}
           onClick={() => onOptionsChange({ useRegex: !options.useRegex })}
           aria-pressed={options.useRegex}
-          title="Use regular expression"
-          aria-label="Use regular expression"
+          title={t('useRegex')}
+          aria-label={t('useRegex')}
         >
           .*
         </button>
@@ -129,8 +136,8 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           className="mjr-search__nav-btn"
           onClick={onPrevious}
           disabled={totalMatches === 0}
-          aria-label="Previous match"
-          title="Previous match (Shift+Enter)"
+          aria-label={t('previousMatch')}
+          title={t('previousMatchTitle')}
         >
           <svg
             width="12"
@@ -149,8 +156,8 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           className="mjr-search__nav-btn"
           onClick={onNext}
           disabled={totalMatches === 0}
-          aria-label="Next match"
-          title="Next match (Enter)"
+          aria-label={t('nextMatch')}
+          title={t('nextMatchTitle')}
         >
           <svg
             width="12"
@@ -171,8 +178,8 @@ export const SearchBar: React.FC<SearchBarProps> = ({
       <button
         className="mjr-search__close"
         onClick={onClose}
-        aria-label="Close search"
-        title="Close (Escape)"
+        aria-label={t('closeSearch')}
+        title={t('closeSearchTitle')}
       >
         <svg
           width="14"
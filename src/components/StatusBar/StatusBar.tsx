@@ -1,87 +1,264 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import type { ParseError, CursorPosition } from '../../types/editor';
-import type { ValidationError } from '../../types/validation';
+import type { ValidationError, ValidationSeverity } from '../../types/validation';
 import type { JsonStats } from '../../core/formatter';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator, formatMessage } from '../../i18n/format';
 
 export interface StatusBarProps {
-  parseError: ParseError | null;
+  parseErrors: ParseError[];
   validationErrors: ValidationError[];
   cursor: CursorPosition;
   stats: JsonStats | null;
+  /** Whether async validators are still running */
+  isValidating?: boolean;
+  /**
+   * Called when an entry in the problems panel is clicked. Syntax errors are
+   * passed as errors at path "$" carrying their line and column.
+   */
+  onSelectProblem?: (error: ValidationError) => void;
+  /** UI text; English by default */
+  messages?: UiMessages;
   className?: string;
 }
 
+interface ProblemGroup {
+  /** Path of the grouped errors, or the `syntaxProblems` text for parse errors */
+  label: string;
+  errors: ValidationError[];
+}
+
+const SEVERITIES: { severity: ValidationSeverity; label: keyof UiMessages; icon: string }[] = [
+  { severity: 'error', label: 'errors', icon: '\u2715' },
+  { severity: 'warning', label: 'warnings', icon: '\u26A0' },
+  { severity: 'info', label: 'info', icon: '\u2139' },
+];
+
 export const StatusBar: React.FC<StatusBarProps> = ({
-  parseError,
+  parseErrors,
   validationErrors,
   cursor,
   stats,
+  isValidating = false,
+  onSelectProblem,
+  messages = englishUiMessages,
   className = '',
 }) => {
-  const hasErrors = parseError !== null;
+  const t = createTranslator(messages);
+  const [isPanelOpen, setPanelOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  // Parse errors become path-less problems so both kinds share one list
+  const syntaxProblems = useMemo(
+    () =>
+      parseErrors.map(
+        (err): ValidationError => ({
+          message: err.message,
+          path: '$',
+          severity: 'error',
+          line: err.line,
+          column: err.column,
+        }),
+      ),
+    [parseErrors],
+  );
+
+  const problemCount = syntaxProblems.length + validationErrors.length;
+  const showPanel = isPanelOpen && problemCount > 0;
+
+  const sections = useMemo(() => {
+    if (!showPanel) return [];
+    const query = filter.trim().toLowerCase();
+    const matches = (error: ValidationError, group: string) =>
+      !query ||
+      [error.message, group, error.schemaKeyword ?? ''].some((text) =>
+        text.toLowerCase().includes(query),
+      );
+
+    const syntaxGroup = formatMessage(messages.syntaxProblems);
+    return SEVERITIES.map(({ severity, label, icon }) => {
+      const groups = new Map<string, ValidationError[]>();
+      const add = (error: ValidationError, group: string) => {
+        if (error.severity !== severity || !matches(error, group)) return;
+        if (!groups.has(group)) groups.set(group, []);
+        groups.get(group)!.push(error);
+      };
+      for (const error of syntaxProblems) add(error, syntaxGroup);
+      for (const error of validationErrors) add(error, error.path);
+
+      const list: ProblemGroup[] = [...groups].map(([groupLabel, errors]) => ({
+        label: groupLabel,
+        errors,
+      }));
+      const count = list.reduce((sum, group) => sum + group.errors.length, 0);
+      return { severity, label: formatMessage(messages[label]), icon, groups: list, count };
+    }).filter((section) => section.count > 0);
+  }, [showPanel, filter, syntaxProblems, validationErrors, messages]);
+
+  const hasErrors = parseErrors.length > 0;
   const hasWarnings = validationErrors.length > 0;
 
   let statusIcon: string;
   let statusText: string;
   let statusClass: string;
+  let statusTitle: string | undefined;
 
   if (hasErrors) {
     statusIcon = '\u2715'; // ✕
-    statusText = `Invalid JSON (line ${parseError.line})`;
+    statusText = t('invalidJson', { count: parseErrors.length, line: parseErrors[0].line });
     statusClass = 'mjr-status--error';
+    statusTitle = parseErrors
+      .map((err) =>
+        t('parseErrorDetail', { line: err.line, column: err.column, message: err.message }),
+      )
+      .join('\n');
+  } else if (isValidating) {
+    statusIcon = '\u21BB'; // ↻
+    statusText = t('validating');
+    statusClass = 'mjr-status--validating';
   } else if (hasWarnings) {
     statusIcon = '\u26A0'; // ⚠
-    statusText = `${validationErrors.length} validation ${validationErrors.length === 1 ? 'issue' : 'issues'}`;
+    statusText = t('validationIssues', { count: validationErrors.length });
     statusClass = 'mjr-status--warning';
   } else {
     statusIcon = '\u2713'; // ✓
-    statusText = 'Valid JSON';
+    statusText = t('validJson');
     statusClass = 'mjr-status--valid';
   }
 
-  return (
-    <div
-      className={`mjr-status-bar ${statusClass} ${className}`}
-      role="status"
-      aria-live="polite"
-      aria-atomic="true"
-    >
-      <span className="mjr-status-bar__indicator">
-        <span className="mjr-status-bar__icon" aria-hidden="true">
-          {statusIcon}
-        </span>
-        <span className="mjr-status-bar__text">{statusText}</span>
-      </span>
-
-      <span className="mjr-status-bar__separator" aria-hidden="true">
-        |
+  const indicator = (
+    <>
+      <span className="mjr-status-bar__icon" aria-hidden="true">
+        {statusIcon}
       </span>
+      <span className="mjr-status-bar__text">{statusText}</span>
+    </>
+  );
 
-      <span className="mjr-status-bar__cursor">
-        Ln {cursor.line}, Col {cursor.column}
-      </span>
+  return (
+    <>
+      {showPanel && (
+        <div className="mjr-problems" id="mjr-problems-panel" data-testid="problems-panel">
+          <div className="mjr-problems__header">
+            <input
+              type="text"
+              className="mjr-problems__filter"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder={t('filterProblems')}
+              aria-label={t('filterProblems')}
+            />
+            <button
+              className="mjr-problems__close"
+              onClick={() => setPanelOpen(false)}
+              aria-label={t('closeProblems')}
+              title={t('closeProblems')}
+            >
+              {'\u2715'}
+            </button>
+          </div>
 
-      {stats && (
-        <>
-          <span className="mjr-status-bar__separator" aria-hidden="true">
-            |
-          </span>
-          <span className="mjr-status-bar__stats">
-            {stats.properties} {stats.properties === 1 ? 'property' : 'properties'}
-            {stats.arrays > 0 && `, ${stats.arrays} ${stats.arrays === 1 ? 'array' : 'arrays'}`}
-          </span>
-        </>
+          <div className="mjr-problems__list">
+            {sections.length === 0 && (
+              <div className="mjr-problems__empty">{t('noMatchingProblems')}</div>
+            )}
+            {sections.map((section) => (
+              <section
+                key={section.severity}
+                className={`mjr-problems__section mjr-problems__section--${section.severity}`}
+                aria-label={`${section.label} (${section.count})`}
+              >
+                <h3 className="mjr-problems__heading">
+                  <span className="mjr-problems__icon" aria-hidden="true">
+                    {section.icon}
+                  </span>
+                  {section.label}
+                  <span className="mjr-problems__count">{section.count}</span>
+                </h3>
+                {section.groups.map((group) => (
+                  <div key={group.label} className="mjr-problems__group">
+                    <div className="mjr-problems__path">{group.label}</div>
+                    <ul className="mjr-problems__entries">
+                      {group.errors.map((error, i) => (
+                        <li key={i}>
+                          <button
+                            className="mjr-problems__entry"
+                            onClick={() => onSelectProblem?.(error)}
+                          >
+                            <span className="mjr-problems__message">{error.message}</span>
+                            {error.schemaKeyword && (
+                              <code className="mjr-problems__keyword">{error.schemaKeyword}</code>
+                            )}
+                            {error.line !== undefined && (
+                              <span className="mjr-problems__location">
+                                {t('position', { line: error.line, column: error.column ?? 1 })}
+                              </span>
+                            )}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </section>
+            ))}
+          </div>
+        </div>
       )}
 
-      {stats && stats.byteSize > 0 && (
-        <>
-          <span className="mjr-status-bar__separator" aria-hidden="true">
-            |
+      <div
+        className={`mjr-status-bar ${statusClass} ${className}`}
+        role="status"
+        aria-live="polite"
+        aria-atomic="true"
+      >
+        {problemCount > 0 ? (
+          <button
+            className="mjr-status-bar__indicator mjr-status-bar__indicator--toggle"
+            title={statusTitle ?? t('showProblems')}
+            onClick={() => setPanelOpen((open) => !open)}
+            aria-expanded={showPanel}
+            aria-controls={showPanel ? 'mjr-problems-panel' : undefined}
+          >
+            {indicator}
+          </button>
+        ) : (
+          <span className="mjr-status-bar__indicator" title={statusTitle}>
+            {indicator}
           </span>
-          <span className="mjr-status-bar__size">{formatBytes(stats.byteSize)}</span>
-        </>
-      )}
-    </div>
+        )}
+
+        <span className="mjr-status-bar__separator" aria-hidden="true">
+          |
+        </span>
+
+        <span className="mjr-status-bar__cursor">
+          {t('position', { line: cursor.line, column: cursor.column })}
+        </span>
+
+        {stats && (
+          <>
+            <span className="mjr-status-bar__separator" aria-hidden="true">
+              |
+            </span>
+            <span className="mjr-status-bar__stats">
+              {t('propertyCount', { count: stats.properties })}
+              {stats.arrays > 0 && `, ${t('arrayCount', { count: stats.arrays })}`}
+            </span>
+          </>
+        )}
+
+        {stats && stats.byteSize > 0 && (
+          <>
+            <span className="mjr-status-bar__separator" aria-hidden="true">
+              |
+            </span>
+            <span className="mjr-status-bar__size">{formatBytes(stats.byteSize)}</span>
+          </>
+        )}
+      </div>
+    </>
   );
 };
 
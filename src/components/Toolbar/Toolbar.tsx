@@ -1,46 +1,82 @@
 import React from 'react';
-import type { EditorMode } from '../../types/editor';
+import type { EditorMode, JsonFormat } from '../../types/editor';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
 
 export interface ToolbarProps {
   mode: EditorMode;
   onModeChange: (mode: EditorMode) => void;
+  /** There is an original to compare with, so the Diff tab shows */
+  canDiff?: boolean;
   canUndo: boolean;
   canRedo: boolean;
   onUndo: () => void;
   onRedo: () => void;
   onFormat: () => void;
+  /** Fills in what the schema requires; the button shows only when given */
+  onInsertFromSchema?: () => void;
+  /** Infers a schema from the document; the button shows only when given */
+  onInferSchema?: () => void;
+  /** The document doesn't parse, so there is nothing to infer from */
+  canInferSchema?: boolean;
   searchable: boolean;
   isSearchOpen: boolean;
   onToggleSearch: () => void;
   readOnly: boolean;
+  format?: JsonFormat;
+  /** Number of validation problems; the error navigation buttons show when non-zero */
+  errorCount?: number;
+  onNextError?: () => void;
+  onPreviousError?: () => void;
+  /** UI text; English by default */
+  messages?: UiMessages;
   className?: string;
 }
 
-const MODE_OPTIONS: { value: EditorMode; label: string }[] = [
-  { value: 'code', label: 'Code' },
-  { value: 'tree', label: 'Tree' },
-  { value: 'split', label: 'Split' },
+const MODE_OPTIONS: { value: EditorMode; label: keyof UiMessages }[] = [
+  { value: 'code', label: 'modeCode' },
+  { value: 'tree', label: 'modeTree' },
+  { value: 'split', label: 'modeSplit' },
+  { value: 'diff', label: 'modeDiff' },
 ];
 
+const FORMAT_LABELS: Record<JsonFormat, { label: string; title: keyof UiMessages }> = {
+  json: { label: 'JSON', title: 'formatJsonTitle' },
+  jsonc: { label: 'JSONC', title: 'formatJsoncTitle' },
+  json5: { label: 'JSON5', title: 'formatJson5Title' },
+};
+
 export const Toolbar: React.FC<ToolbarProps> = ({
   mode,
   onModeChange,
+  canDiff = false,
   canUndo,
   canRedo,
   onUndo,
   onRedo,
   onFormat,
+  onInsertFromSchema,
+  onInferSchema,
+  canInferSchema = true,
   searchable,
   isSearchOpen,
   onToggleSearch,
   readOnly,
+  format = 'json',
+  errorCount = 0,
+  onNextError,
+  onPreviousError,
+  messages = englishUiMessages,
   className = '',
 }) => {
+  const t = createTranslator(messages);
+
   return (
-    <div className={`mjr-toolbar ${className}`} role="toolbar" aria-label="Editor controls">
+    <div className={`mjr-toolbar ${className}`} role="toolbar" aria-label={t('toolbarLabel')}>
       {/* Mode Switcher */}
-      <div className="mjr-toolbar__modes" role="tablist" aria-label="Editor mode">
-        {MODE_OPTIONS.map(({ value, label }) => (
+      <div className="mjr-toolbar__modes" role="tablist" aria-label={t('modeGroupLabel')}>
+        {MODE_OPTIONS.filter(({ value }) => value !== 'diff' || canDiff).map(({ value, label }) => (
           <button
             key={value}
             role="tab"
@@ -48,7 +84,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             className={`mjr-toolbar__mode-btn ${mode === value ? 'mjr-toolbar__mode-btn--active' : ''}`}
             onClick={() => onModeChange(value)}
           >
-            {label}
+            {t(label)}
           </button>
         ))}
       </div>
@@ -60,9 +96,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         <button
           className={`mjr-toolbar__btn ${isSearchOpen ? 'mjr-toolbar__btn--active' : ''}`}
           onClick={onToggleSearch}
-          aria-label="Toggle search"
+          aria-label={t('toggleSearch')}
           aria-pressed={isSearchOpen}
-          title="Search (Ctrl+F)"
+          title={t('toggleSearchTitle')}
         >
           &#x1F50D;
         </button>
@@ -77,8 +113,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             className="mjr-toolbar__btn"
             onClick={onUndo}
             disabled={!canUndo}
-            aria-label="Undo"
-            title="Undo (Ctrl+Z)"
+            aria-label={t('undo')}
+            title={t('undoTitle')}
           >
             &#x21B6;
           </button>
@@ -86,8 +122,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             className="mjr-toolbar__btn"
             onClick={onRedo}
             disabled={!canRedo}
-            aria-label="Redo"
-            title="Redo (Ctrl+Shift+Z)"
+            aria-label={t('redo')}
+            title={t('redoTitle')}
           >
             &#x21B7;
           </button>
@@ -99,12 +135,69 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         <button
           className="mjr-toolbar__btn"
           onClick={onFormat}
-          aria-label="Format document"
-          title="Format (Ctrl+Shift+P)"
+          aria-label={t('formatDocument')}
+          title={t('formatDocumentTitle')}
         >
           {'{ }'}
         </button>
       )}
+
+      {/* Insert from schema */}
+      {!readOnly && onInsertFromSchema && (
+        <button
+          className="mjr-toolbar__btn"
+          onClick={onInsertFromSchema}
+          aria-label={t('insertFromSchema')}
+          title={t('insertFromSchemaTitle')}
+        >
+          {'{+}'}
+        </button>
+      )}
+
+      {/* Infer schema */}
+      {onInferSchema && (
+        <button
+          className="mjr-toolbar__btn"
+          onClick={onInferSchema}
+          disabled={!canInferSchema}
+          aria-label={t('inferSchema')}
+          title={t('inferSchemaTitle')}
+        >
+          {'{?}'}
+        </button>
+      )}
+
+      {/* Error navigation */}
+      {errorCount > 0 && (
+        <>
+          <div className="mjr-toolbar__separator" aria-hidden="true" />
+          <button
+            className="mjr-toolbar__btn"
+            onClick={onPreviousError}
+            aria-label={t('previousError')}
+            title={t('previousErrorTitle')}
+          >
+            &#x2191;
+          </button>
+          <button
+            className="mjr-toolbar__btn"
+            onClick={onNextError}
+            aria-label={t('nextError')}
+            title={t('nextErrorTitle')}
+          >
+            &#x2193;
+          </button>
+        </>
+      )}
+
+      {/* Active dialect */}
+      <span
+        className={`mjr-toolbar__format mjr-toolbar__format--${format}`}
+        title={t(FORMAT_LABELS[format].title)}
+        data-testid="format-indicator"
+      >
+        {FORMAT_LABELS[format].label}
+      </span>
     </div>
   );
 };
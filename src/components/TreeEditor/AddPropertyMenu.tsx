@@ -0,0 +1,99 @@
+import React, { useEffect, useRef } from 'react';
+import type { SchemaProperty } from '../../core/schemaInfo';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
+
+export interface AddPropertyMenuProps {
+  /** Schema properties the object doesn't have yet */
+  properties: SchemaProperty[];
+  /** Called with the chosen property, or `null` for a custom one */
+  onSelect: (property: SchemaProperty | null) => void;
+  onClose: () => void;
+  /** UI text; English by default */
+  messages?: UiMessages;
+}
+
+/**
+ * Menu of the properties a schema declares but the object lacks, with a
+ * final entry for adding a property of one's own.
+ */
+export const AddPropertyMenu: React.FC<AddPropertyMenuProps> = ({
+  properties,
+  onSelect,
+  onClose,
+  messages = englishUiMessages,
+}) => {
+  const t = createTranslator(messages);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    menuRef.current?.querySelector<HTMLElement>('[role="menuitem"]')?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const items = Array.from(
+      menuRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]') ?? [],
+    );
+    const index = items.indexOf(document.activeElement as HTMLElement);
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      items[(index + step + items.length) % items.length]?.focus();
+    } else if (e.key === 'Home' || e.key === 'End') {
+      e.preventDefault();
+      items[e.key === 'Home' ? 0 : items.length - 1]?.focus();
+    } else if (e.key === 'Escape') {
+      // Leave the editor-wide Escape (closing search) alone
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="mjr-add-menu"
+      role="menu"
+      aria-label={t('addProperty')}
+      onKeyDown={handleKeyDown}
+      onBlur={(e) => {
+        if (!menuRef.current?.contains(e.relatedTarget as Node | null)) onClose();
+      }}
+      data-testid="add-property-menu"
+    >
+      {properties.map((property) => (
+        <button
+          key={property.name}
+          className="mjr-add-menu__item"
+          role="menuitem"
+          tabIndex={-1}
+          title={property.description}
+          onClick={() => onSelect(property)}
+        >
+          <span className="mjr-add-menu__name">{property.name}</span>
+          {(property.type || property.required) && (
+            <span className="mjr-add-menu__detail">
+              {[property.type, property.required && t('propertyRequired')]
+                .filter(Boolean)
+                .join(' · ')}
+            </span>
+          )}
+          {property.description && (
+            <span className="mjr-add-menu__description">{property.description}</span>
+          )}
+        </button>
+      ))}
+      <div className="mjr-add-menu__separator" role="separator" />
+      <button
+        className="mjr-add-menu__item mjr-add-menu__item--custom"
+        role="menuitem"
+        tabIndex={-1}
+        onClick={() => onSelect(null)}
+      >
+        {t('customProperty')}
+      </button>
+    </div>
+  );
+};
@@ -1,17 +1,71 @@
-import React, { useMemo, useCallback, useState } from 'react';
-import { TreeNodeComponent, type TreeNodeData } from './TreeNode';
-import { setByPath, deleteByPath } from '../../core/path';
-import type { JsonNodeType } from '../../types/tree';
+import React, { useMemo, useCallback, useState, useEffect, useRef } from 'react';
+import { TreeNodeComponent, type TreeNodeData, type NodeIssues } from './TreeNode';
+import { AddPropertyMenu } from './AddPropertyMenu';
+import { setByPath, deleteByPath, getByPath, getParentPath } from '../../core/path';
+import { isJsonNumber } from '../../core/number';
+import { schemasAtPath, worstSeverity } from '../../core/validator';
+import { initialValue, schemaProperties, type SchemaProperty } from '../../core/schemaInfo';
+import type { DiffKind } from '../../core/diff';
+import type { DuplicateKey } from '../../types/editor';
+import type { JsonNodeType, TreeAction } from '../../types/tree';
+import type { JSONSchema, ValidationError } from '../../types/validation';
+import type { ErrorReveal } from '../../hooks/useErrorNavigation';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
 
 export interface TreeEditorProps {
   value: unknown;
-  onChange: (value: unknown) => void;
+  /** Receives the updated value and the action that produced it */
+  onChange: (value: unknown, action?: TreeAction) => void;
   readOnly: boolean;
+  /** Number of syntax errors when `value` is a partial recovery of invalid text */
+  partialErrorCount?: number;
+  /** Repeated object keys — every occurrence is shown so the user can pick one */
+  duplicateKeys?: DuplicateKey[];
+  /** Schema and custom-validator errors, shown on the nodes they refer to */
+  validationErrors?: ValidationError[];
+  /** Expand to and highlight an error when the user navigates to it */
+  revealError?: ErrorReveal | null;
+  /** Offers the schema's missing properties when adding, and pickers for `enum` values */
+  schema?: JSONSchema;
+  /** Schemas that `$ref` in `schema` may point to */
+  schemaRegistry?: Record<string, JSONSchema>;
   searchQuery?: string;
   searchCaseSensitive?: boolean;
+  /** Inline diff: changes against the original to mark, with removed values shown in place */
+  diff?: TreeDiff;
+  /** Expand to and highlight a change when the user navigates to it */
+  revealDiff?: TreeDiffReveal | null;
+  /** UI text; English by default */
+  messages?: UiMessages;
   className?: string;
 }
 
+/** What the inline diff marks in the tree */
+export interface TreeDiff {
+  /** How the node at each path of the value differs from the original */
+  changes: Map<string, DiffKind>;
+  /** Values only the original has, by the path in the value of the container they were in */
+  removed: Map<string, RemovedValue[]>;
+}
+
+/** A member of the original that the value no longer has */
+export interface RemovedValue {
+  /** Path in the original */
+  path: string;
+  key: string | number;
+  value: unknown;
+  /** Position it had among its siblings */
+  index: number;
+}
+
+/** A change to bring into view; a new object is created per navigation */
+export interface TreeDiffReveal {
+  /** Node id: the path of the node, or the removed value's path followed by "#removed" */
+  id: string;
+}
+
 /**
  * Tree-based visual editor for JSON data.
  * Converts a JSON value into a navigable tree with inline editing.
@@ -19,16 +73,125 @@ export interface TreeEditorProps {
 export const TreeEditor: React.FC<TreeEditorProps> = ({
   value,
   onChange,
-  readOnly,
+  readOnly: readOnlyProp,
+  partialErrorCount = 0,
+  duplicateKeys = NO_DUPLICATES,
+  validationErrors = NO_ERRORS,
+  revealError = null,
+  schema,
+  schemaRegistry,
   searchQuery = '',
   searchCaseSensitive = false,
+  diff,
+  revealDiff = null,
+  messages = englishUiMessages,
   className = '',
 }) => {
+  const t = createTranslator(messages);
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(['$']));
+  // A partially recovered document can't be edited safely — writing it back
+  // would drop everything the parser had to skip.
+  const isPartial = partialErrorCount > 0;
+  const readOnly = readOnlyProp || isPartial;
+
+  const duplicates = useMemo(
+    () => new Map(duplicateKeys.map((duplicate) => [duplicate.path, duplicate])),
+    [duplicateKeys],
+  );
+
+  // Problems per node; errors for paths missing from the value go to the nearest ancestor
+  const issues = useMemo(() => {
+    const map = new Map<string, NodeIssues>();
+    const subtree = new Map<string, ValidationError[]>();
+    for (const error of validationErrors) {
+      const path = resolveNodePath(value, error.path);
+      for (let p: string | null = path; p !== null; p = getParentPath(p)) {
+        if (!map.has(p)) map.set(p, { own: [], inside: 0, severity: 'info' });
+        if (p === path) map.get(p)!.own.push(error);
+        else map.get(p)!.inside++;
+        if (!subtree.has(p)) subtree.set(p, []);
+        subtree.get(p)!.push(error);
+      }
+    }
+    for (const [path, nodeIssues] of map) nodeIssues.severity = worstSeverity(subtree.get(path)!);
+    return map;
+  }, [validationErrors, value]);
+
+  // Expand the ancestors of nodes that just became invalid, so they are visible
+  const invalidPaths = useRef(new Set<string>());
+  useEffect(() => {
+    const current = new Set([...issues].filter(([, i]) => i.own.length > 0).map(([p]) => p));
+    const fresh = [...current].filter((path) => !invalidPaths.current.has(path));
+    invalidPaths.current = current;
+    if (fresh.length > 0) setExpandedPaths((prev) => withAncestors(prev, fresh));
+  }, [issues]);
+
+  // Likewise open the way to changes as they appear, and the containers that lost values
+  const changedPaths = useRef(new Set<string>());
+  useEffect(() => {
+    const containers = diff ? [...diff.removed.keys()] : [];
+    const current = new Set([...(diff?.changes.keys() ?? []), ...containers]);
+    const fresh = [...current].filter((path) => !changedPaths.current.has(path));
+    changedPaths.current = current;
+    if (fresh.length === 0) return;
+    setExpandedPaths((prev) => {
+      const next = withAncestors(prev, fresh);
+      const closed = containers.filter((path) => fresh.includes(path) && !next.has(path));
+      return closed.length === 0 ? next : new Set([...next, ...closed]);
+    });
+  }, [diff]);
+
+  const [revealedPath, setRevealedPath] = useState<string | null>(null);
+  useEffect(() => {
+    if (!revealError) return;
+    const path = resolveNodePath(value, revealError.error.path);
+    setExpandedPaths((prev) => withAncestors(prev, [path]));
+    setRevealedPath(path);
+    // Only navigation should move the highlight, not edits that re-run validation
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [revealError]);
+
+  useEffect(() => {
+    if (!revealDiff) return;
+    const { id } = revealDiff;
+    const container = [...(diff?.removed ?? [])].find(([, values]) =>
+      values.some((removed) => `${removed.path}#removed` === id),
+    );
+    const path = container ? container[0] : id;
+    setExpandedPaths((prev) => {
+      const next = withAncestors(prev, [path]);
+      // A removed value shows inside its container, so that has to be open too
+      return id === path || next.has(path) ? next : new Set(next).add(path);
+    });
+    setRevealedPath(id);
+    // Only navigation should move the highlight, not edits that change the diff
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [revealDiff]);
+
+  // Subschemas by node path, looked up as nodes render
+  const schemasAt = useMemo(() => {
+    if (!schema) return undefined;
+    const cache = new Map<string, JSONSchema[]>();
+    return (path: string) => {
+      if (!cache.has(path)) {
+        cache.set(path, schemasAtPath(schema, path, { schemas: schemaRegistry, document: value }));
+      }
+      return cache.get(path)!;
+    };
+  }, [schema, schemaRegistry, value]);
+
+  // Declared properties the root object doesn't have yet
+  const missingProperties = useMemo(() => {
+    if (!schema || !isPlainObject(value)) return [];
+    return schemaProperties(schema, '$', { schemas: schemaRegistry, document: value }).filter(
+      ({ name }) => !hasOwn(value, name),
+    );
+  }, [schema, schemaRegistry, value]);
+  const [isAddMenuOpen, setIsAddMenuOpen] = useState(false);
 
   const tree = useMemo(() => {
-    return buildTree(value, '$', 'root', 0, expandedPaths);
-  }, [value, expandedPaths]);
+    return buildTree(value, '$', 'root', 0, expandedPaths, duplicates, diff);
+  }, [value, expandedPaths, duplicates, diff]);
 
   const handleToggle = useCallback((id: string) => {
     setExpandedPaths((prev) => {
@@ -42,7 +205,11 @@ export const TreeEditor: React.FC<TreeEditorProps> = ({
 
   const handleValueChange = useCallback(
     (path: string, newValue: unknown) => {
-      onChange(setByPath(value, path, newValue));
+      onChange(setByPath(value, path, newValue), {
+        type: 'SET_VALUE',
+        nodeId: path,
+        value: newValue,
+      });
     },
     [value, onChange],
   );
@@ -55,16 +222,26 @@ export const TreeEditor: React.FC<TreeEditorProps> = ({
       let updated = deleteByPath(value, path);
       const newPath = parentPath === '$' ? `$.${newKey}` : `${parentPath}.${newKey}`;
       updated = setByPath(updated, newPath, currentValue);
-      onChange(updated);
+      onChange(updated, { type: 'SET_KEY', nodeId: path, key: newKey });
     },
     [value, onChange],
   );
 
   const handleDelete = useCallback(
-    (path: string) => {
-      onChange(deleteByPath(value, path));
+    (path: string, occurrence?: number) => {
+      const duplicate = duplicates.get(path);
+      if (duplicate && occurrence !== undefined) {
+        const last = duplicate.occurrences.length - 1;
+        // Removing an earlier occurrence leaves the value as is; removing the
+        // last one lets the previous occurrence take effect
+        const updated =
+          occurrence < last ? value : setByPath(value, path, duplicate.occurrences[last - 1].value);
+        onChange(updated, { type: 'DELETE_NODE', nodeId: path, occurrence });
+        return;
+      }
+      onChange(deleteByPath(value, path), { type: 'DELETE_NODE', nodeId: path });
     },
-    [value, onChange],
+    [value, onChange, duplicates],
   );
 
   const handleTypeChange = useCallback(
@@ -77,26 +254,61 @@ export const TreeEditor: React.FC<TreeEditorProps> = ({
         object: {},
         array: [],
       };
-      onChange(setByPath(value, path, defaults[newType]));
+      onChange(setByPath(value, path, defaults[newType]), {
+        type: 'SET_VALUE',
+        nodeId: path,
+        value: defaults[newType],
+      });
     },
     [value, onChange],
   );
 
+  const addRootProperty = useCallback(
+    (key: string, newValue: unknown) => {
+      onChange(
+        { ...(value as Record<string, unknown>), [key]: newValue },
+        { type: 'ADD_CHILD', parentId: '$', key, value: newValue },
+      );
+    },
+    [value, onChange],
+  );
+
+  const addCustomProperty = useCallback(() => {
+    const obj = value as Record<string, unknown>;
+    let newKey = 'newKey';
+    let counter = 1;
+    while (newKey in obj) newKey = `newKey${counter++}`;
+    addRootProperty(newKey, '');
+  }, [value, addRootProperty]);
+
   const handleAddProperty = useCallback(() => {
     if (value === undefined || value === null) {
       onChange({});
       return;
     }
     if (typeof value === 'object' && !Array.isArray(value)) {
-      const obj = value as Record<string, unknown>;
-      let newKey = 'newKey';
-      let counter = 1;
-      while (newKey in obj) newKey = `newKey${counter++}`;
-      onChange({ ...obj, [newKey]: '' });
+      // With a schema, offer what it declares before a made-up key
+      if (missingProperties.length > 0) setIsAddMenuOpen((open) => !open);
+      else addCustomProperty();
     } else if (Array.isArray(value)) {
-      onChange([...value, '']);
+      const item = schemasAt ? initialValue(schemasAt(`$[${value.length}]`)) : '';
+      onChange([...value, item], {
+        type: 'ADD_CHILD',
+        parentId: '$',
+        key: String(value.length),
+        value: item,
+      });
     }
-  }, [value, onChange]);
+  }, [value, onChange, missingProperties, addCustomProperty, schemasAt]);
+
+  const handleSelectProperty = useCallback(
+    (property: SchemaProperty | null) => {
+      setIsAddMenuOpen(false);
+      if (property) addRootProperty(property.name, initialValue(property.schemas));
+      else addCustomProperty();
+    },
+    [addRootProperty, addCustomProperty],
+  );
 
   if (tree === null) {
     return (
@@ -115,10 +327,10 @@ export const TreeEditor: React.FC<TreeEditorProps> = ({
               strokeLinecap="round"
             />
           </svg>
-          <p>No valid JSON to display</p>
+          <p>{t('treeEmpty')}</p>
           {!readOnly && (
             <button className="mjr-tree__add-btn" onClick={() => onChange({})}>
-              {'+'} Create empty object
+              {'+'} {t('createEmptyObject')}
             </button>
           )}
         </div>
@@ -130,9 +342,15 @@ export const TreeEditor: React.FC<TreeEditorProps> = ({
     <div
       className={`mjr-tree-editor ${className}`}
       role="tree"
-      aria-label="JSON tree editor"
+      aria-label={t('treeLabel')}
       data-testid="tree-editor"
     >
+      {isPartial && (
+        <div className="mjr-tree__partial-notice" role="note" data-testid="tree-partial-notice">
+          {t('treePartialNotice', { count: partialErrorCount })}
+        </div>
+      )}
+
       <TreeNodeComponent
         node={tree}
         onToggle={handleToggle}
@@ -143,19 +361,40 @@ export const TreeEditor: React.FC<TreeEditorProps> = ({
         readOnly={readOnly}
         searchQuery={searchQuery}
         searchCaseSensitive={searchCaseSensitive}
+        issues={issues}
+        revealedPath={revealedPath}
+        schemasAt={schemasAt}
+        messages={messages}
       />
 
       {!readOnly && (
-        <button
-          className="mjr-tree__add-btn mjr-tree__add-btn--root"
-          onClick={handleAddProperty}
-          data-testid="add-property"
-        >
-          <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
-            <path d="M6 2v8M2 6h8" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
-          </svg>
-          Add property
-        </button>
+        <div className="mjr-tree__add">
+          <button
+            className="mjr-tree__add-btn mjr-tree__add-btn--root"
+            onClick={handleAddProperty}
+            aria-haspopup={missingProperties.length > 0 ? 'menu' : undefined}
+            aria-expanded={missingProperties.length > 0 ? isAddMenuOpen : undefined}
+            data-testid="add-property"
+          >
+            <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+              <path
+                d="M6 2v8M2 6h8"
+                stroke="currentColor"
+                strokeWidth="1.5"
+                strokeLinecap="round"
+              />
+            </svg>
+            {t('addProperty')}
+          </button>
+          {isAddMenuOpen && missingProperties.length > 0 && (
+            <AddPropertyMenu
+              properties={missingProperties}
+              onSelect={handleSelectProperty}
+              onClose={() => setIsAddMenuOpen(false)}
+              messages={messages}
+            />
+          )}
+        </div>
       )}
     </div>
   );
@@ -163,12 +402,36 @@ export const TreeEditor: React.FC<TreeEditorProps> = ({
 
 // --- Tree building helpers ---
 
+const NO_DUPLICATES: DuplicateKey[] = [];
+const NO_ERRORS: ValidationError[] = [];
+const NO_DUPLICATE_PATHS = new Map<string, DuplicateKey>();
+
+/** The deepest node on an error's path that exists in the value */
+function resolveNodePath(value: unknown, path: string): string {
+  let current = path;
+  while (current !== '$' && getByPath(value, current) === undefined) {
+    current = getParentPath(current) ?? '$';
+  }
+  return current;
+}
+
+/** Add the ancestors of each path to a set of expanded paths */
+function withAncestors(expanded: Set<string>, paths: string[]): Set<string> {
+  const next = new Set(expanded);
+  for (const path of paths) {
+    for (let p = getParentPath(path); p !== null; p = getParentPath(p)) next.add(p);
+  }
+  return next.size === expanded.size ? expanded : next;
+}
+
 function buildTree(
   value: unknown,
   path: string,
   key: string | number,
   depth: number,
   expandedPaths: Set<string>,
+  duplicates: Map<string, DuplicateKey>,
+  diff?: TreeDiff,
 ): TreeNodeData | null {
   if (value === undefined) return null;
 
@@ -186,6 +449,7 @@ function buildTree(
     expanded,
     children: [],
     childCount: 0,
+    diff: diff?.changes.get(path),
   };
 
   if (type === 'object' && value !== null) {
@@ -193,26 +457,74 @@ function buildTree(
     const keys = Object.keys(obj);
     node.childCount = keys.length;
     if (expanded) {
-      node.children = keys
-        .map((k) => buildTree(obj[k], `${path}.${k}`, k, depth + 1, expandedPaths))
-        .filter(Boolean) as TreeNodeData[];
+      node.children = keys.flatMap((k) => {
+        const childPath = `${path}.${k}`;
+        const child = buildTree(obj[k], childPath, k, depth + 1, expandedPaths, duplicates, diff);
+        if (!child) return [];
+        const duplicate = duplicates.get(childPath);
+        if (!duplicate) return [child];
+
+        // Show the overridden occurrences (collapsed) just before the winner
+        const count = duplicate.occurrences.length;
+        child.duplicate = { occurrence: count - 1, count };
+        const shadowed = duplicate.occurrences.slice(0, -1).map(({ value: shadowedValue }, i) => ({
+          ...buildTree(shadowedValue, childPath, k, depth + 1, new Set(), duplicates)!,
+          id: `${childPath}#${i}`,
+          duplicate: { occurrence: i, count },
+        }));
+        return [...shadowed, child];
+      });
     }
   } else if (type === 'array') {
     const arr = value as unknown[];
     node.childCount = arr.length;
     if (expanded) {
       node.children = arr
-        .map((item, i) => buildTree(item, `${path}[${i}]`, i, depth + 1, expandedPaths))
+        .map((item, i) =>
+          buildTree(item, `${path}[${i}]`, i, depth + 1, expandedPaths, duplicates, diff),
+        )
         .filter(Boolean) as TreeNodeData[];
     }
   }
 
+  // Show what the original had here (collapsed) where it used to be
+  const removed = expanded ? diff?.removed.get(path) : undefined;
+  if (removed) {
+    const children = [...node.children];
+    for (const { path: removedPath, key: removedKey, value: removedValue, index } of removed) {
+      const ghost = buildTree(
+        removedValue,
+        removedPath,
+        removedKey,
+        depth + 1,
+        new Set(),
+        NO_DUPLICATE_PATHS,
+      );
+      if (!ghost) continue;
+      children.splice(Math.min(index, children.length), 0, {
+        ...ghost,
+        id: `${removedPath}#removed`,
+        diff: 'remove',
+      });
+    }
+    node.children = children;
+  }
+
   return node;
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
 function getType(value: unknown): JsonNodeType {
   if (value === null) return 'null';
   if (Array.isArray(value)) return 'array';
+  if (isJsonNumber(value)) return 'number';
   const t = typeof value;
   if (t === 'string') return 'string';
   if (t === 'number') return 'number';
@@ -1,5 +1,20 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  JsonNumber,
+  isJsonNumber,
+  isJsonNumberLiteral,
+  isNumberRoundTripSafe,
+  exceedsNumberPrecision,
+} from '../../core/number';
+import { worstSeverity } from '../../core/validator';
+import { stringifyJson } from '../../core/parser';
+import { allowedValues, schemaAnnotations, typeMismatch } from '../../core/schemaInfo';
+import type { DiffKind } from '../../core/diff';
 import type { JsonNodeType } from '../../types/tree';
+import type { JSONSchema, ValidationError, ValidationSeverity } from '../../types/validation';
+import type { UiMessages } from '../../i18n/types';
+import { englishUiMessages } from '../../i18n/en';
+import { createTranslator } from '../../i18n/format';
 
 export interface TreeNodeData {
   id: string;
@@ -11,6 +26,20 @@ export interface TreeNodeData {
   expanded: boolean;
   children: TreeNodeData[];
   childCount: number;
+  /** Set when the key appears more than once in its object */
+  duplicate?: { occurrence: number; count: number };
+  /** Inline diff: how the node differs from the original ("remove" for values only it has) */
+  diff?: DiffKind;
+}
+
+/** Validation problems at a node and below it */
+export interface NodeIssues {
+  /** Errors reported for this node itself */
+  own: ValidationError[];
+  /** Number of errors reported for descendants */
+  inside: number;
+  /** Worst severity among `own` and descendants */
+  severity: ValidationSeverity;
 }
 
 export interface TreeNodeProps {
@@ -18,13 +47,31 @@ export interface TreeNodeProps {
   onToggle: (id: string) => void;
   onValueChange: (path: string, value: unknown) => void;
   onKeyChange: (path: string, oldKey: string, newKey: string) => void;
-  onDelete: (path: string) => void;
+  onDelete: (path: string, occurrence?: number) => void;
   onTypeChange: (path: string, newType: JsonNodeType) => void;
   readOnly: boolean;
   searchQuery?: string;
   searchCaseSensitive?: boolean;
+  /** Validation problems by node path */
+  issues?: Map<string, NodeIssues>;
+  /** Id of the node last navigated to with next/previous error or change */
+  revealedPath?: string | null;
+  /** Subschemas for a node path, when the editor has a schema */
+  schemasAt?: (path: string) => JSONSchema[];
+  /** UI text; English by default */
+  messages?: UiMessages;
 }
 
+const DIFF_LABELS: Record<DiffKind, keyof UiMessages> = {
+  add: 'diffAdded',
+  remove: 'diffRemoved',
+  change: 'diffChanged',
+  move: 'diffMoved',
+};
+
+const NO_ISSUES = new Map<string, NodeIssues>();
+const NO_SCHEMAS: JSONSchema[] = [];
+
 const TYPE_LABELS: Record<JsonNodeType, string> = {
   string: 'str',
   number: 'num',
@@ -54,23 +101,67 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
   readOnly,
   searchQuery = '',
   searchCaseSensitive = false,
+  issues = NO_ISSUES,
+  revealedPath = null,
+  schemasAt,
+  messages = englishUiMessages,
 }) => {
+  const t = createTranslator(messages);
+  const rowRef = useRef<HTMLDivElement>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState('');
   const [isEditingKey, setIsEditingKey] = useState(false);
   const [editKey, setEditKey] = useState('');
 
   const isExpandable = node.type === 'object' || node.type === 'array';
+  // Earlier occurrences of a duplicate key can only be deleted
+  const isShadowed =
+    node.duplicate !== undefined && node.duplicate.occurrence < node.duplicate.count - 1;
+  // A value the inline diff shows from the original is only there to look at
+  const isRemoved = node.diff === 'remove';
+  const isDetached = isShadowed || isRemoved;
+  // Problems belong to the value that is actually used, not overridden duplicates
+  const nodeIssues = isDetached ? undefined : issues.get(node.path);
+  const isRevealed = revealedPath === node.id;
+
+  const schemas = useMemo(
+    () => (isDetached || !schemasAt ? NO_SCHEMAS : schemasAt(node.path)),
+    [isDetached, schemasAt, node.path],
+  );
+  const annotations = useMemo(() => schemaAnnotations(schemas), [schemas]);
+  const expectedType = useMemo(() => typeMismatch(schemas, node.value), [schemas, node.value]);
+  // Required-ness is the parent object's to declare
+  const isRequired = useMemo(() => {
+    if (!schemasAt || isDetached || node.depth === 0 || typeof node.key !== 'string') return false;
+    const parentPath = node.path.slice(0, -(node.key.length + 1));
+    return schemasAt(parentPath).some((s) => s.required?.includes(node.key as string));
+  }, [schemasAt, isDetached, node.depth, node.key, node.path]);
+  // A schema `readOnly` value can't be edited in place, and neither can anything inside it
+  const locked = readOnly || isDetached || annotations.readOnly;
+
+  // An `enum` or `const` field is edited by picking from its list
+  const choices = useMemo(
+    () => (isExpandable || schemas === NO_SCHEMAS ? undefined : allowedValues(schemas)),
+    [isExpandable, schemas],
+  );
+
+  useEffect(() => {
+    if (isRevealed) rowRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [isRevealed]);
 
   const handleToggle = useCallback(() => {
     if (isExpandable) onToggle(node.id);
   }, [isExpandable, node.id, onToggle]);
 
   const handleStartEdit = useCallback(() => {
-    if (readOnly || isExpandable) return;
-    setEditValue(node.type === 'string' ? String(node.value) : JSON.stringify(node.value));
+    if (locked || isExpandable) return;
+    setEditValue(
+      node.type === 'string' || node.type === 'number'
+        ? String(node.value)
+        : JSON.stringify(node.value),
+    );
     setIsEditing(true);
-  }, [readOnly, isExpandable, node.value, node.type]);
+  }, [locked, isExpandable, node.value, node.type]);
 
   const handleFinishEdit = useCallback(() => {
     setIsEditing(false);
@@ -79,8 +170,11 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
     if (node.type === 'string') {
       newValue = editValue;
     } else if (node.type === 'number') {
-      const num = Number(editValue);
-      newValue = isNaN(num) ? node.value : num;
+      const raw = editValue.trim();
+      const num = Number(raw);
+      // Keep literals a plain number would round or respell
+      if (isJsonNumberLiteral(raw) && !isNumberRoundTripSafe(raw)) newValue = new JsonNumber(raw);
+      else newValue = isNaN(num) ? node.value : num;
     } else if (node.type === 'boolean') {
       newValue = editValue === 'true';
     } else if (node.type === 'null') {
@@ -97,10 +191,10 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
   }, [editValue, node.type, node.value, node.path, onValueChange]);
 
   const handleKeyEdit = useCallback(() => {
-    if (readOnly || typeof node.key === 'number') return;
+    if (locked || typeof node.key === 'number') return;
     setEditKey(String(node.key));
     setIsEditingKey(true);
-  }, [readOnly, node.key]);
+  }, [locked, node.key]);
 
   const handleFinishKeyEdit = useCallback(() => {
     setIsEditingKey(false);
@@ -173,9 +267,10 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
 
     return (
       <span
-        className={`mjr-tree__key ${typeof node.key !== 'number' && !readOnly ? 'mjr-tree__key--editable' : ''}`}
+        className={`mjr-tree__key ${typeof node.key !== 'number' && !locked ? 'mjr-tree__key--editable' : ''} ${annotations.deprecated ? 'mjr-tree__key--deprecated' : ''}`}
         onDoubleClick={handleKeyEdit}
-        data-testid={`key-${node.path}`}
+        title={annotations.description}
+        data-testid={`key-${node.id}`}
       >
         {typeof node.key === 'number' ? (
           <span className="mjr-tree__index">{node.key}</span>
@@ -204,7 +299,7 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
           }}
           autoFocus
           aria-label={`Edit value for ${node.key}`}
-          data-testid={`edit-value-${node.path}`}
+          data-testid={`edit-value-${node.id}`}
         />
       );
     }
@@ -227,36 +322,80 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
       );
     }
 
+    if (choices && !locked) return renderChoices(choices);
+
     const display = formatDisplayValue(node.value, node.type);
     const displayContent = searchQuery
       ? highlightText(display, searchQuery, searchCaseSensitive)
       : display;
 
+    if (node.type === 'boolean' && !locked) {
+      return (
+        <label className="mjr-tree__value mjr-tree__value--boolean mjr-tree__toggle">
+          <input
+            type="checkbox"
+            className="mjr-tree__checkbox"
+            checked={node.value === true}
+            onChange={(e) => onValueChange(node.path, e.target.checked)}
+            aria-label={`Value for ${node.key}`}
+            data-testid={`checkbox-${node.id}`}
+          />
+          <span data-testid={`value-${node.id}`}>{displayContent}</span>
+        </label>
+      );
+    }
+
     return (
       <span
-        className={`mjr-tree__value mjr-tree__value--${node.type} ${!readOnly ? 'mjr-tree__value--editable' : ''}`}
+        className={`mjr-tree__value mjr-tree__value--${node.type} ${!locked ? 'mjr-tree__value--editable' : ''}`}
         onDoubleClick={handleStartEdit}
         role="button"
         tabIndex={0}
         aria-label={`Value: ${display}. Double-click to edit.`}
-        data-testid={`value-${node.path}`}
+        data-testid={`value-${node.id}`}
       >
         {displayContent}
       </span>
     );
   };
 
+  const renderChoices = (values: unknown[]) => {
+    const labels = values.map((v) => stringifyJson(v, 0));
+    const current = labels.indexOf(stringifyJson(node.value, 0));
+    return (
+      <select
+        className={`mjr-tree__value mjr-tree__value--${node.type} mjr-tree__choices`}
+        value={current}
+        onChange={(e) => onValueChange(node.path, values[Number(e.target.value)])}
+        aria-label={`Value for ${node.key}`}
+        data-testid={`choices-${node.id}`}
+      >
+        {/* A value outside the list stays selectable until it's changed */}
+        {current === -1 && (
+          <option value={-1} disabled>
+            {formatDisplayValue(node.value, node.type)}
+          </option>
+        )}
+        {labels.map((label, i) => (
+          <option key={label} value={i}>
+            {label}
+          </option>
+        ))}
+      </select>
+    );
+  };
+
   const renderBadge = () => {
     const colorClass = TYPE_COLORS[node.type];
 
-    if (!readOnly) {
+    if (!locked) {
       return (
         <select
           className={`mjr-tree__badge ${colorClass}`}
           value={node.type}
           onChange={handleTypeChange}
           aria-label={`Type for ${node.key}`}
-          data-testid={`type-${node.path}`}
+          data-testid={`type-${node.id}`}
         >
           {Object.entries(TYPE_LABELS).map(([type, label]) => (
             <option key={type} value={type}>
@@ -274,17 +413,138 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
     );
   };
 
+  const renderPrecisionBadge = () => {
+    if (!isJsonNumber(node.value)) return null;
+    const { raw } = node.value;
+    const title = exceedsNumberPrecision(raw)
+      ? `${raw} is beyond JavaScript number precision and is kept exactly`
+      : `Kept as written — a JavaScript number would read ${node.value.valueOf()}`;
+    return (
+      <span
+        className="mjr-tree__badge mjr-tree__badge--ro mjr-badge--precision"
+        title={title}
+        data-testid={`precision-${node.id}`}
+      >
+        precision
+      </span>
+    );
+  };
+
+  const renderDuplicateBadge = () => {
+    if (!node.duplicate) return null;
+    return (
+      <span
+        className="mjr-tree__badge mjr-tree__badge--ro mjr-badge--duplicate"
+        title={
+          isShadowed
+            ? `Duplicate key — overridden by a later "${node.key}"`
+            : `Duplicate key — this value wins over ${node.duplicate.count - 1} earlier ${node.duplicate.count === 2 ? 'entry' : 'entries'}`
+        }
+        data-testid={`duplicate-${node.id}`}
+      >
+        duplicate
+      </span>
+    );
+  };
+
+  const renderDiffBadge = () => {
+    if (!node.diff) return null;
+    return (
+      <span
+        className={`mjr-tree__badge mjr-tree__badge--ro mjr-badge--diff-${node.diff}`}
+        data-testid={`diff-${node.id}`}
+      >
+        {t(DIFF_LABELS[node.diff])}
+      </span>
+    );
+  };
+
+  const renderSchemaHints = () => {
+    const { title, description, deprecated, readOnly: isReadOnly } = annotations;
+    const markers: [kind: string, label: string, tooltip: string][] = [];
+    if (expectedType) {
+      const params = { type: expectedType };
+      markers.push(['expected', t('schemaExpects', params), t('schemaExpectsTitle', params)]);
+    }
+    if (isRequired) {
+      markers.push(['required', t('schemaRequired'), t('schemaRequiredTitle')]);
+    }
+    if (deprecated) {
+      markers.push(['deprecated', t('schemaDeprecated'), t('schemaDeprecatedTitle')]);
+    }
+    if (isReadOnly) {
+      markers.push(['readonly', t('schemaReadOnly'), t('schemaReadOnlyTitle')]);
+    }
+
+    return (
+      <>
+        {markers.map(([kind, label, tooltip]) => (
+          <span
+            key={kind}
+            className={`mjr-tree__badge mjr-tree__badge--ro mjr-badge--${kind}`}
+            title={tooltip}
+            data-testid={`${kind}-${node.id}`}
+          >
+            {label}
+          </span>
+        ))}
+        {title && (
+          <span
+            className="mjr-tree__schema-title"
+            title={description}
+            data-testid={`schema-title-${node.id}`}
+          >
+            {title}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  const renderIssues = () => {
+    if (!nodeIssues) return null;
+    const { own, inside, severity } = nodeIssues;
+
+    if (own.length > 0) {
+      const worst = worstSeverity(own);
+      return (
+        <span
+          className={`mjr-tree__issue mjr-tree__issue--${worst}`}
+          role="img"
+          aria-label={`${own.length} ${own.length === 1 ? 'problem' : 'problems'}: ${own.map((e) => e.message).join('; ')}`}
+          title={own.map((e) => e.message).join('\n')}
+          data-testid={`issue-${node.id}`}
+        />
+      );
+    }
+
+    // A collapsed container summarises what's wrong inside it
+    if (inside > 0 && !node.expanded) {
+      return (
+        <span
+          className={`mjr-tree__issue mjr-tree__issue--inside mjr-tree__issue--${severity}`}
+          title={`${inside} ${inside === 1 ? 'problem' : 'problems'} inside`}
+          data-testid={`issues-inside-${node.id}`}
+        >
+          {inside}
+        </span>
+      );
+    }
+    return null;
+  };
+
   const renderActions = () => {
-    if (readOnly) return null;
+    // Shadowed duplicates stay deletable, so this isn't `locked`
+    if (readOnly || isRemoved || annotations.readOnly) return null;
 
     return (
       <div className="mjr-tree__actions">
         <button
           className="mjr-tree__delete"
-          onClick={() => onDelete(node.path)}
-          aria-label={`Delete ${node.key}`}
-          title="Delete"
-          data-testid={`delete-${node.path}`}
+          onClick={() => onDelete(node.path, node.duplicate?.occurrence)}
+          aria-label={t('deleteNode', { key: node.key })}
+          title={t('deleteNodeTitle')}
+          data-testid={`delete-${node.id}`}
         >
           <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
             <path
@@ -309,17 +569,22 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
     );
   };
 
+  const ownSeverity = nodeIssues?.own.length ? worstSeverity(nodeIssues.own) : null;
+
   return (
     <div
-      className="mjr-tree-node"
+      className={`mjr-tree-node ${isShadowed ? 'mjr-tree-node--shadowed' : ''} ${isRevealed ? 'mjr-tree-node--revealed' : ''} ${node.diff ? `mjr-tree-node--diff-${node.diff}` : ''}`}
       role="treeitem"
       aria-expanded={isExpandable ? node.expanded : undefined}
       aria-level={node.depth + 1}
       aria-label={`${node.key}: ${node.type}`}
-      data-testid={`tree-node-${node.path}`}
+      data-testid={`tree-node-${node.id}`}
     >
       {/* The row: arrow + key + colon + value + badge + actions */}
-      <div className="mjr-tree__row">
+      <div
+        ref={rowRef}
+        className={`mjr-tree__row ${ownSeverity ? `mjr-tree__row--${ownSeverity}` : ''}`}
+      >
         {renderArrow()}
 
         <div className="mjr-tree__content">
@@ -329,6 +594,11 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
           </span>
           {renderValue()}
           {renderBadge()}
+          {renderPrecisionBadge()}
+          {renderDuplicateBadge()}
+          {renderDiffBadge()}
+          {renderSchemaHints()}
+          {renderIssues()}
         </div>
 
         {renderActions()}
@@ -346,9 +616,13 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
               onKeyChange={onKeyChange}
               onDelete={onDelete}
               onTypeChange={onTypeChange}
-              readOnly={readOnly}
+              readOnly={readOnly || annotations.readOnly}
               searchQuery={searchQuery}
               searchCaseSensitive={searchCaseSensitive}
+              issues={issues}
+              revealedPath={revealedPath}
+              schemasAt={schemasAt}
+              messages={messages}
             />
           ))}
           {renderClosingBracket()}
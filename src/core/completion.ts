@@ -0,0 +1,264 @@
+import type { JsonFormat } from '../types/editor';
+import type { JSONSchema } from '../types/validation';
+import { stringifyJson } from './parser';
+import { schemaProperties } from './schemaInfo';
+import { tokenize, type JsonToken } from './tokenizer';
+import { schemasAtPath, type SchemaLookupOptions } from './validator';
+
+/**
+ * Schema-driven completion.
+ *
+ * The cursor's place in the document is worked out from the token stream
+ * rather than a parse, so suggestions keep coming while the text around the
+ * cursor is still half-typed.
+ */
+
+/** Whether a suggestion names a property or supplies a value */
+export type CompletionKind = 'property' | 'value';
+
+/** Where a value suggestion comes from in the schema */
+export type CompletionSource = 'default' | 'const' | 'enum' | 'boolean';
+
+export interface CompletionItem {
+  kind: CompletionKind;
+  /** Text shown in the list */
+  label: string;
+  /** Text that replaces the completed range */
+  insertText: string;
+  /** Declared `type` of a property */
+  type?: string;
+  /** The property is listed in `required` */
+  required?: boolean;
+  source?: CompletionSource;
+  /** Schema `description` */
+  description?: string;
+}
+
+export interface CompletionResult {
+  /** Source range [from, to) replaced by the chosen item */
+  from: number;
+  to: number;
+  /** Path of the object whose properties, or of the value, being completed */
+  path: string;
+  items: CompletionItem[];
+}
+
+/** Produces suggestions for a cursor offset in the text */
+export type CompletionProvider = (text: string, offset: number) => CompletionResult | null;
+
+export interface CompletionOptions extends SchemaLookupOptions {
+  /** Dialect of the text (default "json") */
+  format?: JsonFormat;
+}
+
+/**
+ * Suggest property names (from `properties`) or values (`default`, `const`,
+ * `enum`, booleans) for the cursor position, filtered by what has been typed
+ * so far. Returns `null` where nothing can be completed, such as inside a
+ * comment or right after a finished value.
+ */
+export function getCompletions(
+  text: string,
+  offset: number,
+  schema: JSONSchema,
+  options: CompletionOptions = {},
+): CompletionResult | null {
+  const context = cursorContext(text, offset, options.format ?? 'json');
+  if (!context) return null;
+
+  const items =
+    context.kind === 'property'
+      ? propertyItems(schema, context, options)
+      : valueItems(schemasAtPath(schema, context.path, options));
+  const prefix = context.prefix.toLowerCase();
+
+  return {
+    from: context.from,
+    to: context.to,
+    path: context.path,
+    items: items.filter((item) => unquote(item.label).toLowerCase().startsWith(prefix)),
+  };
+}
+
+/** What the cursor is completing */
+interface CursorContext {
+  kind: CompletionKind;
+  path: string;
+  from: number;
+  to: number;
+  /** Text typed so far, without an opening quote */
+  prefix: string;
+  /** Keys already present in the object (property completion) */
+  existingKeys: Set<string>;
+  /** A colon already follows, so a property suggestion inserts only the key */
+  keyOnly: boolean;
+}
+
+/** An open container and what it expects next */
+interface Frame {
+  kind: 'object' | 'array';
+  path: string;
+  /** Index of the opening bracket in the token list */
+  open: number;
+  key?: string;
+  index: number;
+  expects: 'key' | 'colon' | 'value' | 'separator';
+}
+
+const WORD_TOKENS = new Set(['string', 'identifier', 'number', 'true', 'false', 'null', 'invalid']);
+
+function cursorContext(text: string, offset: number, format: JsonFormat): CursorContext | null {
+  const all = tokenize(text, format);
+  if (all.some((t) => t.type === 'comment' && t.start < offset && offset <= t.end)) return null;
+  const tokens = all.filter((t) => t.type !== 'comment' && t.type !== 'eof');
+
+  // The word under the cursor is replaced; a closed string ends before its quote
+  const target = tokens.find(
+    (t) =>
+      WORD_TOKENS.has(t.type) &&
+      t.start < offset &&
+      (offset < t.end || (offset === t.end && !(t.type === 'string' && !t.error))),
+  );
+
+  const stack: Frame[] = [];
+  let rootDone = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === target || token.start >= offset) break;
+    const frame = stack[stack.length - 1];
+
+    switch (token.type) {
+      case '{':
+      case '[':
+        stack.push({
+          kind: token.type === '{' ? 'object' : 'array',
+          path: frame ? memberPath(frame) : '$',
+          open: i,
+          index: 0,
+          expects: token.type === '{' ? 'key' : 'value',
+        });
+        if (frame) frame.expects = 'separator';
+        else rootDone = true;
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        break;
+      case ':':
+        if (frame?.kind === 'object') frame.expects = 'value';
+        break;
+      case ',':
+        if (frame?.kind === 'object') {
+          frame.expects = 'key';
+          frame.key = undefined;
+        } else if (frame) {
+          frame.index++;
+          frame.expects = 'value';
+        }
+        break;
+      default:
+        if (!frame) rootDone = true;
+        else if (frame.kind === 'object' && frame.expects === 'key') {
+          frame.key = tokenText(text, token);
+          frame.expects = 'colon';
+        } else frame.expects = 'separator';
+    }
+  }
+
+  const frame = stack[stack.length - 1];
+  let kind: CompletionKind = 'value';
+  let path = '$';
+  if (!frame) {
+    if (rootDone) return null;
+  } else if (frame.kind === 'object' && frame.expects === 'key') {
+    kind = 'property';
+    path = frame.path;
+  } else if (frame.expects === 'value') {
+    path = memberPath(frame);
+  } else {
+    return null;
+  }
+
+  const after = tokens.find((t) => t.start >= (target ? target.end : offset));
+  return {
+    kind,
+    path,
+    from: target ? target.start : offset,
+    to: target ? target.end : offset,
+    prefix: target ? text.slice(target.start, offset).replace(/^["']/, '') : '',
+    existingKeys: kind === 'property' ? objectKeys(text, tokens, frame.open, target) : new Set(),
+    keyOnly: after?.type === ':',
+  };
+}
+
+function memberPath(frame: Frame): string {
+  return frame.kind === 'object' ? `${frame.path}.${frame.key}` : `${frame.path}[${frame.index}]`;
+}
+
+function tokenText(text: string, token: JsonToken): string {
+  return token.value !== undefined ? String(token.value) : text.slice(token.start, token.end);
+}
+
+/** Keys of the object opened at `open`, other than the one being typed */
+function objectKeys(
+  text: string,
+  tokens: JsonToken[],
+  open: number,
+  target: JsonToken | undefined,
+): Set<string> {
+  const keys = new Set<string>();
+  let depth = 0;
+  for (let i = open + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === '{' || token.type === '[') depth++;
+    else if (token.type === '}' || token.type === ']') {
+      if (depth-- === 0) break;
+    } else if (depth === 0 && token !== target && tokens[i + 1]?.type === ':') {
+      keys.add(tokenText(text, token));
+    }
+  }
+  return keys;
+}
+
+function propertyItems(
+  schema: JSONSchema,
+  context: CursorContext,
+  options: SchemaLookupOptions,
+): CompletionItem[] {
+  return schemaProperties(schema, context.path, options)
+    .filter(({ name }) => !context.existingKeys.has(name))
+    .map(({ name, required, type, description }) => {
+      const key = JSON.stringify(name);
+      return {
+        kind: 'property',
+        label: name,
+        insertText: context.keyOnly ? key : `${key}: `,
+        type,
+        required,
+        description,
+      };
+    });
+}
+
+function valueItems(schemas: JSONSchema[]): CompletionItem[] {
+  const items: CompletionItem[] = [];
+  const description = schemas.find((s) => s.description !== undefined)?.description;
+  const add = (value: unknown, source: CompletionSource) => {
+    const text = stringifyJson(value, 0);
+    if (text === '' || items.some((item) => item.insertText === text)) return;
+    items.push({ kind: 'value', label: text, insertText: text, source, description });
+  };
+
+  for (const s of schemas) if (s.default !== undefined) add(s.default, 'default');
+  for (const s of schemas) if (s.const !== undefined) add(s.const, 'const');
+  for (const s of schemas) s.enum?.forEach((value) => add(value, 'enum'));
+  if (schemas.some((s) => [s.type].flat().includes('boolean'))) {
+    add(true, 'boolean');
+    add(false, 'boolean');
+  }
+  return items;
+}
+
+function unquote(label: string): string {
+  return label.replace(/^"/, '');
+}
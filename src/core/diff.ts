@@ -0,0 +1,317 @@
+import { exceedsNumberPrecision, isJsonNumber } from './number';
+import { stringifyJson } from './parser';
+import { deleteByPath, getByPath, getParentPath, parsePath, queryPath, setByPath } from './path';
+
+/**
+ * Structural diff.
+ *
+ * Both documents are walked once, side by side. Arrays are paired by index,
+ * or by an identity property when `arrayKey` is set; reordering is reported
+ * only for the items outside the longest run that kept its relative order, so
+ * one item moving doesn't make every item after it a move too.
+ */
+
+export type DiffKind = 'add' | 'remove' | 'change' | 'move';
+
+export interface DiffOperation {
+  kind: DiffKind;
+  /** Where the change is: in `b` for add, change and move, in `a` for remove */
+  path: string;
+  /**
+   * Where a moved value was in `a`. Object keys only change position within
+   * their object, so for them `from` equals `path`.
+   */
+  from?: string;
+  /** Value in `a` (remove and change) */
+  oldValue?: unknown;
+  /** Value in `b` (add and change) */
+  newValue?: unknown;
+}
+
+export interface DiffOptions {
+  /**
+   * Pair array items by this property (e.g. "id") instead of by position.
+   * An array where an item lacks it, or two items share a value, is paired
+   * by position.
+   */
+  arrayKey?: string;
+  /** Don't report object keys that only changed position (default false) */
+  ignoreKeyOrder?: boolean;
+  /** JSONPath patterns (`queryPath` syntax) whose nodes, and everything below them, are left out */
+  ignorePaths?: string[];
+}
+
+/**
+ * List what changed from `a` to `b` as add, remove, change and move
+ * operations keyed by JSONPath, in document order. Values that differ in type
+ * (or scalars that differ) are one "change"; objects and arrays are compared
+ * member by member.
+ */
+export function diffJson(a: unknown, b: unknown, options: DiffOptions = {}): DiffOperation[] {
+  const { arrayKey, ignoreKeyOrder = false, ignorePaths = [] } = options;
+  const ignoredBefore = new Set(ignorePaths.flatMap((p) => queryPath(a, p).map((m) => m.path)));
+  const ignoredAfter = new Set(ignorePaths.flatMap((p) => queryPath(b, p).map((m) => m.path)));
+  const ops: DiffOperation[] = [];
+
+  /** Compare the values at `before` in `a` and `after` in `b` */
+  function compare(x: unknown, y: unknown, before: string, after: string) {
+    if (x === y || ignoredBefore.has(before) || ignoredAfter.has(after)) return;
+    if (Array.isArray(x) && Array.isArray(y)) {
+      const keys = arrayKey === undefined ? null : identities(x, y, arrayKey);
+      if (keys) compareByKey(x, y, keys, before, after);
+      else compareByIndex(x, y, before, after);
+    } else if (isObject(x) && isObject(y)) {
+      compareObjects(x, y, before, after);
+    } else if (!scalarsEqual(x, y)) {
+      ops.push({ kind: 'change', path: after, oldValue: x, newValue: y });
+    }
+  }
+
+  function compareObjects(
+    x: Record<string, unknown>,
+    y: Record<string, unknown>,
+    before: string,
+    after: string,
+  ) {
+    for (const key of Object.keys(x)) {
+      if (!hasOwn(y, key)) remove(`${before}.${key}`, x[key]);
+    }
+    const common = Object.keys(y).filter((key) => hasOwn(x, key));
+    const moved = ignoreKeyOrder ? NOTHING_MOVED : movedItems(common, Object.keys(x));
+    for (const key of Object.keys(y)) {
+      const path = `${after}.${key}`;
+      if (!hasOwn(x, key)) {
+        add(path, y[key]);
+        continue;
+      }
+      if (moved.has(key) && !ignoredAfter.has(path)) ops.push({ kind: 'move', path, from: path });
+      compare(x[key], y[key], `${before}.${key}`, path);
+    }
+  }
+
+  function compareByIndex(x: unknown[], y: unknown[], before: string, after: string) {
+    const shared = Math.min(x.length, y.length);
+    for (let i = 0; i < shared; i++) compare(x[i], y[i], `${before}[${i}]`, `${after}[${i}]`);
+    for (let i = shared; i < x.length; i++) remove(`${before}[${i}]`, x[i]);
+    for (let i = shared; i < y.length; i++) add(`${after}[${i}]`, y[i]);
+  }
+
+  function compareByKey(
+    x: unknown[],
+    y: unknown[],
+    [keysBefore, keysAfter]: [string[], string[]],
+    before: string,
+    after: string,
+  ) {
+    const indexBefore = new Map(keysBefore.map((key, i) => [key, i]));
+    const indexAfter = new Map(keysAfter.map((key, j) => [key, j]));
+    keysBefore.forEach((key, i) => {
+      if (!indexAfter.has(key)) remove(`${before}[${i}]`, x[i]);
+    });
+    const moved = movedItems(
+      keysAfter.filter((key) => indexBefore.has(key)),
+      keysBefore,
+    );
+    keysAfter.forEach((key, j) => {
+      const i = indexBefore.get(key);
+      const path = `${after}[${j}]`;
+      if (i === undefined) {
+        add(path, y[j]);
+        return;
+      }
+      const from = `${before}[${i}]`;
+      if (moved.has(key) && !ignoredBefore.has(from) && !ignoredAfter.has(path)) {
+        ops.push({ kind: 'move', path, from });
+      }
+      compare(x[i], y[j], from, path);
+    });
+  }
+
+  function add(path: string, value: unknown) {
+    if (!ignoredAfter.has(path)) ops.push({ kind: 'add', path, newValue: value });
+  }
+
+  function remove(path: string, value: unknown) {
+    if (!ignoredBefore.has(path)) ops.push({ kind: 'remove', path, oldValue: value });
+  }
+
+  compare(a, b, '$', '$');
+  return ops;
+}
+
+/**
+ * Take one side of an operation from `diffJson(a, b, options)`. With `'a'`,
+ * returns `b` with that difference put back the way `a` has it; with `'b'`,
+ * returns `a` with the difference made. Removed and added members go back in
+ * at the position they hold on the side taken. Neither document is modified.
+ */
+export function acceptChange(
+  a: unknown,
+  b: unknown,
+  operation: DiffOperation,
+  side: 'a' | 'b',
+  options: DiffOptions = {},
+): unknown {
+  const { kind, path } = operation;
+  const [source, target] = side === 'a' ? [a, b] : [b, a];
+  // `path` is in `a` for removals and in `b` otherwise
+  const inSource = (kind === 'remove') === (side === 'a');
+  const counterpart = (p: string) => counterpartPath(p, source, target, options.arrayKey);
+
+  switch (kind) {
+    case 'change':
+      return side === 'a'
+        ? setByPath(b, path, operation.oldValue)
+        : setByPath(a, counterpart(path), operation.newValue);
+    case 'add':
+    case 'remove': {
+      if (!inSource) return deleteByPath(target, path);
+      const parent = counterpart(getParentPath(path) ?? '$');
+      const value = kind === 'add' ? operation.newValue : operation.oldValue;
+      return insertMember(target, parent, value, source, path);
+    }
+    case 'move': {
+      const [sourcePath, targetPath] =
+        side === 'a' ? [operation.from ?? path, path] : [path, operation.from ?? path];
+      const value = getByPath(target, targetPath);
+      const rest = deleteByPath(target, targetPath);
+      return insertMember(rest, getParentPath(targetPath) ?? '$', value, source, sourcePath);
+    }
+  }
+}
+
+/**
+ * The path in `to` of the node at `path` in `from`: array items paired by
+ * `arrayKey` are followed to their index in `to`, everything else keeps its
+ * place. Useful for finding both sides of an operation from `diffJson`.
+ */
+export function counterpartPath(
+  path: string,
+  from: unknown,
+  to: unknown,
+  arrayKey?: string,
+): string {
+  let result = '$';
+  let [x, y] = [from, to];
+  for (const segment of parsePath(path)) {
+    if (Array.isArray(x)) {
+      const i = Number(segment);
+      const keys = arrayKey !== undefined && Array.isArray(y) ? identities(x, y, arrayKey) : null;
+      const paired = keys ? keys[1].indexOf(keys[0][i]) : -1;
+      const j = paired === -1 ? i : paired;
+      result += `[${j}]`;
+      [x, y] = [x[i], Array.isArray(y) ? y[j] : undefined];
+    } else {
+      result += `.${segment}`;
+      [x, y] = [isObject(x) ? x[segment] : undefined, isObject(y) ? y[segment] : undefined];
+    }
+  }
+  return result;
+}
+
+const NOTHING_MOVED = new Set<string>();
+
+/**
+ * Put `value` into the container at `parent` where the node at `sourcePath`
+ * sits in `source`: at its index in an array, or after the nearest member
+ * before it that both objects have.
+ */
+function insertMember(
+  doc: unknown,
+  parent: string,
+  value: unknown,
+  source: unknown,
+  sourcePath: string,
+): unknown {
+  const container = getByPath(doc, parent);
+  const key = parsePath(sourcePath).pop() as string;
+  if (Array.isArray(container)) {
+    const items = [...container];
+    items.splice(Math.min(Number(key), items.length), 0, value);
+    return setByPath(doc, parent, items);
+  }
+  if (!isObject(container)) return doc;
+
+  const entries = Object.entries(container).filter(([name]) => name !== key);
+  const siblings = Object.keys(getByPath(source, getParentPath(sourcePath) ?? '$') as object);
+  const previous = siblings
+    .slice(0, siblings.indexOf(key))
+    .reverse()
+    .find((name) => name !== key && hasOwn(container, name));
+  const index = previous === undefined ? 0 : entries.findIndex(([name]) => name === previous) + 1;
+  entries.splice(index, 0, [key, value]);
+  return setByPath(doc, parent, Object.fromEntries(entries));
+}
+
+/**
+ * Identity of every item of both arrays under `key`, or `null` when an item
+ * lacks one or an identity repeats within an array
+ */
+function identities(x: unknown[], y: unknown[], key: string): [string[], string[]] | null {
+  const of = (items: unknown[]) => {
+    const ids: string[] = [];
+    for (const item of items) {
+      if (!isObject(item) || !hasOwn(item, key)) return null;
+      ids.push(stringifyJson(item[key], 0));
+    }
+    return new Set(ids).size === ids.length ? ids : null;
+  };
+  const before = of(x);
+  const after = before && of(y);
+  return before && after ? [before, after] : null;
+}
+
+/**
+ * Entries of `order` (the shared entries in their new order) that are not in
+ * the longest subsequence keeping their order in `original`
+ */
+function movedItems(order: string[], original: string[]): Set<string> {
+  const position = new Map(original.map((entry, i) => [entry, i]));
+  const positions = order.map((entry) => position.get(entry) as number);
+  const kept = longestIncreasing(positions);
+  return new Set(order.filter((_, i) => !kept.has(i)));
+}
+
+/** Indexes of a longest strictly increasing subsequence, in O(n log n) */
+function longestIncreasing(values: number[]): Set<number> {
+  // tails[k]: index of the smallest value ending an increasing run of length k + 1
+  const tails: number[] = [];
+  const previous = new Array<number>(values.length);
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+
+  const kept = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    kept.add(i);
+  }
+  return kept;
+}
+
+/** Numbers compare by value, except literals a JavaScript number can't hold exactly */
+function scalarsEqual(x: unknown, y: unknown): boolean {
+  const isNumber = (v: unknown) => typeof v === 'number' || isJsonNumber(v);
+  if (!isNumber(x) || !isNumber(y)) return x === y;
+  const [rawX, rawY] = [String(x), String(y)];
+  if (rawX === rawY) return true;
+  if (exceedsNumberPrecision(rawX) || exceedsNumberPrecision(rawY)) return false;
+  return Number(x) === Number(y);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !isJsonNumber(value)
+  );
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
@@ -0,0 +1,249 @@
+import { parseJson, stringifyJson } from './parser';
+import { tokenize, type JsonToken } from './tokenizer';
+import type { DuplicateKey, IndentationType, JsonFormat, NodeLocation } from '../types/editor';
+import type { TreeAction } from '../types/tree';
+
+/**
+ * Source-preserving edits.
+ *
+ * Tree actions are applied as minimal patches against the original text, so
+ * only the touched value changes — comments, blank lines, key order, and
+ * number spellings elsewhere in the document are left exactly as written.
+ */
+
+export interface TextEditOptions {
+  /** Dialect of the source text (default "json") */
+  format?: JsonFormat;
+  /** Indentation used for newly inserted multi-line values (default 2) */
+  indentation?: IndentationType;
+}
+
+/** Replacement of the source range [start, end) */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface EditContext {
+  text: string;
+  tokens: JsonToken[];
+  locations: Map<string, NodeLocation>;
+  duplicateKeys: DuplicateKey[];
+  unit: string;
+}
+
+/**
+ * Apply a tree action to JSON text as a minimal patch.
+ *
+ * Returns `null` when the action can't be expressed as a patch — the text
+ * doesn't parse, the target node is missing, or the edit would create a
+ * duplicate key. Callers should then fall back to re-serializing the value.
+ */
+export function applyTreeAction(
+  text: string,
+  action: TreeAction,
+  options: TextEditOptions = {},
+): string | null {
+  const { format = 'json', indentation = 2 } = options;
+  const { error, locations, duplicateKeys } = parseJson(text, { format });
+  if (error) return null;
+
+  const ctx: EditContext = {
+    text,
+    tokens: tokenize(text, format).filter((t) => t.type !== 'comment'),
+    locations,
+    duplicateKeys,
+    unit: indentation === 'tab' ? '\t' : ' '.repeat(indentation),
+  };
+
+  let edits: TextEdit[] | null;
+  switch (action.type) {
+    case 'SET_VALUE':
+      edits = replaceValue(ctx, action.nodeId, action.value);
+      break;
+    case 'SET_KEY':
+      edits = renameKey(ctx, action.nodeId, action.key, format);
+      break;
+    case 'DELETE_NODE':
+      edits = deleteNode(ctx, action.nodeId, action.occurrence);
+      break;
+    case 'ADD_CHILD':
+      edits = addChild(ctx, action.parentId, action.key, action.value);
+      break;
+    default:
+      edits = null;
+  }
+  if (edits === null) return null;
+
+  const patched = applyEdits(text, edits);
+  // Never hand back text that no longer parses
+  return parseJson(patched, { format }).error ? null : patched;
+}
+
+function replaceValue(ctx: EditContext, path: string, value: unknown): TextEdit[] | null {
+  const loc = ctx.locations.get(path);
+  if (!loc) return null;
+  const indent = lineIndent(ctx.text, loc.keyStart ?? loc.start);
+  const serialized = serialize(value, indent, ctx.unit);
+  if (serialized === null) return null;
+  return [{ start: loc.start, end: loc.end, text: serialized }];
+}
+
+function renameKey(
+  ctx: EditContext,
+  path: string,
+  newKey: string,
+  format: JsonFormat,
+): TextEdit[] | null {
+  const loc = ctx.locations.get(path);
+  if (!loc || loc.keyStart === undefined || loc.keyEnd === undefined) return null;
+
+  const oldKey = String(tokenize(ctx.text.slice(loc.keyStart, loc.keyEnd), format)[0].value);
+  if (oldKey === newKey) return [];
+  const parentPath = path.slice(0, path.length - oldKey.length - 1);
+  if (ctx.locations.has(`${parentPath}.${newKey}`)) return null;
+
+  return [{ start: loc.keyStart, end: loc.keyEnd, text: JSON.stringify(newKey) }];
+}
+
+function deleteNode(ctx: EditContext, path: string, occurrence?: number): TextEdit[] | null {
+  const duplicate = ctx.duplicateKeys.find((d) => d.path === path);
+  const loc =
+    duplicate && occurrence !== undefined
+      ? duplicate.occurrences[occurrence]?.location
+      : ctx.locations.get(path);
+  if (!loc || path === '$') return null;
+
+  const { text, tokens } = ctx;
+  const start = loc.keyStart ?? loc.start;
+  const end = loc.end;
+  const nextIndex = tokens.findIndex((t) => t.start >= end);
+  const next = tokens[nextIndex];
+  const prev = tokens[tokens.findIndex((t) => t.start >= start) - 1];
+
+  // Member followed by a comma: remove both, plus the line if nothing else is on it
+  if (next.type === ',') {
+    const ownLine = ownLineRange(text, start, next.end);
+    if (ownLine) return [{ ...ownLine, text: '' }];
+    return [{ start, end: next.end + leadingBlanks(text, next.end), text: '' }];
+  }
+
+  // Last member: remove the comma before it instead
+  if (prev.type === ',') {
+    return [
+      { start: prev.start, end: prev.end, text: '' },
+      { ...removalRange(text, start, end), text: '' },
+    ];
+  }
+
+  // Only member: collapse the container when nothing else is inside it
+  const container = tokens[nextIndex];
+  const open = prev;
+  if (text.slice(open.end, start).trim() === '' && text.slice(end, container.start).trim() === '') {
+    return [{ start: open.end, end: container.start, text: '' }];
+  }
+  return [{ ...removalRange(text, start, end), text: '' }];
+}
+
+function addChild(
+  ctx: EditContext,
+  parentPath: string,
+  key: string,
+  value: unknown,
+): TextEdit[] | null {
+  const loc = ctx.locations.get(parentPath);
+  if (!loc) return null;
+
+  const { text, tokens, unit } = ctx;
+  const isArray = text[loc.start] === '[';
+  if (!isArray && ctx.locations.has(`${parentPath}.${key}`)) return null;
+  if (!isArray && text[loc.start] !== '{') return null;
+
+  const closeIndex = tokens.findIndex((t) => t.start === loc.end - 1);
+  const last = tokens[closeIndex - 1];
+  const multiline = text.slice(loc.start, loc.end).includes('\n');
+
+  const member = (indent: string, inline: boolean) => {
+    const serialized = inline ? stringifyJson(value, 0) : serialize(value, indent, unit);
+    if (serialized === '' || serialized === null) return null;
+    return isArray ? serialized : `${JSON.stringify(key)}: ${serialized}`;
+  };
+
+  // Empty container: expand it onto its own lines
+  if (last.start === loc.start) {
+    if (text.slice(loc.start + 1, loc.end - 1).trim() !== '') return null;
+    const indent = lineIndent(text, loc.start);
+    const inserted = member(indent + unit, false);
+    if (inserted === null) return null;
+    return [
+      { start: loc.start + 1, end: loc.end - 1, text: `\n${indent}${unit}${inserted}\n${indent}` },
+    ];
+  }
+
+  const trailingComma = last.type === ',';
+  const lastValue = trailingComma ? tokens[closeIndex - 2] : last;
+  const indent = multiline ? lineIndent(text, lastValue.start) : '';
+  const inserted = member(indent, !multiline);
+  if (inserted === null) return null;
+  const separator = multiline ? `\n${indent}` : ' ';
+
+  if (trailingComma) {
+    return [{ start: last.end, end: last.end, text: `${separator}${inserted},` }];
+  }
+  return [{ start: last.end, end: last.end, text: `,${separator}${inserted}` }];
+}
+
+// --- Text helpers ---
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  let result = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Serialize a value for insertion, indenting continuation lines to sit
+ * under the line the value starts on.
+ */
+function serialize(value: unknown, indent: string, unit: string): string | null {
+  const json = stringifyJson(value, unit);
+  if (json === '') return null;
+  return json.replace(/\n/g, `\n${indent}`);
+}
+
+function lineStart(text: string, offset: number): number {
+  return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function lineIndent(text: string, offset: number): string {
+  return /^[ \t]*/.exec(text.slice(lineStart(text, offset), offset))![0];
+}
+
+function leadingBlanks(text: string, offset: number): number {
+  return /^[ \t]*/.exec(text.slice(offset))![0].length;
+}
+
+/** Range covering whole lines when [start, end) is the only thing on them */
+function ownLineRange(
+  text: string,
+  start: number,
+  end: number,
+): { start: number; end: number } | null {
+  const from = lineStart(text, start);
+  if (text.slice(from, start).trim() !== '') return null;
+  const rest = /^[ \t]*(\r?\n|$)/.exec(text.slice(end));
+  if (!rest) return null;
+  return { start: from, end: end + rest[0].length };
+}
+
+/** Range to remove for a member: its whole line, or the member and the blanks before it */
+function removalRange(text: string, start: number, end: number): { start: number; end: number } {
+  const ownLine = ownLineRange(text, start, end);
+  if (ownLine) return ownLine;
+  let from = start;
+  while (from > 0 && (text[from - 1] === ' ' || text[from - 1] === '\t')) from--;
+  return { start: from, end };
+}
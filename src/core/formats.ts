@@ -0,0 +1,129 @@
+import type { FormatChecker } from '../types/validation';
+
+/**
+ * Checkers for the JSON Schema `format` keyword.
+ *
+ * Each checker only sees strings; per the spec, `format` never rejects other
+ * types. The checks follow the referenced RFCs closely enough for editing —
+ * they are syntactic only (no DNS lookups, no scheme-specific URI rules).
+ */
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME = /^(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|([+-])(\d{2}):(\d{2}))$/;
+const DURATION =
+  /^P(?!$)(?:\d+W|(?:\d+Y)?(?:\d+M)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+S)?)?)$/;
+const EMAIL_LOCAL = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const HOSTNAME_LABEL = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/;
+const IPV4 = /^(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?:\.(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const URI_SCHEME = /^[A-Za-z][A-Za-z0-9+.-]*:/;
+const URI_CHARS = /^(?:[A-Za-z0-9\-._~:/?#[\]@!$&'()*+,;=]|%[0-9A-Fa-f]{2})*$/;
+const IRI_CHARS =
+  /^(?:[A-Za-z0-9\-._~:/?#[\]@!$&'()*+,;=\u00A0-\uD7FF\uE000-\uFFFD]|[\uD800-\uDBFF][\uDC00-\uDFFF]|%[0-9A-Fa-f]{2})*$/;
+const URI_TEMPLATE =
+  /^(?:[^\s{}"<>\\^`|]|\{[+#./;?&=,!@|]?[A-Za-z0-9_%.]+(?::\d+|\*)?(?:,[A-Za-z0-9_%.]+(?::\d+|\*)?)*\})*$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const JSON_POINTER = /^(?:\/(?:[^~/]|~[01])*)*$/;
+const RELATIVE_JSON_POINTER = /^(?:0|[1-9]\d*)(?:#|(?:\/(?:[^~/]|~[01])*)*)$/;
+
+/** Formats every validateSchema call understands; `formats` options add to these */
+export const builtinFormats: Record<string, FormatChecker> = {
+  'date-time': isDateTime,
+  date: isDate,
+  time: isTime,
+  duration: (value) => DURATION.test(value),
+  email: isEmail,
+  'idn-email': (value) => /^[^\s@]+@[^\s@]+$/.test(value),
+  hostname: isHostname,
+  'idn-hostname': isIdnHostname,
+  ipv4: (value) => IPV4.test(value),
+  ipv6: isIpv6,
+  uri: (value) => URI_SCHEME.test(value) && URI_CHARS.test(value),
+  'uri-reference': (value) => URI_CHARS.test(value),
+  iri: (value) => URI_SCHEME.test(value) && IRI_CHARS.test(value),
+  'iri-reference': (value) => IRI_CHARS.test(value),
+  'uri-template': (value) => URI_TEMPLATE.test(value),
+  uuid: (value) => UUID.test(value),
+  'json-pointer': (value) => JSON_POINTER.test(value),
+  'relative-json-pointer': (value) => RELATIVE_JSON_POINTER.test(value),
+  regex: isRegex,
+};
+
+function isDate(value: string): boolean {
+  const match = DATE.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+}
+
+function isTime(value: string): boolean {
+  const match = TIME.exec(value);
+  if (!match) return false;
+  const [hour, minute, second] = match.slice(1, 4).map(Number);
+  const offsetHour = match[5] === undefined ? 0 : Number(match[5]);
+  const offsetMinute = match[6] === undefined ? 0 : Number(match[6]);
+  // Second 60 is a leap second, accepted anywhere rather than only at 23:59:60Z
+  return hour <= 23 && minute <= 59 && second <= 60 && offsetHour <= 23 && offsetMinute <= 59;
+}
+
+function isDateTime(value: string): boolean {
+  const [date, time, ...rest] = value.split(/[Tt]/);
+  return rest.length === 0 && time !== undefined && isDate(date) && isTime(time);
+}
+
+function daysInMonth(year: number, month: number): number {
+  if (month === 2) return year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0) ? 29 : 28;
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+function isEmail(value: string): boolean {
+  const at = value.lastIndexOf('@');
+  if (at <= 0) return false;
+  const domain = value.slice(at + 1);
+  if (!EMAIL_LOCAL.test(value.slice(0, at))) return false;
+  // Address literals: user@[192.168.0.1] or user@[IPv6:::1]
+  if (domain.startsWith('[') && domain.endsWith(']')) {
+    const literal = domain.slice(1, -1);
+    return literal.startsWith('IPv6:') ? isIpv6(literal.slice(5)) : IPV4.test(literal);
+  }
+  return isHostname(domain);
+}
+
+function isHostname(value: string): boolean {
+  const name = value.endsWith('.') ? value.slice(0, -1) : value;
+  if (name.length === 0 || name.length > 253) return false;
+  return name.split('.').every((label) => HOSTNAME_LABEL.test(label));
+}
+
+function isIdnHostname(value: string): boolean {
+  const name = value.endsWith('.') ? value.slice(0, -1) : value;
+  if (name.length === 0 || name.length > 253) return false;
+  return name
+    .split(/[.\u3002\uFF0E\uFF61]/)
+    .every((label) => /^[^\s\-.](?:[^\s.]{0,61}[^\s\-.])?$/u.test(label));
+}
+
+function isIpv6(value: string): boolean {
+  if (!/^[0-9A-Fa-f:.]+$/.test(value)) return false;
+  const halves = value.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.map((half) => (half === '' ? [] : half.split(':')));
+  // An embedded IPv4 address may only appear at the very end
+  const tail = groups[groups.length - 1];
+  let count = groups.flat().length;
+  if (tail.length > 0 && tail[tail.length - 1].includes('.')) {
+    if (!IPV4.test(tail.pop()!)) return false;
+    count += 1;
+  }
+  if (!groups.flat().every((group) => /^[0-9A-Fa-f]{1,4}$/.test(group))) return false;
+  return halves.length === 2 ? count <= 7 : count === 8;
+}
+
+function isRegex(value: string): boolean {
+  try {
+    new RegExp(value, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,47 +1,105 @@
-import type { IndentationType } from '../types/editor';
+import type { IndentationType, JsonFormat } from '../types/editor';
+import { parseJson, stringifyJson } from './parser';
+import { isJsonNumber } from './number';
+import { tokenize, type JsonToken } from './tokenizer';
 
 /**
- * Pretty-print JSON text with the given indentation.
+ * Pretty-print JSON text with the given indentation: a number of spaces,
+ * "tab", or the indent string itself as `JSON.stringify` takes it.
+ * Works on the token stream, so comments and literal spellings such as
+ * `1.0` or JSON5 single-quoted strings are kept as written.
  * Returns the original text if it cannot be parsed.
  */
-export function formatJson(text: string, indent: IndentationType = 2): string {
-  try {
-    const parsed = JSON.parse(text);
-    const space = indent === 'tab' ? '\t' : indent;
-    return JSON.stringify(parsed, null, space);
-  } catch {
-    return text;
-  }
+export function formatJson(
+  text: string,
+  indent: IndentationType | number | string = 2,
+  format: JsonFormat = 'json',
+): string {
+  if (parseJson(text, { format }).error || text.trim() === '') return text;
+  const space = indent === 'tab' ? '\t' : typeof indent === 'number' ? ' '.repeat(indent) : indent;
+  return printTokens(text, tokenize(text, format), space);
 }
 
 /**
- * Minify JSON text (remove all whitespace).
+ * Minify JSON text (remove all whitespace and comments).
  */
-export function minifyJson(text: string): string {
-  try {
-    return JSON.stringify(JSON.parse(text));
-  } catch {
-    return text;
-  }
+export function minifyJson(text: string, format: JsonFormat = 'json'): string {
+  if (parseJson(text, { format }).error || text.trim() === '') return text;
+  return printTokens(text, tokenize(text, format), '');
 }
 
 /**
  * Sort object keys in JSON text.
+ * The result is always strict JSON — comments are not carried over.
  * @param order - "asc" for ascending, "desc" for descending, or a custom comparator.
  */
 export function sortJsonKeys(
   text: string,
   order: 'asc' | 'desc' | ((a: string, b: string) => number) = 'asc',
   indent: IndentationType = 2,
+  format: JsonFormat = 'json',
 ): string {
-  try {
-    const parsed = JSON.parse(text);
-    const sorted = deepSortKeys(parsed, order);
-    const space = indent === 'tab' ? '\t' : indent;
-    return JSON.stringify(sorted, null, space);
-  } catch {
-    return text;
+  const { value, error } = parseJson(text, { format, lossless: true });
+  if (error || value === undefined) return text;
+  const sorted = deepSortKeys(value, order);
+  const space = indent === 'tab' ? '\t' : indent;
+  return stringifyJson(sorted, space);
+}
+
+/**
+ * Re-print a token stream with one member per line. An empty `space`
+ * produces minified output, which also drops comments.
+ */
+function printTokens(text: string, tokens: JsonToken[], space: string): string {
+  const minify = space === '';
+  let out = '';
+  let depth = 0;
+  // Next token must start on a fresh line
+  let breakBefore = false;
+  // Next token needs a separating space (after an inline block comment)
+  let spaceBefore = false;
+  let prev: JsonToken | undefined;
+
+  const newline = () => (minify ? '' : '\n' + space.repeat(depth));
+
+  for (const token of tokens) {
+    if (token.type === 'eof') break;
+    const raw = text.slice(token.start, token.end);
+
+    if (token.type === 'comment') {
+      if (minify) continue;
+      const sameLine = prev !== undefined && !/[\r\n]/.test(text.slice(prev.end, token.start));
+      if (sameLine) {
+        out += (out.endsWith(' ') ? '' : ' ') + raw;
+        spaceBefore = true;
+      } else {
+        out += (out === '' ? '' : newline()) + raw;
+        breakBefore = true;
+      }
+      // A line comment runs to the end of the line
+      if (raw.startsWith('//')) breakBefore = true;
+      prev = token;
+      continue;
+    }
+
+    if (token.type === '}' || token.type === ']') {
+      depth--;
+      const isEmpty = prev?.type === '{' || prev?.type === '[';
+      out += isEmpty ? raw : newline() + raw;
+    } else {
+      if (breakBefore) out += newline();
+      else if (spaceBefore && token.type !== ',' && token.type !== ':') out += ' ';
+      out += raw;
+      if (token.type === ':' && !minify) out += ' ';
+    }
+
+    breakBefore = token.type === '{' || token.type === '[' || token.type === ',';
+    spaceBefore = false;
+    if (token.type === '{' || token.type === '[') depth++;
+    prev = token;
   }
+
+  return out;
 }
 
 function deepSortKeys(
@@ -52,7 +110,7 @@ function deepSortKeys(
     return value.map((item) => deepSortKeys(item, order));
   }
 
-  if (value !== null && typeof value === 'object') {
+  if (value !== null && typeof value === 'object' && !isJsonNumber(value)) {
     const obj = value as Record<string, unknown>;
     const comparator =
       typeof order === 'function'
@@ -99,7 +157,7 @@ export function computeStats(value: unknown, text?: string): JsonStats {
     if (Array.isArray(val)) {
       stats.arrays++;
       val.forEach((item) => walk(item, depth + 1));
-    } else if (val !== null && typeof val === 'object') {
+    } else if (val !== null && typeof val === 'object' && !isJsonNumber(val)) {
       const keys = Object.keys(val as Record<string, unknown>);
       stats.properties += keys.length;
       keys.forEach((key) => walk((val as Record<string, unknown>)[key], depth + 1));
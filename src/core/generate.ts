@@ -0,0 +1,215 @@
+import type { JSONSchema } from '../types/validation';
+import { isJsonNumber } from './number';
+import { parsePath } from './path';
+import { stringifyJson } from './parser';
+import { allowedValues } from './schemaInfo';
+import { schemasAtPath, type SchemaLookupOptions } from './validator';
+
+/**
+ * Instance generation.
+ *
+ * Values are built top-down with `schemasAtPath`, taking the first of any
+ * alternatives. Generation runs in passes over its own output until nothing
+ * changes, so an `if`/`then` that only applies once the generated values are
+ * in place still gets its required properties filled.
+ */
+
+export interface GenerateOptions extends Omit<SchemaLookupOptions, 'branches'> {
+  /**
+   * Existing document to complete. Only missing required properties are
+   * added, at any depth; nothing already present is changed.
+   */
+  document?: unknown;
+  /** Give new objects every declared property, not just the required ones (default false) */
+  includeOptional?: boolean;
+  /** Use the first of `examples` when there is no `default` (default true) */
+  useExamples?: boolean;
+}
+
+/** Passes after which a document that keeps changing is returned as it is */
+const MAX_PASSES = 8;
+
+/** Depth at which recursive schemas stop producing further required children */
+const MAX_DEPTH = 16;
+
+/** Valid examples of the formats validateSchema checks, for strings that declare one */
+const FORMAT_SAMPLES: Record<string, string> = {
+  'date-time': '1970-01-01T00:00:00Z',
+  date: '1970-01-01',
+  time: '00:00:00Z',
+  duration: 'P1D',
+  email: 'user@example.com',
+  'idn-email': 'user@example.com',
+  hostname: 'example.com',
+  'idn-hostname': 'example.com',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+  uri: 'https://example.com',
+  'uri-reference': 'https://example.com',
+  iri: 'https://example.com',
+  'iri-reference': 'https://example.com',
+  uuid: '00000000-0000-0000-0000-000000000000',
+  'json-pointer': '',
+  regex: '.*',
+};
+
+/**
+ * Build a document that satisfies `schema`: required properties, `minItems`
+ * items and values taken from `const`, `default`, `examples` or `enum`, else
+ * the smallest value of the declared type within its bounds. Follows `$ref`,
+ * `allOf` and the first branch of `anyOf`/`oneOf`. With `document`, fills in
+ * just what that document is missing instead.
+ */
+export function generateFromSchema(schema: JSONSchema, options: GenerateOptions = {}): unknown {
+  const { schemas: registry, dialect, includeOptional, useExamples = true } = options;
+  // Document of the current pass, which narrows the branches of everything inside it
+  let document = options.document;
+
+  const schemasAt = (path: string) =>
+    schemasAtPath(schema, path, { schemas: registry, dialect, document, branches: 'first' });
+
+  /** Add what is missing inside an existing value */
+  const complete = (path: string, value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map((item, i) => complete(`${path}[${i}]`, item));
+    if (!isPlainObject(value) || isJsonNumber(value)) return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      setMember(result, key, complete(`${path}.${key}`, child));
+    }
+    for (const name of schemasAt(path).flatMap((s) => s.required ?? [])) {
+      if (hasOwn(result, name)) continue;
+      const child = create(`${path}.${name}`);
+      if (child !== undefined) setMember(result, name, child);
+    }
+    return result;
+  };
+
+  /** A new value for `path`, or `undefined` past the depth limit */
+  const create = (path: string): unknown => {
+    if (parsePath(path).length > MAX_DEPTH) return undefined;
+    const schemas = schemasAt(path);
+
+    const withConst = schemas.find((s) => s.const !== undefined);
+    if (withConst) return withConst.const;
+    const withDefault = schemas.find((s) => s.default !== undefined);
+    if (withDefault) return withDefault.default;
+    const withExamples = schemas.find((s) => Array.isArray(s.examples) && s.examples.length > 0);
+    if (useExamples && withExamples) return withExamples.examples?.[0];
+    const allowed = allowedValues(schemas);
+    if (allowed && allowed.length > 0) return allowed[0];
+
+    switch (valueType(schemas)) {
+      case 'object': {
+        const names = new Set(schemas.flatMap((s) => s.required ?? []));
+        if (includeOptional) {
+          schemas.forEach((s) =>
+            Object.keys(s.properties ?? {}).forEach((name) => names.add(name)),
+          );
+        }
+        const result: Record<string, unknown> = {};
+        for (const name of names) {
+          const child = create(`${path}.${name}`);
+          if (child !== undefined) setMember(result, name, child);
+        }
+        return result;
+      }
+      case 'array': {
+        const length = Math.max(0, ...schemas.map((s) => numeric(s.minItems) ?? 0));
+        const result: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          const item = create(`${path}[${i}]`);
+          if (item === undefined) break;
+          result.push(item);
+        }
+        return result;
+      }
+      case 'string':
+        return stringValue(schemas);
+      case 'number':
+        return numberValue(schemas, false);
+      case 'integer':
+        return numberValue(schemas, true);
+      case 'boolean':
+        return false;
+      default:
+        return null;
+    }
+  };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const next = document === undefined ? create('$') : complete('$', document);
+    if (stringifyJson(next, 0) === stringifyJson(document, 0)) break;
+    document = next;
+  }
+  return document;
+}
+
+/** The first declared type, preferring anything over "null"; guessed from the keywords without one */
+function valueType(schemas: JSONSchema[]): string | undefined {
+  const declared = schemas.find((s) => s.type !== undefined)?.type;
+  if (declared !== undefined) {
+    const types = [declared].flat();
+    return types.find((type) => type !== 'null') ?? types[0];
+  }
+  const has = (...keywords: string[]) =>
+    schemas.some((s) => keywords.some((keyword) => s[keyword] !== undefined));
+  if (has('properties', 'required', 'additionalProperties', 'patternProperties')) return 'object';
+  if (has('items', 'prefixItems', 'minItems', 'contains')) return 'array';
+  if (has('minLength', 'maxLength', 'pattern', 'format')) return 'string';
+  if (has('minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf')) {
+    return 'number';
+  }
+  return undefined;
+}
+
+function stringValue(schemas: JSONSchema[]): string {
+  const format = schemas.find((s) => typeof s.format === 'string')?.format;
+  const value = (format !== undefined && FORMAT_SAMPLES[format]) || '';
+  const minLength = Math.max(0, ...schemas.map((s) => numeric(s.minLength) ?? 0));
+  return value.padEnd(minLength, 'x');
+}
+
+/** The number closest to zero within the bounds, rounded up to `multipleOf` */
+function numberValue(schemas: JSONSchema[], integer: boolean): number {
+  const bound = (keyword: string, pick: (...values: number[]) => number) => {
+    const values = schemas.flatMap((s) => numeric(s[keyword]) ?? []);
+    return values.length > 0 ? pick(...values) : undefined;
+  };
+  let value = 0;
+
+  const minimum = bound('minimum', Math.max);
+  const exclusiveMinimum = bound('exclusiveMinimum', Math.max);
+  if (minimum !== undefined && value < minimum) value = minimum;
+  if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+    value = integer ? Math.floor(exclusiveMinimum) + 1 : exclusiveMinimum + 1;
+  }
+  const maximum = bound('maximum', Math.min);
+  const exclusiveMaximum = bound('exclusiveMaximum', Math.min);
+  if (maximum !== undefined && value > maximum) value = maximum;
+  if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+    value = integer ? Math.ceil(exclusiveMaximum) - 1 : exclusiveMaximum - 1;
+  }
+
+  const multipleOf = bound('multipleOf', (first) => first);
+  if (multipleOf !== undefined && multipleOf > 0)
+    value = Math.ceil(value / multipleOf) * multipleOf;
+  return integer ? Math.ceil(value) : value;
+}
+
+function numeric(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Add a member as an own property, so a "__proto__" key stays a key */
+function setMember(obj: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
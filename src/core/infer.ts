@@ -0,0 +1,169 @@
+import type { JSONSchema } from '../types/validation';
+import { builtinFormats } from './formats';
+import { isJsonNumber } from './number';
+
+/**
+ * Schema inference.
+ *
+ * Every sample is walked once into a summary per position (the types seen,
+ * object keys and how often they occur, string values and the formats they
+ * all satisfy), with array items of all arrays at a position pooled. The
+ * schema is written out from the summary, so merging samples is just
+ * summarising all of them together.
+ */
+
+export interface InferSchemaOptions {
+  /** Treat `value` as an array of samples and infer one schema that covers them all */
+  samples?: boolean;
+  /**
+   * Most distinct values a string may take to be written as an `enum`
+   * (default 5; 0 turns enums off). Values must also repeat, so a field seen
+   * once never becomes one.
+   */
+  maxEnumValues?: number;
+  /** Detect `format`s such as "date-time" and "email" (default true) */
+  detectFormats?: boolean;
+}
+
+/** Dialect written to the root `$schema` */
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Formats worth naming, most specific first; the looser ones would match too much prose */
+const DETECTED_FORMATS = ['date-time', 'date', 'time', 'email', 'uuid', 'ipv4', 'ipv6', 'uri'];
+
+/** What the samples held at one position */
+interface Summary {
+  /** Values seen here */
+  count: number;
+  /** JSON types seen, in order of appearance; "integer" only while no fraction has been seen */
+  types: Set<string>;
+  /** Number of objects seen and the summary of each key in them */
+  objects: number;
+  properties: Map<string, Summary>;
+  /** Pooled items of every array seen */
+  items?: Summary;
+  /** Strings seen, and the distinct ones up to one past the enum limit */
+  strings: number;
+  values: Set<string>;
+  /** Formats every string so far satisfies */
+  formats: string[];
+}
+
+/**
+ * Infer a Draft 2020-12 schema describing `value`: types (with integers told
+ * apart), `properties` with the keys present in every object `required`,
+ * `items` merged over all elements, string `format`s and `enum`s for
+ * strings with few, repeating values. With `samples: true`, `value` is an
+ * array of samples and the schema covers all of them.
+ */
+export function inferSchema(value: unknown, options: InferSchemaOptions = {}): JSONSchema {
+  const { samples = false, maxEnumValues = 5, detectFormats = true } = options;
+  const root = createSummary();
+
+  function walk(val: unknown, summary: Summary) {
+    summary.count++;
+    if (Array.isArray(val)) {
+      summary.types.add('array');
+      summary.items ??= createSummary();
+      for (const item of val) walk(item, summary.items);
+    } else if (isJsonNumber(val) || typeof val === 'number') {
+      const integer = isJsonNumber(val) ? /^-?\d+$/.test(val.raw) : Number.isInteger(val);
+      addNumber(summary, integer);
+    } else if (typeof val === 'string') {
+      summary.types.add('string');
+      summary.strings++;
+      if (summary.values.size <= maxEnumValues) summary.values.add(val);
+      summary.formats = detectFormats
+        ? (summary.strings === 1 ? DETECTED_FORMATS : summary.formats).filter((format) =>
+            builtinFormats[format](val),
+          )
+        : [];
+    } else if (val !== null && typeof val === 'object') {
+      summary.types.add('object');
+      summary.objects++;
+      for (const [key, child] of Object.entries(val as Record<string, unknown>)) {
+        let property = summary.properties.get(key);
+        if (!property) summary.properties.set(key, (property = createSummary()));
+        walk(child, property);
+      }
+    } else if (val === null || typeof val === 'boolean') {
+      summary.types.add(val === null ? 'null' : 'boolean');
+    }
+  }
+
+  function write(summary: Summary): JSONSchema {
+    const types = [...summary.types];
+    if (types.length === 0) return {};
+    const parts = types.map((type) => writeType(summary, type));
+    if (parts.length === 1) return parts[0];
+    // Scalars share one `type` list; structured types keep their keywords apart
+    if (!types.includes('object') && !types.includes('array')) {
+      const format = summary.formats[0];
+      return format === undefined ? { type: types } : { type: types, format };
+    }
+    return { anyOf: parts };
+  }
+
+  function writeType(summary: Summary, type: string): JSONSchema {
+    switch (type) {
+      case 'object': {
+        const schema: JSONSchema = { type };
+        const names = [...summary.properties.keys()];
+        if (names.length > 0) {
+          schema.properties = Object.fromEntries(
+            names.map((name) => [name, write(summary.properties.get(name) as Summary)]),
+          );
+        }
+        const required = names.filter(
+          (name) => (summary.properties.get(name) as Summary).count === summary.objects,
+        );
+        if (required.length > 0) schema.required = required;
+        return schema;
+      }
+      case 'array':
+        return summary.items && summary.items.types.size > 0
+          ? { type, items: write(summary.items) }
+          : { type };
+      case 'string': {
+        if (summary.formats.length > 0) return { type, format: summary.formats[0] };
+        const { values, strings } = summary;
+        return values.size <= maxEnumValues && strings > values.size
+          ? { type, enum: [...values] }
+          : { type };
+      }
+      default:
+        return { type };
+    }
+  }
+
+  for (const sample of samples && Array.isArray(value) ? value : [value]) {
+    if (sample !== undefined) walk(sample, root);
+  }
+  return { $schema: DRAFT_2020_12, ...write(root) };
+}
+
+function createSummary(): Summary {
+  return {
+    count: 0,
+    types: new Set(),
+    objects: 0,
+    properties: new Map(),
+    strings: 0,
+    values: new Set(),
+    formats: [],
+  };
+}
+
+/** Record a number, widening "integer" to "number" in place once a fraction turns up */
+function addNumber(summary: Summary, integer: boolean) {
+  if (summary.types.has('number')) return;
+  if (integer) {
+    summary.types.add('integer');
+  } else if (summary.types.has('integer')) {
+    summary.types = new Set(
+      [...summary.types].map((type) => (type === 'integer' ? 'number' : type)),
+    );
+  } else {
+    summary.types.add('number');
+  }
+}
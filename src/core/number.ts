@@ -0,0 +1,62 @@
+/**
+ * Lossless number support.
+ *
+ * A JavaScript number can't hold integers above 2^53 exactly, and it forgets
+ * how a literal was spelled (`1.50` becomes `1.5`). `JsonNumber` keeps the
+ * original literal so it can be written back unchanged.
+ */
+
+const JSON_NUMBER_LITERAL = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/** A JSON number literal kept exactly as written */
+export class JsonNumber {
+  /** The literal source text, e.g. "12345678901234567890" or "1.50" */
+  readonly raw: string;
+
+  constructor(raw: string) {
+    if (!isJsonNumberLiteral(raw)) {
+      throw new SyntaxError(`Invalid JSON number literal '${raw}'`);
+    }
+    this.raw = raw;
+  }
+
+  /** Nearest JavaScript number (may lose precision) */
+  valueOf(): number {
+    return Number(this.raw);
+  }
+
+  toString(): string {
+    return this.raw;
+  }
+
+  /** `JSON.stringify` can only emit the nearest number; use `stringifyJson` to keep the literal */
+  toJSON(): number {
+    return this.valueOf();
+  }
+}
+
+/** Check whether a value is a lossless number wrapper */
+export function isJsonNumber(value: unknown): value is JsonNumber {
+  return value instanceof JsonNumber;
+}
+
+/** Check whether a string is a number literal in strict JSON grammar */
+export function isJsonNumberLiteral(raw: string): boolean {
+  return JSON_NUMBER_LITERAL.test(raw);
+}
+
+/**
+ * Check whether a literal survives a round trip through a JavaScript number,
+ * i.e. `String(Number(raw)) === raw`.
+ */
+export function isNumberRoundTripSafe(raw: string): boolean {
+  return String(Number(raw)) === raw;
+}
+
+/** Check whether an integer literal is beyond the range a JavaScript number holds exactly */
+export function exceedsNumberPrecision(raw: string): boolean {
+  if (!/^-?\d+$/.test(raw)) return false;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) return true;
+  return !Number.isSafeInteger(value) && BigInt(raw) !== BigInt(value);
+}
@@ -1,67 +1,422 @@
-import type { ParseError } from '../types/editor';
+import type { ParseError, NodeLocation, JsonFormat, DuplicateKey } from '../types/editor';
+import { tokenize, type JsonToken } from './tokenizer';
+import { JsonNumber, isJsonNumber, isJsonNumberLiteral, isNumberRoundTripSafe } from './number';
 
 /** Result of a JSON parse attempt */
 export interface ParseResult {
+  /**
+   * The parsed value. In recovery mode this is a best-effort partial value
+   * even when `errors` is non-empty; otherwise it is undefined on error.
+   */
   value: unknown;
+  /** The first syntax error, if any */
   error: ParseError | null;
+  /** Every syntax error found (at most one unless `recover` is set) */
+  errors: ParseError[];
+  /** Source location of every parsed node, keyed by JSONPath (e.g. "$.items[0]") */
+  locations: Map<string, NodeLocation>;
+  /** Keys repeated within an object; the parsed value keeps only the last occurrence */
+  duplicateKeys: DuplicateKey[];
 }
 
+/** Options for parseJson */
+export interface ParseOptions {
+  /** Dialect to accept (default "json") */
+  format?: JsonFormat;
+  /**
+   * Keep going after a syntax error, collecting every error and returning
+   * whatever could be parsed instead of stopping at the first problem.
+   */
+  recover?: boolean;
+  /**
+   * Return number literals that a JavaScript number would change — integers
+   * beyond 2^53, or spellings like `1.50` — as `JsonNumber` wrappers.
+   */
+  lossless?: boolean;
+}
+
+/** Upper bound on errors collected in recovery mode */
+const MAX_RECOVERED_ERRORS = 100;
+
 /**
  * Parse a JSON string with detailed error location info.
- * Uses native JSON.parse but enhances error messages with line/column.
+ * Uses a hand-written recursive-descent parser so error positions and
+ * messages are identical across JavaScript engines, and records the
+ * source range of every node for path-to-text lookups.
  */
-export function parseJson(text: string): ParseResult {
+export function parseJson(text: string, options: ParseOptions = {}): ParseResult {
+  const locations = new Map<string, NodeLocation>();
+  const duplicateKeys: DuplicateKey[] = [];
   if (text.trim() === '') {
-    return { value: undefined, error: null };
+    return { value: undefined, error: null, errors: [], locations, duplicateKeys };
   }
 
+  const format = options.format ?? 'json';
+  const state: ParserState = {
+    text,
+    tokens: tokenize(text, format),
+    pos: 0,
+    locations,
+    duplicateKeys,
+    recover: options.recover ?? false,
+    lossless: options.lossless ?? false,
+    errors: [],
+    allowTrailingCommas: format !== 'json',
+    allowBareKeys: format === 'json5',
+    lastEnd: 0,
+  };
+
   try {
-    const value = JSON.parse(text);
-    return { value, error: null };
+    const value = parseValue(state, '$');
+    const next = peek(state);
+    if (next.type !== 'eof') {
+      report(state, next.start, 'Unexpected non-whitespace character after JSON');
+    }
+    return {
+      value,
+      error: state.errors[0] ?? null,
+      errors: state.errors,
+      locations,
+      duplicateKeys,
+    };
   } catch (e) {
-    const error = extractParseError(e as SyntaxError, text);
-    return { value: undefined, error };
+    if (e instanceof JsonSyntaxError) {
+      return { value: undefined, error: e.error, errors: [e.error], locations, duplicateKeys };
+    }
+    if (e instanceof RangeError) {
+      const error = toParseError(text, 'Maximum nesting depth exceeded', 0);
+      return { value: undefined, error, errors: [error], locations, duplicateKeys };
+    }
+    throw e;
+  }
+}
+
+// --- Recursive-descent parser ---
+
+const UNEXPECTED_END = 'Unexpected end of JSON input';
+
+interface ParserState {
+  text: string;
+  tokens: JsonToken[];
+  pos: number;
+  locations: Map<string, NodeLocation>;
+  duplicateKeys: DuplicateKey[];
+  recover: boolean;
+  lossless: boolean;
+  errors: ParseError[];
+  allowTrailingCommas: boolean;
+  allowBareKeys: boolean;
+  /** End offset of the last consumed token */
+  lastEnd: number;
+}
+
+/** Thrown internally to unwind the parser at the first syntax error */
+class JsonSyntaxError extends Error {
+  constructor(readonly error: ParseError) {
+    super(error.message);
+  }
+}
+
+/** Current significant token; comments are skipped (and reported where disallowed) */
+function peek(state: ParserState): JsonToken {
+  let token = state.tokens[state.pos];
+  while (token.type === 'comment') {
+    if (token.error) reportToken(state, token);
+    token = state.tokens[++state.pos];
   }
+  return token;
+}
+
+function advance(state: ParserState): JsonToken {
+  const token = peek(state);
+  if (token.type !== 'eof') state.pos++;
+  state.lastEnd = token.end;
+  return token;
 }
 
 /**
- * Extract line, column, and offset from a SyntaxError thrown by JSON.parse.
- * Different engines format the error message differently.
+ * Record a syntax error. Throws in strict mode; in recovery mode the caller
+ * is expected to resynchronise and continue.
  */
-function extractParseError(err: SyntaxError, text: string): ParseError {
-  const message = err.message;
+function report(state: ParserState, offset: number, message: string): void {
+  const error = toParseError(state.text, message, offset);
+  if (!state.recover) throw new JsonSyntaxError(error);
 
-  // V8 (Chrome/Node): "... at position 42" or "... at line 3 column 5"
-  let offset = -1;
-  let line = 1;
-  let column = 1;
-
-  const posMatch = message.match(/at position (\d+)/);
-  const lineColMatch = message.match(/at line (\d+) column (\d+)/);
-
-  if (lineColMatch) {
-    line = parseInt(lineColMatch[1], 10);
-    column = parseInt(lineColMatch[2], 10);
-    offset = getOffsetFromLineCol(text, line, column);
-  } else if (posMatch) {
-    offset = parseInt(posMatch[1], 10);
-    const loc = getLineColFromOffset(text, offset);
-    line = loc.line;
-    column = loc.column;
-  }
-
-  // Clean up the message for display
-  const cleanMessage = message
-    .replace(/^JSON\.parse: /, '')
-    .replace(/ at position \d+.*$/, '')
-    .replace(/ at line \d+ column \d+.*$/, '');
-
-  return {
-    message: cleanMessage || 'Invalid JSON',
-    line,
-    column,
-    offset: Math.max(0, offset),
+  const last = state.errors[state.errors.length - 1];
+  // Several recovery paths can trip over the same token — report it once
+  if (last?.offset === offset) return;
+  if (state.errors.length < MAX_RECOVERED_ERRORS) state.errors.push(error);
+}
+
+/** Report a token's own lexical error at the offending character */
+function reportToken(state: ParserState, token: JsonToken): void {
+  report(state, token.errorOffset ?? token.start, token.error!);
+}
+
+/** Skip tokens until one that can resume a container: `,`, a closer, or EOF */
+function synchronize(state: ParserState): void {
+  for (;;) {
+    const type = peek(state).type;
+    if (type === ',' || type === '}' || type === ']' || type === 'eof') return;
+    advance(state);
+  }
+}
+
+function startsValue(token: JsonToken): boolean {
+  return (
+    token.type === '{' ||
+    token.type === '[' ||
+    token.type === 'string' ||
+    token.type === 'number' ||
+    token.type === 'true' ||
+    token.type === 'false' ||
+    token.type === 'null'
+  );
+}
+
+/** Returns the parsed value, or undefined when nothing usable was found */
+function parseValue(state: ParserState, path: string): unknown {
+  const token = peek(state);
+
+  switch (token.type) {
+    case '{':
+      return parseObject(state, path);
+    case '[':
+      return parseArray(state, path);
+    case 'string':
+    case 'number':
+    case 'true':
+    case 'false':
+    case 'null':
+      advance(state);
+      if (token.error) {
+        reportToken(state, token);
+        if (token.type === 'number' && !Number.isFinite(token.value)) return undefined;
+      }
+      state.locations.set(path, { start: token.start, end: token.end });
+      if (state.lossless && token.type === 'number' && !token.error) {
+        const raw = state.text.slice(token.start, token.end);
+        if (isJsonNumberLiteral(raw) && !isNumberRoundTripSafe(raw)) return new JsonNumber(raw);
+      }
+      return token.value;
+    default:
+      report(state, token.start, describeUnexpected(token));
+      // Leave separators and closers for the enclosing container
+      while (['invalid', 'identifier', ':'].includes(peek(state).type)) advance(state);
+      return undefined;
+  }
+}
+
+function parseObject(state: ParserState, path: string): Record<string, unknown> {
+  const open = advance(state);
+  const obj: Record<string, unknown> = {};
+  // First occurrence of each key, and the duplicates found so far
+  const members = new Map<string, DuplicateKey['occurrences'][number]>();
+  const duplicates = new Map<string, DuplicateKey>();
+  const finish = (end: number) => {
+    state.locations.set(path, { start: open.start, end });
+    return obj;
   };
+
+  if (peek(state).type === '}') {
+    return finish(advance(state).end);
+  }
+
+  for (;;) {
+    const keyToken = peek(state);
+    let key: string;
+
+    if (keyToken.type === 'string') {
+      advance(state);
+      if (keyToken.error) reportToken(state, keyToken);
+      key = keyToken.value as string;
+    } else if (keyToken.type === '}') {
+      if (!state.allowTrailingCommas)
+        report(state, keyToken.start, 'Trailing comma is not allowed');
+      return finish(advance(state).end);
+    } else if (
+      keyToken.type === 'identifier' ||
+      (state.allowBareKeys && isKeywordToken(keyToken))
+    ) {
+      if (!state.allowBareKeys) {
+        report(state, keyToken.start, 'Expected double-quoted property name');
+      }
+      advance(state);
+      key = state.text.slice(keyToken.start, keyToken.end);
+    } else {
+      report(state, keyToken.start, describeUnexpectedKey(keyToken));
+      if (keyToken.type === 'eof' || keyToken.type === ']') return finish(state.lastEnd);
+      advance(state);
+      if (keyToken.type !== ',') {
+        synchronize(state);
+        if (peek(state).type === ',') advance(state);
+      }
+      continue;
+    }
+
+    let hasValue = true;
+    const colon = peek(state);
+    if (colon.type === ':') {
+      advance(state);
+    } else {
+      report(
+        state,
+        colon.start,
+        colon.type === 'eof' ? UNEXPECTED_END : "Expected ':' after property name",
+      );
+      // Carry on if the value is right there, as in `"a" 1`
+      if (!startsValue(colon)) {
+        synchronize(state);
+        hasValue = false;
+      }
+    }
+
+    if (hasValue) {
+      const childPath = `${path}.${key}`;
+      const value = parseValue(state, childPath);
+      if (value !== undefined) {
+        setProperty(obj, key, value);
+        const childLocation = state.locations.get(childPath)!;
+        childLocation.keyStart = keyToken.start;
+        childLocation.keyEnd = keyToken.end;
+
+        const occurrence = { value, location: childLocation };
+        const first = members.get(key);
+        if (!first) {
+          members.set(key, occurrence);
+        } else if (duplicates.has(key)) {
+          duplicates.get(key)!.occurrences.push(occurrence);
+        } else {
+          const duplicate = { path: childPath, key, occurrences: [first, occurrence] };
+          duplicates.set(key, duplicate);
+          state.duplicateKeys.push(duplicate);
+        }
+      }
+    }
+
+    const separator = peek(state);
+    if (separator.type === ',') {
+      advance(state);
+      continue;
+    }
+    if (separator.type === '}') {
+      return finish(advance(state).end);
+    }
+
+    report(
+      state,
+      separator.start,
+      separator.type === 'eof' ? UNEXPECTED_END : "Expected ',' or '}' after property value",
+    );
+    if (separator.type === 'eof' || separator.type === ']') return finish(state.lastEnd);
+    // A string here is most likely the next key after a missing comma
+    if (separator.type !== 'string') {
+      synchronize(state);
+      if (peek(state).type === ',') advance(state);
+      else if (peek(state).type === '}') return finish(advance(state).end);
+      else return finish(state.lastEnd);
+    }
+  }
+}
+
+function parseArray(state: ParserState, path: string): unknown[] {
+  const open = advance(state);
+  const arr: unknown[] = [];
+  const finish = (end: number) => {
+    state.locations.set(path, { start: open.start, end });
+    return arr;
+  };
+
+  if (peek(state).type === ']') {
+    return finish(advance(state).end);
+  }
+
+  for (;;) {
+    const next = peek(state);
+    if (next.type === ']') {
+      if (!state.allowTrailingCommas) report(state, next.start, 'Trailing comma is not allowed');
+      return finish(advance(state).end);
+    }
+    if (next.type === ',') {
+      report(state, next.start, describeUnexpected(next));
+      advance(state);
+      continue;
+    }
+    if (next.type === 'eof' || next.type === '}') {
+      report(state, next.start, describeUnexpected(next));
+      return finish(state.lastEnd);
+    }
+
+    const value = parseValue(state, `${path}[${arr.length}]`);
+    if (value !== undefined) arr.push(value);
+
+    const separator = peek(state);
+    if (separator.type === ',') {
+      advance(state);
+      continue;
+    }
+    if (separator.type === ']') {
+      return finish(advance(state).end);
+    }
+
+    report(
+      state,
+      separator.start,
+      separator.type === 'eof' ? UNEXPECTED_END : "Expected ',' or ']' after array element",
+    );
+    if (separator.type === 'eof' || separator.type === '}') return finish(state.lastEnd);
+    // Another value here most likely means a missing comma
+    if (!startsValue(separator)) {
+      synchronize(state);
+      if (peek(state).type === ',') advance(state);
+      else if (peek(state).type === ']') return finish(advance(state).end);
+      else return finish(state.lastEnd);
+    }
+  }
+}
+
+/** Literal words that JSON5 also accepts as unquoted property names */
+function isKeywordToken(token: JsonToken): boolean {
+  return (
+    token.type === 'true' ||
+    token.type === 'false' ||
+    token.type === 'null' ||
+    (token.type === 'number' && /^(Infinity|NaN)$/.test(String(token.value)))
+  );
+}
+
+function describeUnexpected(token: JsonToken): string {
+  if (token.type === 'eof') return UNEXPECTED_END;
+  if (token.type === 'invalid') return token.error ?? 'Unexpected token';
+  if (token.type === 'identifier') return `Unexpected token '${token.value}'`;
+  if (token.type === 'string') return 'Unexpected string';
+  if (token.type === 'number') return 'Unexpected number';
+  return `Unexpected token '${token.type}'`;
+}
+
+function describeUnexpectedKey(token: JsonToken): string {
+  if (token.type === 'eof') return UNEXPECTED_END;
+  if (token.type === 'invalid') return token.error ?? 'Expected property name';
+  return "Expected property name or '}'";
+}
+
+/** Assign a property without triggering the `__proto__` setter */
+function setProperty(obj: Record<string, unknown>, key: string, value: unknown): void {
+  if (key === '__proto__') {
+    Object.defineProperty(obj, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  } else {
+    obj[key] = value;
+  }
+}
+
+function toParseError(text: string, message: string, offset: number): ParseError {
+  const { line, column } = getLineColFromOffset(text, offset);
+  return { message, line, column, offset };
 }
 
 /** Convert a character offset to line/column (both 1-based). */
@@ -98,24 +453,89 @@ export function getOffsetFromLineCol(text: string, line: number, column: number)
 
 /**
  * Stringify a value to formatted JSON text.
+ * Follows `JSON.stringify` semantics, except that `JsonNumber` wrappers and
+ * BigInts are written out as their exact digits.
  */
 export function stringifyJson(value: unknown, indent: number | string = 2): string {
   if (value === undefined) return '';
+  const space =
+    typeof indent === 'number'
+      ? ' '.repeat(Math.min(10, Math.max(0, indent)))
+      : indent.slice(0, 10);
   try {
-    return JSON.stringify(value, null, indent);
+    return serializeValue(value, '', space, '', []) ?? '';
   } catch {
     return '';
   }
 }
 
+function serializeValue(
+  input: unknown,
+  key: string,
+  space: string,
+  indent: string,
+  stack: object[],
+): string | undefined {
+  if (isJsonNumber(input)) return input.raw;
+
+  let value = input;
+  if (value !== null && typeof value === 'object') {
+    const withToJson = value as { toJSON?: (key: string) => unknown };
+    if (typeof withToJson.toJSON === 'function') value = withToJson.toJSON(key);
+    if (value instanceof Number || value instanceof String || value instanceof Boolean) {
+      value = value.valueOf();
+    }
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      return Number.isFinite(value) ? String(value) : 'null';
+    case 'bigint':
+    case 'boolean':
+      return String(value);
+    case 'object':
+      break;
+    default:
+      return undefined;
+  }
+  if (value === null) return 'null';
+
+  if (stack.includes(value)) throw new TypeError('Converting circular structure to JSON');
+  stack.push(value);
+
+  const inner = indent + space;
+  const open = space ? `\n${inner}` : '';
+  const close = space ? `\n${indent}` : '';
+  const separator = space ? `,\n${inner}` : ',';
+  let out: string;
+
+  if (Array.isArray(value)) {
+    const items = value.map(
+      (item, i) => serializeValue(item, String(i), space, inner, stack) ?? 'null',
+    );
+    out = items.length === 0 ? '[]' : `[${open}${items.join(separator)}${close}]`;
+  } else {
+    const obj = value as Record<string, unknown>;
+    const members: string[] = [];
+    for (const k of Object.keys(obj)) {
+      const serialized = serializeValue(obj[k], k, space, inner, stack);
+      if (serialized !== undefined) {
+        members.push(`${JSON.stringify(k)}:${space ? ' ' : ''}${serialized}`);
+      }
+    }
+    out = members.length === 0 ? '{}' : `{${open}${members.join(separator)}${close}}`;
+  }
+
+  stack.pop();
+  return out;
+}
+
 /**
  * Check if a string is valid JSON without returning the parsed value.
  */
 export function isValidJson(text: string): boolean {
-  try {
-    JSON.parse(text);
-    return true;
-  } catch {
-    return false;
-  }
+  const result = parseJson(text);
+  return result.error === null && result.value !== undefined;
 }
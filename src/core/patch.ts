@@ -0,0 +1,209 @@
+import { diffJson } from './diff';
+import { isJsonNumber } from './number';
+import { deleteBySegments, setBySegments } from './path';
+
+/**
+ * JSON Patch (RFC 6902).
+ *
+ * Operations address nodes with JSON Pointers (RFC 6901): "" is the whole
+ * document, "/items/0/name" a member, "~1" and "~0" stand for "/" and "~" in a
+ * key, and "-" is the end of an array. Patches are applied with the immutable
+ * path utilities, segment by segment so any key can be addressed, and a
+ * document is never modified in place.
+ */
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/** Why a patch couldn't be applied, and which operation failed */
+export class JsonPatchError extends Error {
+  constructor(
+    message: string,
+    /** Position of the failed operation in the patch */
+    readonly index: number,
+    readonly operation: JsonPatchOperation,
+  ) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * Apply `patch` to `doc` and return the result. The patch applies as a whole
+ * or not at all: the first operation that fails (a `test` that doesn't match,
+ * a path that doesn't exist, …) throws a `JsonPatchError` and `doc` is left
+ * as it was.
+ */
+export function applyPatch(doc: unknown, patch: JsonPatchOperation[]): unknown {
+  return patch.reduce((current, operation, index) => {
+    const fail = (reason: string): never => {
+      throw new JsonPatchError(reason, index, operation);
+    };
+    return applyOperation(current, operation, fail);
+  }, doc);
+}
+
+/**
+ * The patch turning `a` into `b`: objects are compared key by key and arrays
+ * by index, and a value that changed type (or a scalar that changed) is one
+ * `replace`. Key order isn't part of a patch; numbers compare by value.
+ */
+export function createPatch(a: unknown, b: unknown): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+
+  function compare(x: unknown, y: unknown, pointer: string) {
+    if (x === y) return;
+    if (Array.isArray(x) && Array.isArray(y)) {
+      const shared = Math.min(x.length, y.length);
+      for (let i = 0; i < shared; i++) compare(x[i], y[i], `${pointer}/${i}`);
+      // From the end, so the items still to remove keep their index
+      for (let i = x.length - 1; i >= shared; i--) {
+        patch.push({ op: 'remove', path: `${pointer}/${i}` });
+      }
+      for (let i = shared; i < y.length; i++) {
+        patch.push({ op: 'add', path: `${pointer}/${i}`, value: y[i] });
+      }
+    } else if (isObject(x) && isObject(y)) {
+      for (const key of Object.keys(x)) {
+        if (!hasOwn(y, key)) patch.push({ op: 'remove', path: `${pointer}/${escapeToken(key)}` });
+      }
+      for (const key of Object.keys(y)) {
+        const path = `${pointer}/${escapeToken(key)}`;
+        if (hasOwn(x, key)) compare(x[key], y[key], path);
+        else patch.push({ op: 'add', path, value: y[key] });
+      }
+    } else if (!jsonEqual(x, y)) {
+      patch.push({ op: 'replace', path: pointer, value: y });
+    }
+  }
+
+  compare(a, b, '');
+  return patch;
+}
+
+/** Where a JSON Pointer leads in a document */
+interface Target {
+  /** The pointer split into keys and indexes, for the path utilities */
+  segments: string[];
+  /** The object or array holding the node; undefined for the whole document */
+  parent: unknown;
+  /** Key or index in `parent`; an index can be one past the end of an array */
+  key: string;
+  exists: boolean;
+  value: unknown;
+}
+
+function applyOperation(
+  doc: unknown,
+  operation: JsonPatchOperation,
+  fail: (reason: string) => never,
+): unknown {
+  switch (operation.op) {
+    case 'add':
+      return add(doc, operation.path, operation.value, fail);
+    case 'remove':
+      return remove(doc, operation.path, fail);
+    case 'replace': {
+      const target = locate(doc, operation.path, fail);
+      if (!target.exists) fail(`"${operation.path}" does not exist`);
+      return setBySegments(doc, target.segments, operation.value);
+    }
+    case 'move': {
+      const { from, path } = operation;
+      if (path.startsWith(`${from}/`)) fail(`Can't move "${from}" into itself`);
+      const source = locate(doc, from, fail);
+      if (!source.exists) fail(`"${from}" does not exist`);
+      if (from === path) return doc;
+      return add(remove(doc, from, fail), path, source.value, fail);
+    }
+    case 'copy': {
+      const source = locate(doc, operation.from, fail);
+      if (!source.exists) fail(`"${operation.from}" does not exist`);
+      return add(doc, operation.path, source.value, fail);
+    }
+    case 'test': {
+      const target = locate(doc, operation.path, fail);
+      if (!target.exists) fail(`"${operation.path}" does not exist`);
+      if (!jsonEqual(target.value, operation.value)) {
+        fail(`"${operation.path}" does not hold the tested value`);
+      }
+      return doc;
+    }
+    default:
+      return fail(`Unknown operation "${(operation as { op: unknown }).op}"`);
+  }
+}
+
+/** Set an object member, or insert into an array and shift the items after it */
+function add(doc: unknown, pointer: string, value: unknown, fail: (reason: string) => never) {
+  const target = locate(doc, pointer, fail);
+  if (!Array.isArray(target.parent)) return setBySegments(doc, target.segments, value);
+  const index = Number(target.key);
+  if (index > target.parent.length) fail(`"${pointer}" is past the end of the array`);
+  const items = [...target.parent];
+  items.splice(index, 0, value);
+  return setBySegments(doc, target.segments.slice(0, -1), items);
+}
+
+function remove(doc: unknown, pointer: string, fail: (reason: string) => never) {
+  if (pointer === '') fail("Can't remove the whole document");
+  const target = locate(doc, pointer, fail);
+  if (!target.exists) fail(`"${pointer}" does not exist`);
+  return deleteBySegments(doc, target.segments);
+}
+
+/** Follow `pointer` into `doc`; every node on the way but the last must exist */
+function locate(doc: unknown, pointer: string, fail: (reason: string) => never): Target {
+  if (pointer !== '' && !pointer.startsWith('/')) fail(`"${pointer}" is not a JSON Pointer`);
+  const tokens = pointer === '' ? [] : pointer.slice(1).split('/').map(unescapeToken);
+  const target: Target = { segments: [], parent: undefined, key: '', exists: true, value: doc };
+
+  for (const token of tokens) {
+    const parent = target.value;
+    if (!target.exists) fail(`"${pointer}" does not exist`);
+    if (Array.isArray(parent)) {
+      if (token !== '-' && !/^(0|[1-9]\d*)$/.test(token)) {
+        fail(`"${token}" in "${pointer}" is not an array index`);
+      }
+      target.key = token === '-' ? String(parent.length) : token;
+      target.exists = Number(target.key) < parent.length;
+    } else if (isObject(parent)) {
+      target.key = token;
+      target.exists = hasOwn(parent, token);
+    } else {
+      fail(`"${pointer}" does not exist`);
+    }
+    target.segments.push(target.key);
+    target.parent = parent;
+    target.value = target.exists ? (parent as Record<string, unknown>)[target.key] : undefined;
+  }
+  return target;
+}
+
+function escapeToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapeToken(token: string): string {
+  return token.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/** Deep equality as JSON sees it: key order doesn't matter, numbers compare by value */
+function jsonEqual(x: unknown, y: unknown): boolean {
+  return diffJson(x, y, { ignoreKeyOrder: true }).length === 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !isJsonNumber(value)
+  );
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
@@ -37,15 +37,18 @@ export function setByPath(obj: unknown, path: string, value: unknown): unknown {
   if (path === '$' || path === '') return value;
 
   const segments = parsePath(path);
-  return setBySegments(obj, segments, 0, value);
+  return setFrom(obj, segments, 0, value);
 }
 
-function setBySegments(
-  current: unknown,
-  segments: string[],
-  index: number,
-  value: unknown,
-): unknown {
+/**
+ * Set a value at a path already split into segments, so keys may hold any
+ * character (".", "[", …). Returns a new object (immutable operation).
+ */
+export function setBySegments(obj: unknown, segments: string[], value: unknown): unknown {
+  return setFrom(obj, segments, 0, value);
+}
+
+function setFrom(current: unknown, segments: string[], index: number, value: unknown): unknown {
   if (index === segments.length) return value;
 
   const segment = segments[index];
@@ -53,19 +56,14 @@ function setBySegments(
   if (Array.isArray(current)) {
     const arrIndex = parseInt(segment, 10);
     const newArr = [...current];
-    newArr[arrIndex] = setBySegments(current[arrIndex], segments, index + 1, value);
+    newArr[arrIndex] = setFrom(current[arrIndex], segments, index + 1, value);
     return newArr;
   }
 
   if (typeof current === 'object' && current !== null) {
     return {
       ...(current as Record<string, unknown>),
-      [segment]: setBySegments(
-        (current as Record<string, unknown>)[segment],
-        segments,
-        index + 1,
-        value,
-      ),
+      [segment]: setFrom((current as Record<string, unknown>)[segment], segments, index + 1, value),
     };
   }
 
@@ -74,7 +72,7 @@ function setBySegments(
   const isArrayIndex = nextSegment !== undefined && /^\d+$/.test(nextSegment);
   const container = isArrayIndex ? [] : {};
   return {
-    [segment]: setBySegments(container, segments, index + 1, value),
+    [segment]: setFrom(container, segments, index + 1, value),
   };
 }
 
@@ -86,10 +84,19 @@ export function deleteByPath(obj: unknown, path: string): unknown {
   if (path === '$' || path === '') return undefined;
 
   const segments = parsePath(path);
-  return deleteBySegments(obj, segments, 0);
+  return deleteFrom(obj, segments, 0);
 }
 
-function deleteBySegments(current: unknown, segments: string[], index: number): unknown {
+/**
+ * Delete the node at a path already split into segments.
+ * Returns a new object (immutable operation).
+ */
+export function deleteBySegments(obj: unknown, segments: string[]): unknown {
+  if (segments.length === 0) return undefined;
+  return deleteFrom(obj, segments, 0);
+}
+
+function deleteFrom(current: unknown, segments: string[], index: number): unknown {
   if (index === segments.length - 1) {
     const segment = segments[index];
 
@@ -112,18 +119,14 @@ function deleteBySegments(current: unknown, segments: string[], index: number):
   if (Array.isArray(current)) {
     const arrIndex = parseInt(segment, 10);
     const newArr = [...current];
-    newArr[arrIndex] = deleteBySegments(current[arrIndex], segments, index + 1);
+    newArr[arrIndex] = deleteFrom(current[arrIndex], segments, index + 1);
     return newArr;
   }
 
   if (typeof current === 'object' && current !== null) {
     return {
       ...(current as Record<string, unknown>),
-      [segment]: deleteBySegments(
-        (current as Record<string, unknown>)[segment],
-        segments,
-        index + 1,
-      ),
+      [segment]: deleteFrom((current as Record<string, unknown>)[segment], segments, index + 1),
     };
   }
 
@@ -146,6 +149,110 @@ export function parsePath(path: string): string[] {
   return normalized.split('.').filter((s) => s !== '');
 }
 
+/**
+ * Get the path of the containing node: "$.a.b[2]" → "$.a.b", "$.a" → "$".
+ * Returns null for the root.
+ */
+export function getParentPath(path: string): string | null {
+  if (path === '$' || path === '') return null;
+  const parent = path.replace(/(?:\.[^.[\]]*|\[\d+\])$/, '');
+  return parent === path || parent === '' ? '$' : parent;
+}
+
+/** A node found by queryPath */
+export interface PathMatch {
+  /** Concrete path of the node, e.g. "$.users[2].email" */
+  path: string;
+  value: unknown;
+}
+
+type PathSelector = { name: string } | { index: number } | { wildcard: true };
+
+interface PathStep {
+  selector: PathSelector;
+  /** `..` — match at any depth below the current nodes */
+  recursive: boolean;
+}
+
+/**
+ * Find every node matching a JSONPath pattern, in document order. Supports
+ * `.name`, `['name']`, `[0]`, wildcards (`.*`, `[*]`) and recursive descent
+ * (`..name`). E.g., "$.users[*].email" → one match per user with an email.
+ * Throws on a malformed pattern.
+ */
+export function queryPath(value: unknown, pattern: string): PathMatch[] {
+  let nodes: PathMatch[] = [{ path: '$', value }];
+
+  for (const { selector, recursive } of parsePattern(pattern)) {
+    const scope = recursive ? nodes.flatMap(withDescendants) : nodes;
+    nodes = scope.flatMap((node) =>
+      childrenOf(node).filter(({ key }) =>
+        'wildcard' in selector
+          ? true
+          : 'index' in selector
+            ? key === selector.index
+            : key === selector.name,
+      ),
+    );
+  }
+
+  return nodes.map(({ path, value: match }) => ({ path, value: match }));
+}
+
+function childrenOf({ path, value }: PathMatch): (PathMatch & { key: string | number })[] {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => ({ key: i, path: `${path}[${i}]`, value: item }));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).map(([key, item]) => ({
+      key,
+      path: `${path}.${key}`,
+      value: item,
+    }));
+  }
+  return [];
+}
+
+function withDescendants(node: PathMatch): PathMatch[] {
+  return [node, ...childrenOf(node).flatMap(withDescendants)];
+}
+
+function parsePattern(pattern: string): PathStep[] {
+  const invalid = () => new Error(`Invalid JSONPath pattern "${pattern}"`);
+  if (pattern[0] !== '$') throw invalid();
+
+  const steps: PathStep[] = [];
+  const token = /\.\.|\.(\*|[^.[\]]+)|\[(\*|\d+|'[^']*'|"[^"]*")\]/y;
+  let recursive = false;
+  token.lastIndex = 1;
+
+  while (token.lastIndex < pattern.length) {
+    const match = token.exec(pattern);
+    if (!match) throw invalid();
+    if (match[0] === '..') {
+      if (recursive) throw invalid();
+      recursive = true;
+      // "..name" and "..*" continue straight into the selector
+      const rest = pattern.slice(token.lastIndex);
+      if (rest !== '' && rest[0] !== '[') token.lastIndex -= 1;
+      continue;
+    }
+
+    const raw = match[1] ?? match[2];
+    const selector: PathSelector =
+      raw === '*'
+        ? { wildcard: true }
+        : /^\d+$/.test(raw) && match[2] !== undefined
+          ? { index: Number(raw) }
+          : { name: raw.replace(/^(['"])(.*)\1$/, '$2') };
+    steps.push({ selector, recursive });
+    recursive = false;
+  }
+
+  if (recursive) throw invalid();
+  return steps;
+}
+
 /**
  * Build a JSONPath string from segments.
  */
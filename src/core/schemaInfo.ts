@@ -0,0 +1,139 @@
+import type { JSONSchema } from '../types/validation';
+import { isJsonNumber } from './number';
+import { stringifyJson } from './parser';
+import { schemasAtPath, type SchemaLookupOptions } from './validator';
+
+/**
+ * What the schema says about a place in the document, for editing aids such
+ * as completion, the tree's property menu and its value pickers. These read
+ * the subschemas found by `schemasAtPath`, which may include alternatives, so
+ * the answers lean towards offering too much rather than too little.
+ */
+
+/** A property the schema declares for an object */
+export interface SchemaProperty {
+  name: string;
+  required: boolean;
+  /** Declared type, alternatives joined with " | " */
+  type?: string;
+  description?: string;
+  /** Subschemas that apply to the property's value */
+  schemas: JSONSchema[];
+}
+
+/** Properties declared for the object at `path`: required ones first, otherwise in schema order */
+export function schemaProperties(
+  schema: JSONSchema,
+  path: string,
+  options: SchemaLookupOptions = {},
+): SchemaProperty[] {
+  const objectSchemas = schemasAtPath(schema, path, options);
+  const required = new Set(objectSchemas.flatMap((s) => s.required ?? []));
+  const names = new Set(objectSchemas.flatMap((s) => Object.keys(s.properties ?? {})));
+
+  return [...names]
+    .map((name) => {
+      const schemas = schemasAtPath(schema, `${path}.${name}`, options);
+      return {
+        name,
+        required: required.has(name),
+        type: declaredType(schemas),
+        description: schemas.find((s) => s.description !== undefined)?.description,
+        schemas,
+      };
+    })
+    .sort((a, b) => Number(b.required) - Number(a.required));
+}
+
+/** The first declared `type`, alternatives joined with " | " */
+export function declaredType(schemas: JSONSchema[]): string | undefined {
+  const type = schemas.find((s) => s.type !== undefined)?.type;
+  return type === undefined ? undefined : [type].flat().join(' | ');
+}
+
+/** Annotations that describe a value rather than constrain it */
+export interface SchemaAnnotations {
+  title?: string;
+  description?: string;
+  deprecated: boolean;
+  readOnly: boolean;
+}
+
+/** The first `title` and `description`, and whether any subschema marks the value deprecated or read-only */
+export function schemaAnnotations(schemas: JSONSchema[]): SchemaAnnotations {
+  return {
+    title: schemas.find((s) => typeof s.title === 'string')?.title,
+    description: schemas.find((s) => typeof s.description === 'string')?.description,
+    deprecated: schemas.some((s) => s.deprecated === true),
+    readOnly: schemas.some((s) => s.readOnly === true),
+  };
+}
+
+/** The declared type when `value` isn't of it, otherwise `undefined` */
+export function typeMismatch(schemas: JSONSchema[], value: unknown): string | undefined {
+  const type = declaredType(schemas);
+  if (type === undefined) return undefined;
+  return type.split(' | ').some((name) => isOfType(value, name)) ? undefined : type;
+}
+
+function isOfType(value: unknown, type: string): boolean {
+  const number = isJsonNumber(value) ? value.valueOf() : value;
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(number);
+    case 'number':
+      return typeof number === 'number';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value) && !isJsonNumber(value)
+      );
+    default:
+      return typeof value === type;
+  }
+}
+
+/** Values listed by `const` and `enum`, or `undefined` when no list restricts the value */
+export function allowedValues(schemas: JSONSchema[]): unknown[] | undefined {
+  const lists = schemas.flatMap((s) =>
+    s.const !== undefined ? [[s.const]] : s.enum ? [s.enum] : [],
+  );
+  if (lists.length === 0) return undefined;
+  const seen = new Set<string>();
+  return lists.flat().filter((value) => {
+    const key = stringifyJson(value, 0);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * A starting value for a new node: its `default`, else its `const` or first
+ * `enum` value, else an empty value of its declared type ("" without one).
+ */
+export function initialValue(schemas: JSONSchema[]): unknown {
+  const withDefault = schemas.find((s) => s.default !== undefined);
+  if (withDefault) return withDefault.default;
+  const allowed = allowedValues(schemas);
+  if (allowed && allowed.length > 0) return allowed[0];
+
+  switch (declaredType(schemas)?.split(' | ')[0]) {
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'object':
+      return {};
+    case 'array':
+      return [];
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,295 @@
+import type { JsonFormat } from '../types/editor';
+import { isJsonNumberLiteral } from './number';
+
+/**
+ * Hand-written JSON tokenizer.
+ *
+ * Produces a flat list of tokens with source offsets. Malformed input never
+ * throws — bad tokens carry an `error` message so the parser can report it
+ * with an exact position, independent of the JavaScript engine.
+ *
+ * Comments are always recognised so they can be highlighted and skipped, but
+ * they carry an error in strict JSON. The JSON5 extensions (single-quoted
+ * strings, hex/Infinity/NaN numbers, extra escapes) are only accepted in
+ * `json5` mode.
+ */
+
+/** Kind of a lexical token */
+export type JsonTokenType =
+  | '{'
+  | '}'
+  | '['
+  | ']'
+  | ':'
+  | ','
+  | 'string'
+  | 'number'
+  | 'true'
+  | 'false'
+  | 'null'
+  | 'identifier'
+  | 'comment'
+  | 'invalid'
+  | 'eof';
+
+/** A lexical token with its source range */
+export interface JsonToken {
+  type: JsonTokenType;
+  /** Offset of the first character */
+  start: number;
+  /** Offset one past the last character */
+  end: number;
+  /** Decoded value for strings, numbers, literals, and identifiers */
+  value?: unknown;
+  /** Set when the token is malformed */
+  error?: string;
+  /** Offset of the offending character, when it is not the token start */
+  errorOffset?: number;
+}
+
+const PUNCTUATION = new Set(['{', '}', '[', ']', ':', ',']);
+const JSON5_NUMBER =
+  /^[+-]?(?:0[xX][0-9a-fA-F]+|(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?|Infinity|NaN)$/;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const JSON5_ESCAPES: Record<string, string> = {
+  ...ESCAPES,
+  "'": "'",
+  v: '\v',
+  '0': '\0',
+};
+
+/** Whitespace accepted by JSON5 on top of the four JSON whitespace characters */
+const JSON5_WHITESPACE = /[\v\f\u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000\ufeff]/;
+
+/**
+ * Split JSON text into tokens. The list always ends with an `eof` token.
+ */
+export function tokenize(text: string, format: JsonFormat = 'json'): JsonToken[] {
+  const tokens: JsonToken[] = [];
+  const length = text.length;
+  const json5 = format === 'json5';
+  let pos = 0;
+
+  while (pos < length) {
+    const ch = text[pos];
+
+    if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+      pos++;
+      continue;
+    }
+
+    if (json5 && JSON5_WHITESPACE.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    if (ch === '/' && (text[pos + 1] === '/' || text[pos + 1] === '*')) {
+      const token = scanComment(text, pos);
+      if (format === 'json') token.error ??= 'Comments are not allowed in JSON';
+      tokens.push(token);
+      pos = token.end;
+      continue;
+    }
+
+    if (PUNCTUATION.has(ch)) {
+      tokens.push({ type: ch as JsonTokenType, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    if (ch === '"' || (ch === "'" && json5)) {
+      const token = scanString(text, pos, json5);
+      tokens.push(token);
+      pos = token.end;
+      continue;
+    }
+
+    if (ch === '-' || ch === '+' || ch === '.' || isDigit(ch)) {
+      const token = scanNumber(text, pos, json5);
+      tokens.push(token);
+      pos = token.end;
+      continue;
+    }
+
+    if (isIdentifierStart(ch)) {
+      let end = pos + 1;
+      while (end < length && isIdentifierPart(text[end])) end++;
+      const word = text.slice(pos, end);
+      if (word === 'true' || word === 'false' || word === 'null') {
+        tokens.push({
+          type: word,
+          start: pos,
+          end,
+          value: word === 'null' ? null : word === 'true',
+        });
+      } else if (json5 && (word === 'Infinity' || word === 'NaN')) {
+        tokens.push({ type: 'number', start: pos, end, value: Number(word) });
+      } else {
+        tokens.push({ type: 'identifier', start: pos, end, value: word });
+      }
+      pos = end;
+      continue;
+    }
+
+    const codePoint = text.codePointAt(pos)!;
+    const char = String.fromCodePoint(codePoint);
+    tokens.push({
+      type: 'invalid',
+      start: pos,
+      end: pos + char.length,
+      error: `Unexpected character '${char}'`,
+    });
+    pos += char.length;
+  }
+
+  tokens.push({ type: 'eof', start: length, end: length });
+  return tokens;
+}
+
+function scanComment(text: string, start: number): JsonToken {
+  if (text[start + 1] === '/') {
+    let end = start + 2;
+    while (end < text.length && text[end] !== '\n' && text[end] !== '\r') end++;
+    return { type: 'comment', start, end };
+  }
+
+  const close = text.indexOf('*/', start + 2);
+  if (close === -1) {
+    return { type: 'comment', start, end: text.length, error: 'Unterminated comment' };
+  }
+  return { type: 'comment', start, end: close + 2 };
+}
+
+function scanString(text: string, start: number, json5: boolean): JsonToken {
+  const length = text.length;
+  const quote = text[start];
+  const escapes = json5 ? JSON5_ESCAPES : ESCAPES;
+  let pos = start + 1;
+  let value = '';
+  let chunkStart = pos;
+  let error: string | undefined;
+  let errorOffset: number | undefined;
+
+  const report = (message: string, offset: number) => {
+    if (error) return;
+    error = message;
+    errorOffset = offset;
+  };
+
+  while (pos < length) {
+    const ch = text[pos];
+
+    if (ch === quote) {
+      value += text.slice(chunkStart, pos);
+      return { type: 'string', start, end: pos + 1, value, error, errorOffset };
+    }
+
+    if (ch === '\\') {
+      value += text.slice(chunkStart, pos);
+      const next = text[pos + 1];
+      if (next === 'u') {
+        const hex = text.slice(pos + 2, pos + 6);
+        if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+        } else {
+          report('Bad Unicode escape in string', pos);
+          pos += 2;
+        }
+      } else if (json5 && next === 'x') {
+        const hex = text.slice(pos + 2, pos + 4);
+        if (/^[0-9a-fA-F]{2}$/.test(hex)) {
+          value += String.fromCharCode(parseInt(hex, 16));
+          pos += 4;
+        } else {
+          report('Bad hex escape in string', pos);
+          pos += 2;
+        }
+      } else if (
+        json5 &&
+        (next === '\n' || next === '\r' || next === '\u2028' || next === '\u2029')
+      ) {
+        // Line continuation
+        pos += next === '\r' && text[pos + 2] === '\n' ? 3 : 2;
+      } else if (next !== undefined && next in escapes) {
+        if (next === '0' && isDigit(text[pos + 2] ?? '')) {
+          report('Octal escapes are not allowed in strings', pos);
+        }
+        value += escapes[next];
+        pos += 2;
+      } else if (json5 && next !== undefined && !isDigit(next)) {
+        // JSON5 lets any other non-digit character escape to itself
+        value += next;
+        pos += 2;
+      } else {
+        report('Bad escaped character in string', pos);
+        pos += next === undefined ? 1 : 2;
+      }
+      chunkStart = pos;
+      continue;
+    }
+
+    if (ch === '\n' || ch === '\r') {
+      // A raw line break almost always means the closing quote is missing
+      break;
+    }
+
+    if (ch < ' ' && !json5) {
+      report('Bad control character in string literal', pos);
+    }
+
+    pos++;
+  }
+
+  return {
+    type: 'string',
+    start,
+    end: pos,
+    value: value + text.slice(chunkStart, pos),
+    error: 'Unterminated string',
+  };
+}
+
+function scanNumber(text: string, start: number, json5: boolean): JsonToken {
+  let end = start;
+  while (end < text.length && /[0-9a-zA-Z.+-]/.test(text[end])) end++;
+  const raw = text.slice(start, end);
+
+  if (!(json5 ? JSON5_NUMBER.test(raw) : isJsonNumberLiteral(raw))) {
+    return { type: 'number', start, end, value: Number(raw), error: `Invalid number '${raw}'` };
+  }
+
+  // Number() rejects signed hex literals, so apply the sign separately
+  const sign = raw[0] === '-' ? -1 : 1;
+  const unsigned = raw[0] === '-' || raw[0] === '+' ? raw.slice(1) : raw;
+  return { type: 'number', start, end, value: sign * Number(unsigned) };
+}
+
+function isDigit(ch: string): boolean {
+  return ch >= '0' && ch <= '9';
+}
+
+function isIdentifierStart(ch: string): boolean {
+  return (
+    (ch >= 'a' && ch <= 'z') ||
+    (ch >= 'A' && ch <= 'Z') ||
+    ch === '_' ||
+    ch === '$' ||
+    (ch > '\x7f' && /[\p{L}\p{Nl}]/u.test(ch))
+  );
+}
+
+function isIdentifierPart(ch: string): boolean {
+  return isIdentifierStart(ch) || isDigit(ch);
+}
@@ -3,26 +3,104 @@ import type {
   ValidationResult,
   JSONSchema,
   CustomValidator,
+  ValidatorEntry,
   ValidationSeverity,
+  SchemaDialect,
+  FormatChecker,
+  FormatMode,
+  ErrorMessageSpec,
 } from '../types/validation';
+import type { DuplicateKey, NodeLocation } from '../types/editor';
+import { builtinFormats } from './formats';
+import { isJsonNumber } from './number';
+import { getLineColFromOffset } from './parser';
+import { getParentPath, parsePath, queryPath } from './path';
+import { englishValidationMessages } from '../i18n/en';
+import { formatMessage, localizeErrors } from '../i18n/format';
+import type { MessageParams, ValidationMessages } from '../i18n/types';
+
+/** Options for validateSchema */
+export interface ValidateOptions {
+  /**
+   * Schemas that `$ref` may point to, keyed by URI. Schemas with an `$id`
+   * are also reachable by that id. Nothing is ever fetched over the network.
+   */
+  schemas?: Record<string, JSONSchema>;
+  /** Keyword set to apply; by default it is taken from the root `$schema` (else 2020-12) */
+  dialect?: SchemaDialect;
+  /** Extra `format` checkers by name; these override built-in formats of the same name */
+  formats?: Record<string, FormatChecker>;
+  /** Report format mismatches as errors (default) or as warnings */
+  formatMode?: FormatMode;
+  /** Translations of the built-in messages, keyed by schema keyword */
+  messages?: ValidationMessages;
+}
 
 /**
- * Validate a parsed JSON value against a JSON Schema (Draft-07 compatible subset).
- * This is a built-in lightweight validator — for full draft support, users can
- * supply an Ajv-based CustomValidator.
+ * Validate a parsed JSON value against a JSON Schema. Draft-07, 2019-09 and
+ * 2020-12 are supported; the dialect is detected from the root `$schema`.
+ * `format` is checked against the built-in and custom formats; in annotation
+ * mode mismatches are warnings, which don't make the result invalid.
+ * Schemas may carry ajv-errors style `errorMessage` overrides.
+ * `$dynamicRef` and remote fetching are out of scope — users who need them
+ * can supply an Ajv-based CustomValidator.
  */
 export function validateSchema(
   value: unknown,
   schema: JSONSchema,
   path: string = '$',
+  options: ValidateOptions = {},
 ): ValidationResult {
+  const raw = validateNode(value, schema, path, createScope(schema, options));
+  const errors = options.messages ? localizeErrors(raw, options.messages) : raw;
+  return { valid: passes(errors), errors };
+}
+
+function validateNode(
+  value: unknown,
+  schema: JSONSchema,
+  path: string,
+  scope: Scope,
+  evaluated?: Evaluated,
+): ValidationError[] {
+  const errors = validateKeywords(value, schema, path, scope, evaluated);
+  return schema.errorMessage === undefined || errors.length === 0
+    ? errors
+    : applyErrorMessage(errors, schema.errorMessage, path);
+}
+
+function validateKeywords(
+  input: unknown,
+  schema: JSONSchema,
+  path: string,
+  outer: Scope,
+  evaluated: Evaluated = createEvaluated(),
+): ValidationError[] {
   const errors: ValidationError[] = [];
+  // Lossless numbers are checked by their nearest JavaScript value
+  const value = isJsonNumber(input) ? input.valueOf() : input;
+  const scope = typeof schema.$id === 'string' ? enterResource(outer, schema.$id) : outer;
 
-  if (value === undefined || value === null) {
+  const { dialect } = scope.context;
+
+  if (typeof schema.$ref === 'string') {
+    errors.push(...validateRef(value, schema.$ref, path, scope, evaluated));
+    // Before 2019-09, keywords next to $ref are ignored
+    if (dialect === 'draft-07') return errors;
+  }
+
+  if (value === undefined) {
     if (schema.type && schema.type !== 'null') {
-      errors.push(makeError(`Expected type "${schema.type}", got null`, path, 'type', schema.type));
+      errors.push(
+        makeError(
+          'type',
+          { expected: [schema.type].flat().join(' | '), actual: 'null' },
+          path,
+          schema.type,
+        ),
+      );
     }
-    return { valid: errors.length === 0, errors };
+    return errors;
   }
 
   // Type validation
@@ -36,9 +114,9 @@ export function validateSchema(
     if (!typeMatches) {
       errors.push(
         makeError(
-          `Expected type "${allowedTypes.join(' | ')}", got "${actualType}"`,
-          path,
           'type',
+          { expected: allowedTypes.join(' | '), actual: actualType },
+          path,
           schema.type,
           value,
         ),
@@ -51,9 +129,9 @@ export function validateSchema(
     if (!schema.enum.some((e) => deepEqual(e, value))) {
       errors.push(
         makeError(
-          `Value must be one of: ${schema.enum.map((e) => JSON.stringify(e)).join(', ')}`,
-          path,
           'enum',
+          { allowed: schema.enum.map((e) => JSON.stringify(e)).join(', ') },
+          path,
           schema.enum,
           value,
         ),
@@ -61,14 +139,20 @@ export function validateSchema(
     }
   }
 
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push(
+      makeError('const', { expected: JSON.stringify(schema.const) }, path, schema.const, value),
+    );
+  }
+
   // String validations
   if (typeof value === 'string') {
     if (schema.minLength !== undefined && value.length < (schema.minLength as number)) {
       errors.push(
         makeError(
-          `String must be at least ${schema.minLength} characters`,
-          path,
           'minLength',
+          { limit: schema.minLength as number },
+          path,
           schema.minLength,
           value,
         ),
@@ -77,48 +161,59 @@ export function validateSchema(
     if (schema.maxLength !== undefined && value.length > (schema.maxLength as number)) {
       errors.push(
         makeError(
-          `String must be at most ${schema.maxLength} characters`,
-          path,
           'maxLength',
+          { limit: schema.maxLength as number },
+          path,
           schema.maxLength,
           value,
         ),
       );
     }
     if (schema.pattern) {
-      const re = new RegExp(schema.pattern as string);
-      if (!re.test(value)) {
+      const re = compilePattern(schema.pattern as string);
+      if (!re) {
+        errors.push(invalidPattern(schema.pattern as string, path));
+      } else if (!re.test(value)) {
         errors.push(
-          makeError(
-            `String must match pattern "${schema.pattern}"`,
-            path,
-            'pattern',
-            schema.pattern,
-            value,
-          ),
+          makeError('pattern', { pattern: schema.pattern as string }, path, schema.pattern, value),
         );
       }
     }
+    // Unknown formats are ignored, as the spec requires
+    const checkFormat =
+      typeof schema.format === 'string' ? scope.context.formats[schema.format] : undefined;
+    if (checkFormat && !checkFormat(value)) {
+      errors.push(
+        makeError(
+          'format',
+          { format: schema.format as string },
+          path,
+          schema.format,
+          value,
+          scope.context.formatMode === 'annotation' ? 'warning' : 'error',
+        ),
+      );
+    }
   }
 
   // Number validations
   if (typeof value === 'number') {
     if (schema.minimum !== undefined && value < (schema.minimum as number)) {
       errors.push(
-        makeError(`Value must be >= ${schema.minimum}`, path, 'minimum', schema.minimum, value),
+        makeError('minimum', { limit: schema.minimum as number }, path, schema.minimum, value),
       );
     }
     if (schema.maximum !== undefined && value > (schema.maximum as number)) {
       errors.push(
-        makeError(`Value must be <= ${schema.maximum}`, path, 'maximum', schema.maximum, value),
+        makeError('maximum', { limit: schema.maximum as number }, path, schema.maximum, value),
       );
     }
     if (schema.exclusiveMinimum !== undefined && value <= (schema.exclusiveMinimum as number)) {
       errors.push(
         makeError(
-          `Value must be > ${schema.exclusiveMinimum}`,
-          path,
           'exclusiveMinimum',
+          { limit: schema.exclusiveMinimum as number },
+          path,
           schema.exclusiveMinimum,
           value,
         ),
@@ -127,9 +222,9 @@ export function validateSchema(
     if (schema.exclusiveMaximum !== undefined && value >= (schema.exclusiveMaximum as number)) {
       errors.push(
         makeError(
-          `Value must be < ${schema.exclusiveMaximum}`,
-          path,
           'exclusiveMaximum',
+          { limit: schema.exclusiveMaximum as number },
+          path,
           schema.exclusiveMaximum,
           value,
         ),
@@ -138,9 +233,9 @@ export function validateSchema(
     if (schema.multipleOf !== undefined && value % (schema.multipleOf as number) !== 0) {
       errors.push(
         makeError(
-          `Value must be a multiple of ${schema.multipleOf}`,
-          path,
           'multipleOf',
+          { multipleOf: schema.multipleOf as number },
+          path,
           schema.multipleOf,
           value,
         ),
@@ -152,39 +247,18 @@ export function validateSchema(
   if (Array.isArray(value)) {
     if (schema.minItems !== undefined && value.length < (schema.minItems as number)) {
       errors.push(
-        makeError(
-          `Array must have at least ${schema.minItems} items`,
-          path,
-          'minItems',
-          schema.minItems,
-          value,
-        ),
+        makeError('minItems', { limit: schema.minItems as number }, path, schema.minItems, value),
       );
     }
     if (schema.maxItems !== undefined && value.length > (schema.maxItems as number)) {
       errors.push(
-        makeError(
-          `Array must have at most ${schema.maxItems} items`,
-          path,
-          'maxItems',
-          schema.maxItems,
-          value,
-        ),
+        makeError('maxItems', { limit: schema.maxItems as number }, path, schema.maxItems, value),
       );
     }
-    if (
-      schema.uniqueItems &&
-      new Set(value.map((v: unknown) => JSON.stringify(v))).size !== value.length
-    ) {
-      errors.push(makeError('Array items must be unique', path, 'uniqueItems', true, value));
-    }
-    // Validate items against item schema
-    if (schema.items && !Array.isArray(schema.items)) {
-      value.forEach((item, index) => {
-        const result = validateSchema(item, schema.items as JSONSchema, `${path}[${index}]`);
-        errors.push(...result.errors);
-      });
+    if (schema.uniqueItems && new Set(value.map(canonicalJson)).size !== value.length) {
+      errors.push(makeError('uniqueItems', {}, path, true, value));
     }
+    errors.push(...validateItems(value, schema, path, scope, evaluated));
   }
 
   // Object validations
@@ -194,10 +268,8 @@ export function validateSchema(
 
     if (schema.required && Array.isArray(schema.required)) {
       for (const req of schema.required as string[]) {
-        if (!(req in obj)) {
-          errors.push(
-            makeError(`Missing required property "${req}"`, path, 'required', schema.required),
-          );
+        if (!hasOwn(obj, req)) {
+          errors.push(makeError('required', { property: req }, path, schema.required));
         }
       }
     }
@@ -205,9 +277,9 @@ export function validateSchema(
     if (schema.minProperties !== undefined && keys.length < (schema.minProperties as number)) {
       errors.push(
         makeError(
-          `Object must have at least ${schema.minProperties} properties`,
-          path,
           'minProperties',
+          { limit: schema.minProperties as number },
+          path,
           schema.minProperties,
           value,
         ),
@@ -217,50 +289,1012 @@ export function validateSchema(
     if (schema.maxProperties !== undefined && keys.length > (schema.maxProperties as number)) {
       errors.push(
         makeError(
-          `Object must have at most ${schema.maxProperties} properties`,
-          path,
           'maxProperties',
+          { limit: schema.maxProperties as number },
+          path,
           schema.maxProperties,
           value,
         ),
       );
     }
 
-    // Validate each property
-    if (schema.properties) {
-      const props = schema.properties as Record<string, JSONSchema>;
-      for (const key of keys) {
-        if (props[key]) {
-          const result = validateSchema(obj[key], props[key], `${path}.${key}`);
-          errors.push(...result.errors);
-        } else if (schema.additionalProperties === false) {
+    errors.push(...validateProperties(obj, schema, path, scope, evaluated));
+  }
+
+  errors.push(...validateComposition(value, schema, path, scope, evaluated));
+
+  // unevaluated* see everything the keywords above (and in-place subschemas) looked at
+  if (dialect !== 'draft-07') {
+    errors.push(...validateUnevaluated(value, schema, path, scope, evaluated));
+  }
+
+  return errors;
+}
+
+/**
+ * Apply the array applicators: prefixItems / items (or tuple items and
+ * additionalItems before 2020-12) and contains.
+ */
+function validateItems(
+  value: unknown[],
+  schema: JSONSchema,
+  path: string,
+  scope: Scope,
+  evaluated: Evaluated,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const { dialect } = scope.context;
+  const itemPath = (i: number) => `${path}[${i}]`;
+
+  // 2020-12 renamed tuple `items` to prefixItems and `additionalItems` to items
+  let tuple: unknown;
+  let rest: unknown;
+  let restKeyword = 'items';
+  if (dialect === '2020-12') {
+    tuple = schema.prefixItems;
+    rest = schema.items;
+  } else if (Array.isArray(schema.items)) {
+    tuple = schema.items;
+    rest = schema.additionalItems;
+    restKeyword = 'additionalItems';
+  } else {
+    rest = schema.items;
+  }
+
+  let tupleLength = 0;
+  if (Array.isArray(tuple)) {
+    tupleLength = Math.min(tuple.length, value.length);
+    for (let i = 0; i < tupleLength; i++) {
+      errors.push(...validateSubschema(value[i], tuple[i], itemPath(i), scope));
+      evaluated.items.add(i);
+    }
+  }
+
+  if (rest !== undefined && !Array.isArray(rest)) {
+    for (let i = tupleLength; i < value.length; i++) {
+      if (rest === false) {
+        errors.push(makeError(restKeyword, {}, itemPath(i), false, value[i]));
+      } else {
+        errors.push(
+          ...validateSubschema(value[i], rest as JSONSchema | boolean, itemPath(i), scope),
+        );
+      }
+      evaluated.items.add(i);
+    }
+  }
+
+  if (schema.contains !== undefined) {
+    const contains = schema.contains as JSONSchema | boolean;
+    const matches = value.flatMap((item, i) =>
+      passes(validateSubschema(item, contains, itemPath(i), scope)) ? [i] : [],
+    );
+    // Since 2020-12, matched items count as evaluated
+    if (dialect === '2020-12') matches.forEach((i) => evaluated.items.add(i));
+
+    const usesBounds = dialect !== 'draft-07';
+    const min = usesBounds && typeof schema.minContains === 'number' ? schema.minContains : 1;
+    const max =
+      usesBounds && typeof schema.maxContains === 'number' ? schema.maxContains : Infinity;
+    if (matches.length < min) {
+      errors.push(
+        makeError(
+          min === 1 && schema.minContains === undefined ? 'contains' : 'minContains',
+          { limit: min },
+          path,
+          min === 1 && schema.minContains === undefined ? schema.contains : schema.minContains,
+          value,
+        ),
+      );
+    }
+    if (matches.length > max) {
+      errors.push(makeError('maxContains', { limit: max }, path, schema.maxContains, value));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Apply the object applicators: properties, patternProperties,
+ * additionalProperties, propertyNames, and the dependency keywords.
+ */
+function validateProperties(
+  obj: Record<string, unknown>,
+  schema: JSONSchema,
+  path: string,
+  scope: Scope,
+  evaluated: Evaluated,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const { dialect } = scope.context;
+  const props = isPlainObject(schema.properties)
+    ? (schema.properties as Record<string, JSONSchema | boolean>)
+    : {};
+  const patterns: [RegExp, JSONSchema | boolean][] = [];
+  if (isPlainObject(schema.patternProperties)) {
+    for (const [pattern, sub] of Object.entries(
+      schema.patternProperties as Record<string, JSONSchema | boolean>,
+    )) {
+      const re = compilePattern(pattern);
+      if (re) patterns.push([re, sub]);
+      else errors.push(invalidPattern(pattern, path));
+    }
+  }
+
+  for (const key of Object.keys(obj)) {
+    const keyPath = `${path}.${key}`;
+    let matched = false;
+
+    if (hasOwn(props, key)) {
+      matched = true;
+      errors.push(...validateSubschema(obj[key], props[key], keyPath, scope));
+    }
+    for (const [re, sub] of patterns) {
+      if (re.test(key)) {
+        matched = true;
+        errors.push(...validateSubschema(obj[key], sub, keyPath, scope));
+      }
+    }
+
+    if (matched) {
+      evaluated.properties.add(key);
+    } else if (schema.additionalProperties === false) {
+      errors.push(makeError('additionalProperties', { property: key }, keyPath, false, obj[key]));
+      evaluated.properties.add(key);
+    } else if (schema.additionalProperties !== undefined) {
+      const additional = schema.additionalProperties as JSONSchema | boolean;
+      errors.push(...validateSubschema(obj[key], additional, keyPath, scope));
+      evaluated.properties.add(key);
+    }
+
+    if (schema.propertyNames !== undefined) {
+      const causes = validateSubschema(
+        key,
+        schema.propertyNames as JSONSchema | boolean,
+        keyPath,
+        scope,
+      );
+      if (!passes(causes)) {
+        errors.push({
+          ...makeError('propertyNames', { property: key }, keyPath, schema.propertyNames, key),
+          causes,
+        });
+      }
+    }
+  }
+
+  // Draft-07 `dependencies` covers both dependentRequired and dependentSchemas
+  const dependencies =
+    dialect === 'draft-07'
+      ? (schema.dependencies as Record<string, unknown> | undefined)
+      : { ...(schema.dependentRequired as object), ...(schema.dependentSchemas as object) };
+
+  for (const [trigger, dependency] of Object.entries(dependencies ?? {})) {
+    if (!hasOwn(obj, trigger)) continue;
+    if (Array.isArray(dependency)) {
+      for (const req of dependency as string[]) {
+        if (!hasOwn(obj, req)) {
           errors.push(
             makeError(
-              `Unexpected property "${key}"`,
-              `${path}.${key}`,
-              'additionalProperties',
-              false,
-              obj[key],
+              dialect === 'draft-07' ? 'dependencies' : 'dependentRequired',
+              { property: req, trigger },
+              path,
+              dependency,
             ),
           );
         }
       }
+    } else {
+      errors.push(
+        ...validateSubschema(obj, dependency as JSONSchema | boolean, path, scope, evaluated),
+      );
+    }
+  }
+
+  return errors;
+}
+
+/** Apply unevaluatedProperties / unevaluatedItems to whatever nothing else evaluated */
+function validateUnevaluated(
+  value: unknown,
+  schema: JSONSchema,
+  path: string,
+  scope: Scope,
+  evaluated: Evaluated,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (schema.unevaluatedProperties !== undefined && isPlainObject(value)) {
+    const sub = schema.unevaluatedProperties as JSONSchema | boolean;
+    for (const key of Object.keys(value)) {
+      if (evaluated.properties.has(key)) continue;
+      const keyPath = `${path}.${key}`;
+      if (sub === false) {
+        errors.push(
+          makeError('unevaluatedProperties', { property: key }, keyPath, false, value[key]),
+        );
+      } else {
+        errors.push(...validateSubschema(value[key], sub, keyPath, scope));
+      }
+      evaluated.properties.add(key);
+    }
+  }
+
+  if (schema.unevaluatedItems !== undefined && Array.isArray(value)) {
+    const sub = schema.unevaluatedItems as JSONSchema | boolean;
+    value.forEach((item, i) => {
+      if (evaluated.items.has(i)) return;
+      const itemPath = `${path}[${i}]`;
+      if (sub === false) {
+        errors.push(makeError('unevaluatedItems', {}, itemPath, false, item));
+      } else {
+        errors.push(...validateSubschema(item, sub, itemPath, scope));
+      }
+      evaluated.items.add(i);
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Apply allOf / anyOf / oneOf / not / if-then-else. Failed alternatives are
+ * summarised in one error that carries the closest branch's errors as `causes`.
+ */
+function validateComposition(
+  value: unknown,
+  schema: JSONSchema,
+  path: string,
+  scope: Scope,
+  evaluated: Evaluated,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) {
+      errors.push(...validateSubschema(value, sub, path, scope, evaluated));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const results = schema.anyOf.map((sub) =>
+      validateSubschema(value, sub, path, scope, evaluated),
+    );
+    if (!results.some(passes)) {
+      errors.push({
+        ...makeError('anyOf', { count: results.length }, path, schema.anyOf, value),
+        causes: results[closestBranch(results, path)],
+      });
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const results = schema.oneOf.map((sub) =>
+      validateSubschema(value, sub, path, scope, evaluated),
+    );
+    const matched = results.flatMap((r, i) => (passes(r) ? [i] : []));
+    if (matched.length === 0) {
+      errors.push({
+        ...makeError('oneOf', { count: results.length, matchCount: 0 }, path, schema.oneOf, value),
+        causes: results[closestBranch(results, path)],
+      });
+    } else if (matched.length > 1) {
+      errors.push(
+        makeError(
+          'oneOf',
+          {
+            count: results.length,
+            matchCount: matched.length,
+            matches: matched.map((i) => `#${i + 1}`).join(', '),
+          },
+          path,
+          schema.oneOf,
+          value,
+        ),
+      );
+    }
+  }
+
+  if (schema.not !== undefined && passes(validateSubschema(value, schema.not, path, scope))) {
+    errors.push(makeError('not', {}, path, schema.not, value));
+  }
+
+  if (schema.if !== undefined) {
+    const matchesIf = passes(validateSubschema(value, schema.if, path, scope, evaluated));
+    const branch = matchesIf ? schema.then : schema.else;
+    if (branch !== undefined) {
+      errors.push(...validateSubschema(value, branch, path, scope, evaluated));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate against a subschema in place. When `evaluated` is given, the
+ * properties and items the subschema looked at are added to it — but only
+ * if it passed, since failed subschemas produce no annotations.
+ */
+function validateSubschema(
+  value: unknown,
+  schema: JSONSchema | boolean,
+  path: string,
+  scope: Scope,
+  evaluated?: Evaluated,
+): ValidationError[] {
+  if (schema === true) return [];
+  if (schema === false) {
+    return [makeError('false', {}, path, false, value)];
+  }
+  if (!evaluated) return validateNode(value, schema, path, scope);
+
+  const branch = createEvaluated();
+  const errors = validateNode(value, schema, path, scope, branch);
+  if (passes(errors)) {
+    branch.properties.forEach((key) => evaluated.properties.add(key));
+    branch.items.forEach((i) => evaluated.items.add(i));
+  }
+  return errors;
+}
+
+/** Properties and items a schema has evaluated, consulted by unevaluated* */
+interface Evaluated {
+  properties: Set<string>;
+  items: Set<number>;
+}
+
+function createEvaluated(): Evaluated {
+  return { properties: new Set(), items: new Set() };
+}
+
+// --- Schema lookup ---
+
+/** Options for schemasAtPath */
+export interface SchemaLookupOptions extends Pick<ValidateOptions, 'schemas' | 'dialect'> {
+  /** The document being edited, used to narrow conditional and alternative branches */
+  document?: unknown;
+  /**
+   * What to do with `anyOf`/`oneOf` branches the document doesn't decide
+   * between: keep them all (default) or only the first. With "first", an
+   * undecided `if` contributes neither `then` nor `else`.
+   */
+  branches?: 'all' | 'first';
+}
+
+/**
+ * Find the subschemas that describe the node at `path`, following
+ * `properties`, `patternProperties`, `additionalProperties`, the item
+ * keywords, `$ref`, `allOf`, `anyOf`/`oneOf` and `if`/`then`/`else`. Meant for
+ * editor hints rather than validation: when `document` is given, branches are
+ * narrowed to those the current value matches (or, failing that, matches but
+ * for missing required properties), otherwise all are returned (or just the
+ * first, with `branches: 'first'`).
+ */
+export function schemasAtPath(
+  schema: JSONSchema,
+  path: string,
+  options: SchemaLookupOptions = {},
+): JSONSchema[] {
+  const scope = createScope(schema, options);
+  const firstOnly = options.branches === 'first';
+  let value = options.document;
+  let currentPath = '$';
+  let current = applicableSchemas(schema, scope, value, currentPath, firstOnly);
+
+  for (const segment of parsePath(path)) {
+    if (current.length === 0) break;
+    // Without a value to tell, a numeric segment may be an index or a property name
+    const index = /^\d+$/.test(segment) && !isPlainObject(value) ? Number(segment) : undefined;
+    const key = Array.isArray(value) ? undefined : segment;
+    currentPath = key === undefined ? `${currentPath}[${index}]` : `${currentPath}.${segment}`;
+    value =
+      isPlainObject(value) || Array.isArray(value)
+        ? (value as Record<string, unknown>)[segment]
+        : undefined;
+    const parents = current;
+    current = parents.flatMap((parent) =>
+      childSchemas(parent.schema, key, index).flatMap((child) =>
+        applicableSchemas(child, parent.scope, value, currentPath, firstOnly),
+      ),
+    );
+  }
+  return current.map((entry) => entry.schema);
+}
+
+interface ScopedSchema {
+  schema: JSONSchema;
+  scope: Scope;
+}
+
+/** A schema plus everything it pulls in at the same location */
+function applicableSchemas(
+  schema: JSONSchema | boolean | undefined,
+  outer: Scope,
+  value: unknown,
+  path: string,
+  firstOnly: boolean,
+  seen: Set<JSONSchema> = new Set(),
+): ScopedSchema[] {
+  if (!isPlainObject(schema) || seen.has(schema)) return [];
+  seen.add(schema);
+  const scope = typeof schema.$id === 'string' ? enterResource(outer, schema.$id) : outer;
+  const result: ScopedSchema[] = [{ schema, scope }];
+  const include = (sub: JSONSchema | boolean | undefined, subScope: Scope = scope) =>
+    result.push(...applicableSchemas(sub, subScope, value, path, firstOnly, seen));
+  const matches = (sub: JSONSchema | boolean) =>
+    value !== undefined && passes(validateSubschema(value, sub, path, scope));
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(scope.context, resolveUri(schema.$ref, scope.base), schema.$ref);
+    if (target) include(target.schema, { ...scope, base: target.base });
+  }
+  schema.allOf?.forEach((sub) => include(sub));
+  for (const branches of [schema.anyOf, schema.oneOf]) {
+    if (!branches) continue;
+    const results = branches.map((sub) =>
+      value === undefined ? [] : validateSubschema(value, sub, path, scope),
+    );
+    const matching = branches.filter((_, i) => value !== undefined && passes(results[i]));
+    // A half-written value still picks out the branches it only lacks required properties for
+    const incomplete = branches.filter(
+      (_, i) =>
+        value !== undefined &&
+        results[i].every((e) => e.severity !== 'error' || e.schemaKeyword === 'required'),
+    );
+    const candidates =
+      matching.length > 0 ? matching : incomplete.length > 0 ? incomplete : branches;
+    (firstOnly ? candidates.slice(0, 1) : candidates).forEach((sub) => include(sub));
+  }
+  if (schema.if !== undefined) {
+    const verdict = value === undefined ? undefined : matches(schema.if);
+    if (verdict === true || (verdict === undefined && !firstOnly)) include(schema.then);
+    if (verdict === false || (verdict === undefined && !firstOnly)) include(schema.else);
+  }
+  return result;
+}
+
+/** Subschemas a property (`key`) or item (`index`) of a schema's instance is checked against */
+function childSchemas(
+  schema: JSONSchema,
+  key: string | undefined,
+  index: number | undefined,
+): (JSONSchema | boolean)[] {
+  const children: (JSONSchema | boolean)[] = [];
+
+  if (key !== undefined) {
+    if (schema.properties && hasOwn(schema.properties, key)) children.push(schema.properties[key]);
+    for (const [pattern, sub] of Object.entries(schema.patternProperties ?? {})) {
+      if (patternMatches(pattern, key)) children.push(sub);
+    }
+    if (children.length === 0 && schema.additionalProperties !== undefined) {
+      children.push(schema.additionalProperties);
+    }
+  }
+
+  if (index !== undefined) {
+    const { items, prefixItems } = schema;
+    if (Array.isArray(items)) {
+      const item = index < items.length ? items[index] : schema.additionalItems;
+      if (item !== undefined) children.push(item);
+    } else if (prefixItems && index < prefixItems.length) {
+      children.push(prefixItems[index]);
+    } else if (items !== undefined) {
+      children.push(items);
+    }
+  }
+  return children;
+}
+
+/** Test a schema pattern, treating one that doesn't compile as no match */
+function patternMatches(pattern: string, text: string): boolean {
+  return compilePattern(pattern)?.test(text) ?? false;
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * A schema pattern as a regular expression, or null when it doesn't compile.
+ * Patterns are Unicode-aware (`\p{L}` works) and compiled once.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  let re = compiledPatterns.get(pattern);
+  if (re === undefined) {
+    try {
+      re = new RegExp(pattern, 'u');
+    } catch {
+      re = null;
+    }
+    compiledPatterns.set(pattern, re);
+  }
+  return re;
+}
+
+function invalidPattern(pattern: string, path: string): ValidationError {
+  return makeError('invalidPattern', { pattern }, path, pattern);
+}
+
+// --- errorMessage (ajv-errors style) ---
+
+/**
+ * Replace errors raised under a schema with its `errorMessage`. Errors that
+ * share a message are merged into one, placed where the first of them was;
+ * the originals are kept as `causes`. Messages may use the `{param}`
+ * placeholders of the error they replace, e.g. "At least {limit} please".
+ */
+function applyErrorMessage(
+  errors: ValidationError[],
+  spec: ErrorMessageSpec,
+  path: string,
+): ValidationError[] {
+  if (typeof spec === 'string') return [customMessageError(spec, path, errors, spec)];
+
+  const groups = new Map<string, ValidationError[]>();
+  const output: (ValidationError | { group: string; message: string; path: string })[] = [];
+
+  for (const error of errors) {
+    const target =
+      errorMessageTarget(spec, path, error) ??
+      (typeof spec._ === 'string' ? { message: spec._, path } : null);
+    if (!target) {
+      output.push(error);
+      continue;
+    }
+    const group = `${target.path}\u0000${target.message}`;
+    if (!groups.has(group)) {
+      groups.set(group, []);
+      output.push({ group, ...target });
+    }
+    groups.get(group)!.push(error);
+  }
+
+  return output.map((entry) =>
+    'group' in entry
+      ? customMessageError(entry.message, entry.path, groups.get(entry.group)!, spec)
+      : entry,
+  );
+}
+
+/** The message and position an error is replaced with, if the spec covers it */
+function errorMessageTarget(
+  spec: Exclude<ErrorMessageSpec, string>,
+  path: string,
+  error: ValidationError,
+): { message: string; path: string } | null {
+  const keyword = error.schemaKeyword;
+  if (error.path === path && keyword !== undefined && keyword !== '_') {
+    const entry = spec[keyword];
+    if (typeof entry === 'string') return { message: entry, path };
+    if (keyword === 'required' && isPlainObject(entry)) {
+      const message = entry[String(error.params?.property)];
+      if (typeof message === 'string') return { message, path };
+    }
+  }
+
+  const children: [string, string][] = [
+    ...Object.entries(spec.properties ?? {}).map(([key, message]): [string, string] => [
+      `${path}.${key}`,
+      message,
+    ]),
+    ...(Array.isArray(spec.items) ? spec.items : []).map((message, i): [string, string] => [
+      `${path}[${i}]`,
+      message,
+    ]),
+  ];
+  for (const [childPath, message] of children) {
+    if (error.path === childPath || isDescendantPath(error.path, childPath)) {
+      return { message, path: childPath };
+    }
+  }
+  return null;
+}
+
+function customMessageError(
+  message: string,
+  path: string,
+  causes: ValidationError[],
+  spec: ErrorMessageSpec,
+): ValidationError {
+  return {
+    message: formatMessage(message, causes[0].params),
+    path,
+    severity: worstSeverity(causes),
+    schemaKeyword: 'errorMessage',
+    schemaRule: spec,
+    actualValue: causes[0].path === path ? causes[0].actualValue : undefined,
+    causes,
+  };
+}
+
+function isDescendantPath(path: string, ancestor: string): boolean {
+  return path.startsWith(`${ancestor}.`) || path.startsWith(`${ancestor}[`);
+}
+
+// --- $ref resolution ---
+
+/** State shared by a whole validateSchema call */
+interface ValidationContext {
+  /** Keyword set in effect */
+  dialect: SchemaDialect;
+  formats: Record<string, FormatChecker>;
+  formatMode: FormatMode;
+  /** Schema resources by absolute URI (without fragment) */
+  resources: Map<string, JSONSchema>;
+  /** `$anchor` targets by URI including the fragment */
+  anchors: Map<string, JSONSchema>;
+  /** `$ref` evaluations in progress, to stop cycles that never consume data */
+  active: Set<string>;
+}
+
+/** Where a schema sits: the shared context plus the base URI for relative refs */
+interface Scope {
+  context: ValidationContext;
+  base: string;
+}
+
+function createScope(root: JSONSchema, options: ValidateOptions): Scope {
+  const context: ValidationContext = {
+    dialect: options.dialect ?? detectDialect(root.$schema),
+    formats: { ...builtinFormats, ...options.formats },
+    formatMode: options.formatMode ?? 'assertion',
+    resources: new Map(),
+    anchors: new Map(),
+    active: new Set(),
+  };
+  for (const [uri, schema] of Object.entries(options.schemas ?? {})) {
+    context.resources.set(uri, schema);
+    registerResources(context, schema, uri);
+  }
+  // The root document lives at '' unless it declares an $id
+  context.resources.set('', root);
+  registerResources(context, root, '');
+  return { context, base: typeof root.$id === 'string' ? resolveUri(root.$id, '') : '' };
+}
+
+/** Index every embedded `$id` and `$anchor` below a schema */
+function registerResources(context: ValidationContext, node: unknown, base: string): void {
+  if (Array.isArray(node)) {
+    for (const item of node) registerResources(context, item, base);
+    return;
+  }
+  if (!isPlainObject(node)) return;
+
+  let current = base;
+  if (typeof node.$id === 'string') {
+    if (node.$id.startsWith('#')) {
+      // Draft-07 style plain-name fragment
+      context.anchors.set(stripFragment(base) + node.$id, node);
+    } else {
+      current = resolveUri(node.$id, base);
+      context.resources.set(stripFragment(current), node);
     }
   }
+  if (typeof node.$anchor === 'string') {
+    context.anchors.set(`${stripFragment(current)}#${node.$anchor}`, node);
+  }
+  for (const [key, child] of Object.entries(node)) {
+    if (key !== 'enum' && key !== 'const') registerResources(context, child, current);
+  }
+}
+
+function enterResource(scope: Scope, id: string): Scope {
+  if (id.startsWith('#')) return scope;
+  return { ...scope, base: resolveUri(id, scope.base) };
+}
+
+function validateRef(
+  value: unknown,
+  ref: string,
+  path: string,
+  scope: Scope,
+  evaluated: Evaluated,
+): ValidationError[] {
+  const uri = resolveUri(ref, scope.base);
+  const target = resolveRef(scope.context, uri, ref);
+  if (!target) {
+    return [makeError('$ref', { ref, reason: 'unresolved' }, path, ref, value)];
+  }
 
-  return { valid: errors.length === 0, errors };
+  // Re-entering the same reference at the same place would never terminate
+  const key = `${uri}\u0000${path}`;
+  if (scope.context.active.has(key)) {
+    return [makeError('$ref', { ref, reason: 'circular' }, path, ref, value)];
+  }
+  scope.context.active.add(key);
+  try {
+    return validateSubschema(
+      value,
+      target.schema,
+      path,
+      { ...scope, base: target.base },
+      evaluated,
+    );
+  } finally {
+    scope.context.active.delete(key);
+  }
+}
+
+function resolveRef(
+  context: ValidationContext,
+  uri: string,
+  ref: string,
+): { schema: JSONSchema | boolean; base: string } | null {
+  const hashIndex = uri.indexOf('#');
+  const documentUri = hashIndex === -1 ? uri : uri.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : uri.slice(hashIndex + 1);
+
+  const anchor = context.anchors.get(uri);
+  if (anchor) return { schema: anchor, base: documentUri };
+
+  // Fall back to the reference as written, for registry keys that aren't URIs
+  const document =
+    context.resources.get(documentUri) ?? context.resources.get(stripFragment(ref)) ?? null;
+  if (!document) return null;
+  if (fragment === '') return { schema: document, base: documentUri };
+  if (!fragment.startsWith('/')) return null;
+
+  // Walk the JSON Pointer, picking up any $id along the way
+  let node: unknown = document;
+  let base = documentUri;
+  for (const token of fragment.slice(1).split('/')) {
+    const segment = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(node)) node = node[Number(segment)];
+    else if (isPlainObject(node)) node = node[segment];
+    else return null;
+    if (isPlainObject(node) && typeof node.$id === 'string' && !node.$id.startsWith('#')) {
+      base = resolveUri(node.$id, base);
+    }
+  }
+  if (typeof node === 'boolean') return { schema: node, base };
+  return isPlainObject(node) ? { schema: node as JSONSchema, base } : null;
+}
+
+/** Pick the keyword set from a `$schema` URI, defaulting to 2020-12 */
+function detectDialect($schema: unknown): SchemaDialect {
+  if (typeof $schema !== 'string') return '2020-12';
+  if (/draft-0[4-7]/.test($schema)) return 'draft-07';
+  if ($schema.includes('2019-09')) return '2019-09';
+  return '2020-12';
+}
+
+function resolveUri(ref: string, base: string): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(ref)) return ref;
+  if (ref.startsWith('#')) return stripFragment(base) + ref;
+  try {
+    return new URL(ref, base).href;
+  } catch {
+    // No absolute base to resolve against — keep the reference as written
+    return ref;
+  }
+}
+
+function stripFragment(uri: string): string {
+  const hashIndex = uri.indexOf('#');
+  return hashIndex === -1 ? uri : uri.slice(0, hashIndex);
 }
 
 /**
- * Run custom validators on a value.
+ * Pick the failed alternative that got furthest: one whose type matched,
+ * then the one with the fewest errors.
+ */
+function closestBranch(results: ValidationError[][], path: string): number {
+  let best = 0;
+  let bestScore = Infinity;
+  results.forEach((errors, i) => {
+    const typeMismatch = errors.some((e) => e.path === path && e.schemaKeyword === 'type');
+    const score = (typeMismatch ? 1000 : 0) + errors.length;
+    if (score < bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/** Options for runCustomValidators */
+export interface RunValidatorsOptions {
+  /** Cancels the whole run; the returned promise then rejects with the abort reason */
+  signal?: AbortSignal;
+  /** Timeout in ms for validators that don't set their own */
+  timeout?: number;
+}
+
+/**
+ * Run custom validators on a value. A validator registered with a `path`
+ * pattern is called once per matching node, with that node and its concrete
+ * path. They run concurrently and independently: one that throws or times out
+ * is reported as a warning at the path it was given instead of hiding the
+ * results of the others.
  */
 export async function runCustomValidators(
   value: unknown,
-  validators: CustomValidator[],
+  validators: ValidatorEntry[],
   path: string = '$',
+  options: RunValidatorsOptions = {},
+): Promise<ValidationError[]> {
+  const { signal, timeout } = options;
+  if (signal?.aborted) throw abortReason(signal);
+
+  const run = Promise.all(
+    validators.flatMap((entry, index) => {
+      const config = typeof entry === 'function' ? { validate: entry } : entry;
+      const name = config.name ?? (config.validate.name || `#${index + 1}`);
+      const limit = config.timeout ?? timeout;
+      if (config.path === undefined) {
+        return [runValidator(config.validate, name, limit, value, path, signal)];
+      }
+
+      let matches;
+      try {
+        matches = queryPath(value, config.path);
+      } catch (err) {
+        return [Promise.resolve([validatorFailure(name, err, path)])];
+      }
+      // Match paths start at "$"; re-root them when validating a subtree
+      return matches.map((match) =>
+        runValidator(config.validate, name, limit, match.value, path + match.path.slice(1), signal),
+      );
+    }),
+  );
+  if (!signal) return (await run).flat();
+
+  // Don't wait for validators that ignore the signal
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  try {
+    return (await Promise.race([run, aborted])).flat();
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+function runValidator(
+  validate: CustomValidator,
+  name: string,
+  timeout: number | undefined,
+  value: unknown,
+  path: string,
+  signal: AbortSignal | undefined,
 ): Promise<ValidationError[]> {
-  const results = await Promise.all(validators.map((v) => v(value, path)));
-  return results.flat();
+  // Each validator gets its own signal so a timeout cancels only that one
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  return new Promise<ValidationError[]>((resolve) => {
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            controller.abort();
+            resolve([
+              makeError('validatorTimeout', { name, timeout }, path, timeout, undefined, 'warning'),
+            ]);
+          }, timeout);
+
+    Promise.resolve()
+      .then(() => validate(value, path, { signal: controller.signal }))
+      .then(
+        (errors) => resolve(errors),
+        (err: unknown) => resolve([validatorFailure(name, err, path)]),
+      )
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', forwardAbort);
+      });
+  });
+}
+
+function validatorFailure(name: string, err: unknown, path: string): ValidationError {
+  return makeError(
+    'validatorError',
+    { name, reason: err instanceof Error ? err.message : String(err) },
+    path,
+    undefined,
+    undefined,
+    'warning',
+  );
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Validation was aborted', 'AbortError');
+}
+
+/**
+ * Report repeated object keys as warnings, positioned at every occurrence
+ * after the first.
+ */
+export function duplicateKeyWarnings(text: string, duplicates: DuplicateKey[]): ValidationError[] {
+  return duplicates.flatMap(({ path, key, occurrences }) =>
+    occurrences.slice(1).map(({ value, location }) => {
+      const { line, column } = getLineColFromOffset(text, location.keyStart ?? location.start);
+      const end = getLineColFromOffset(text, location.keyEnd ?? location.end);
+      return {
+        ...makeError('duplicateKey', { key }, path, undefined, value, 'warning'),
+        line,
+        column,
+        endLine: end.line,
+        endColumn: end.column,
+      };
+    }),
+  );
+}
+
+/** Report a validation run that threw, as an error on the whole document */
+export function validationFailure(err: unknown): ValidationError {
+  return makeError(
+    'validationError',
+    { reason: err instanceof Error ? err.message : String(err) },
+    '$',
+  );
+}
+
+/** Keywords about a member's name rather than its value; these mark the key */
+const KEY_KEYWORDS = new Set(['propertyNames', 'additionalProperties', 'unevaluatedProperties']);
+
+/**
+ * Resolve errors to text ranges using the node locations from `parseJson`.
+ *
+ * Scalars are marked by their value; objects and arrays by their key, or by
+ * the opening bracket when they have none. Errors whose path isn't in the
+ * document are placed on the nearest ancestor that is, and errors that
+ * already carry a line/column are left as they are.
+ */
+export function locateErrors(
+  errors: ValidationError[],
+  text: string,
+  locations: Map<string, NodeLocation>,
+): ValidationError[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const toLineCol = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  return errors.map((error) => {
+    if (error.line !== undefined) return error;
+
+    let path = error.path;
+    let loc = locations.get(path);
+    while (!loc && path !== '$') {
+      path = getParentPath(path) ?? '$';
+      loc = locations.get(path);
+    }
+    if (!loc) return error;
+
+    const container = text[loc.start] === '{' || text[loc.start] === '[';
+    const useKey =
+      loc.keyStart !== undefined &&
+      (container || (path === error.path && KEY_KEYWORDS.has(error.schemaKeyword ?? '')));
+    const [start, end] = useKey
+      ? [loc.keyStart!, loc.keyEnd!]
+      : [loc.start, container ? loc.start + 1 : loc.end];
+
+    const from = toLineCol(start);
+    const to = toLineCol(end);
+    return { ...error, ...from, endLine: to.line, endColumn: to.column };
+  });
+}
+
+const SEVERITY_RANK: Record<ValidationSeverity, number> = { error: 2, warning: 1, info: 0 };
+
+/** The most serious severity in a list of problems ("info" for an empty list) */
+export function worstSeverity(errors: ValidationError[]): ValidationSeverity {
+  return errors.reduce<ValidationSeverity>(
+    (worst, e) => (SEVERITY_RANK[e.severity] > SEVERITY_RANK[worst] ? e.severity : worst),
+    'info',
+  );
 }
 
 // --- Helpers ---
@@ -274,25 +1308,49 @@ function getJsonType(value: unknown): string {
   return typeof value;
 }
 
+/** Build an engine error; its English message comes from the built-in catalog */
 function makeError(
-  message: string,
-  path: string,
   schemaKeyword: string,
+  params: MessageParams,
+  path: string,
   schemaRule?: unknown,
   actualValue?: unknown,
   severity: ValidationSeverity = 'error',
 ): ValidationError {
-  return { message, path, severity, schemaKeyword, schemaRule, actualValue };
+  const message = formatMessage(englishValidationMessages[schemaKeyword], params);
+  return { message, path, severity, schemaKeyword, schemaRule, actualValue, params };
 }
 
 function isPlainObject(val: unknown): val is Record<string, unknown> {
   return typeof val === 'object' && val !== null && !Array.isArray(val);
 }
 
+/** Whether a subschema holds, i.e. produced nothing worse than warnings */
+function passes(errors: ValidationError[]): boolean {
+  return errors.every((e) => e.severity !== 'error');
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+/** JSON text with object keys sorted, so equal values serialize identically */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) =>
+    isPlainObject(val)
+      ? Object.fromEntries(
+          Object.keys(val)
+            .sort()
+            .map((k) => [k, val[k]]),
+        )
+      : val,
+  );
+}
+
 function deepEqual(a: unknown, b: unknown): boolean {
   if (a === b) return true;
   if (typeof a !== typeof b) return false;
   if (a === null || b === null) return false;
   if (typeof a !== 'object') return false;
-  return JSON.stringify(a) === JSON.stringify(b);
+  return canonicalJson(a) === canonicalJson(b);
 }
@@ -0,0 +1,102 @@
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { parseJson, type ParseResult } from '../core/parser';
+import { diffJson, type DiffOperation, type DiffOptions } from '../core/diff';
+import type { JsonFormat } from '../types/editor';
+
+/** A request to bring one change into view; a new object is created per navigation */
+export interface DiffReveal {
+  operation: DiffOperation;
+  /** Position of the change in document order */
+  index: number;
+}
+
+interface UseDiffOptions {
+  /** Parse and compare only while the diff is shown */
+  enabled: boolean;
+  format?: JsonFormat;
+  lossless?: boolean;
+  diffOptions?: DiffOptions;
+}
+
+interface UseDiffResult {
+  /** The original text parsed, or null when disabled */
+  original: ParseResult | null;
+  /** The edited text parsed, or null when disabled */
+  modified: ParseResult | null;
+  /** What changed from the original, empty while either side doesn't parse */
+  operations: DiffOperation[];
+  /** Index of the change last navigated to, or -1 */
+  currentIndex: number;
+  current: DiffOperation | undefined;
+  /** The latest navigation, for the views to scroll to */
+  reveal: DiffReveal | null;
+  goToNext: () => void;
+  goToPrevious: () => void;
+  goTo: (index: number) => void;
+}
+
+const NO_OPERATIONS: DiffOperation[] = [];
+const NO_OPTIONS: DiffOptions = {};
+
+/**
+ * Hook comparing the edited text with an original and stepping through the
+ * changes. Both texts are parsed here, not just diffed, since the views need
+ * the source location of every changed node.
+ */
+export function useDiff(
+  originalText: string,
+  text: string,
+  { enabled, format, lossless, diffOptions = NO_OPTIONS }: UseDiffOptions,
+): UseDiffResult {
+  const [reveal, setReveal] = useState<DiffReveal | null>(null);
+
+  const original = useMemo(
+    () => (enabled ? parseJson(originalText, { format, lossless }) : null),
+    [enabled, originalText, format, lossless],
+  );
+  const modified = useMemo(
+    () => (enabled ? parseJson(text, { format, lossless }) : null),
+    [enabled, text, format, lossless],
+  );
+
+  const operations = useMemo(() => {
+    if (!original || !modified || original.error || modified.error) return NO_OPERATIONS;
+    return diffJson(original.value, modified.value, diffOptions);
+  }, [original, modified, diffOptions]);
+
+  // Once a change is resolved the position points at the one after it; past the end, start over
+  useEffect(() => {
+    setReveal((prev) => (prev && prev.index < operations.length ? prev : null));
+  }, [operations]);
+
+  const currentIndex = reveal?.index ?? -1;
+
+  const goTo = useCallback(
+    (index: number) => {
+      if (operations[index]) setReveal({ operation: operations[index], index });
+    },
+    [operations],
+  );
+
+  const goToNext = useCallback(() => {
+    if (operations.length === 0) return;
+    goTo((currentIndex + 1) % operations.length);
+  }, [operations.length, currentIndex, goTo]);
+
+  const goToPrevious = useCallback(() => {
+    if (operations.length === 0) return;
+    goTo(currentIndex <= 0 ? operations.length - 1 : currentIndex - 1);
+  }, [operations.length, currentIndex, goTo]);
+
+  return {
+    original,
+    modified,
+    operations,
+    currentIndex,
+    current: operations[currentIndex],
+    reveal,
+    goToNext,
+    goToPrevious,
+    goTo,
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import type { ValidationError } from '../types/validation';
+
+/** A request to bring one error into view; a new object is created per navigation */
+export interface ErrorReveal {
+  error: ValidationError;
+  /** Position of the error in document order (kept from the last step for errors outside it) */
+  index: number;
+}
+
+interface UseErrorNavigationResult {
+  /** Errors in document order (located errors first, by line and column) */
+  errors: ValidationError[];
+  /** Index of the error last navigated to, or -1 */
+  currentIndex: number;
+  /** The latest navigation, for editors to scroll to and select */
+  reveal: ErrorReveal | null;
+  goToNext: () => void;
+  goToPrevious: () => void;
+  goTo: (index: number) => void;
+  /**
+   * Reveal a specific error, including ones outside `errors` such as syntax
+   * errors; those leave the next/previous position where it was
+   */
+  goToError: (error: ValidationError) => void;
+}
+
+/**
+ * Hook for stepping through validation errors. Code and tree mode share it
+ * so "next error" continues from wherever the other view left off.
+ */
+export function useErrorNavigation(validationErrors: ValidationError[]): UseErrorNavigationResult {
+  const [reveal, setReveal] = useState<ErrorReveal | null>(null);
+
+  const errors = useMemo(
+    () =>
+      [...validationErrors].sort(
+        (a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || (a.column ?? 0) - (b.column ?? 0),
+      ),
+    [validationErrors],
+  );
+
+  // Forget the position once the errors it pointed into are gone
+  useEffect(() => {
+    setReveal((prev) => (prev && prev.index < errors.length ? prev : null));
+  }, [errors]);
+
+  const currentIndex = reveal?.index ?? -1;
+
+  const goTo = useCallback(
+    (index: number) => {
+      if (errors[index]) setReveal({ error: errors[index], index });
+    },
+    [errors],
+  );
+
+  const goToNext = useCallback(() => {
+    if (errors.length === 0) return;
+    goTo((currentIndex + 1) % errors.length);
+  }, [errors.length, currentIndex, goTo]);
+
+  const goToPrevious = useCallback(() => {
+    if (errors.length === 0) return;
+    goTo(currentIndex <= 0 ? errors.length - 1 : currentIndex - 1);
+  }, [errors.length, currentIndex, goTo]);
+
+  const goToError = useCallback(
+    (error: ValidationError) => {
+      const index = errors.indexOf(error);
+      setReveal((prev) => ({ error, index: index >= 0 ? index : (prev?.index ?? -1) }));
+    },
+    [errors],
+  );
+
+  return { errors, currentIndex, reveal, goToNext, goToPrevious, goTo, goToError };
+}
@@ -1,16 +1,50 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { parseJson, stringifyJson } from '../core/parser';
-import { validateSchema, runCustomValidators } from '../core/validator';
-import type { ParseError } from '../types/editor';
-import type { ValidationError, JSONSchema, CustomValidator } from '../types/validation';
+import type { ParseResult } from '../core/parser';
+import { localizeErrors } from '../i18n/format';
+import type { ValidationMessages } from '../i18n/types';
+import { formatJson } from '../core/formatter';
+import {
+  validateSchema,
+  runCustomValidators,
+  duplicateKeyWarnings,
+  locateErrors,
+  validationFailure,
+} from '../core/validator';
+import type { ParseError, JsonFormat, DuplicateKey } from '../types/editor';
+import type {
+  ValidationError,
+  ValidationResult,
+  JSONSchema,
+  ValidatorEntry,
+  FormatChecker,
+  FormatMode,
+} from '../types/validation';
 
 interface UseJsonParserOptions {
   /** JSON Schema for validation */
   schema?: JSONSchema;
+  /** Schemas that `$ref` may point to, keyed by URI */
+  schemaRegistry?: Record<string, JSONSchema>;
   /** Custom validators */
-  validators?: CustomValidator[];
+  validators?: ValidatorEntry[];
+  /** Custom `format` checkers by name */
+  formats?: Record<string, FormatChecker>;
+  /** Whether `format` mismatches are errors or warnings */
+  formatMode?: FormatMode;
+  /** Translations of the built-in validation messages, keyed by schema keyword */
+  messages?: ValidationMessages;
   /** Debounce interval in ms */
   debounce?: number;
+  /**
+   * Validate after every change (default). When false, validation only runs
+   * through `validate()`; earlier results stay and follow the text as it is edited.
+   */
+  autoValidate?: boolean;
+  /** Dialect to parse (default "json") */
+  format?: JsonFormat;
+  /** Parse number literals losslessly (see `ParseOptions.lossless`) */
+  lossless?: boolean;
 }
 
 interface UseJsonParserResult {
@@ -18,10 +52,18 @@ interface UseJsonParserResult {
   text: string;
   /** The parsed value (undefined if invalid) */
   parsedValue: unknown;
-  /** Parse error, if any */
+  /** The first parse error, if any */
   parseError: ParseError | null;
-  /** Validation errors from schema + custom validators */
+  /** Every syntax error found in the text */
+  parseErrors: ParseError[];
+  /** Best-effort value recovered from invalid text (equals parsedValue when valid) */
+  partialValue: unknown;
+  /** Object keys that appear more than once */
+  duplicateKeys: DuplicateKey[];
+  /** Validation errors from schema + custom validators, with text ranges resolved */
   validationErrors: ValidationError[];
+  /** Whether async custom validators are still running */
+  isValidating: boolean;
   /** Whether the text is valid JSON */
   isValid: boolean;
   /** Update the raw text */
@@ -30,6 +72,12 @@ interface UseJsonParserResult {
   setValue: (value: unknown) => void;
   /** Format the current text */
   format: (indent?: number | string) => void;
+  /**
+   * Validate the current text now. Updates `validationErrors` and resolves
+   * with them, preceded by any syntax errors (reported at path "$"). Rejects
+   * with an AbortError if another validation starts before this one finishes.
+   */
+  validate: () => Promise<ValidationResult>;
 }
 
 /**
@@ -39,77 +87,189 @@ export function useJsonParser(
   initialValue?: unknown,
   options: UseJsonParserOptions = {},
 ): UseJsonParserResult {
-  const { schema, validators, debounce = 300 } = options;
+  const {
+    schema,
+    schemaRegistry,
+    validators,
+    formats,
+    formatMode,
+    messages,
+    debounce = 300,
+    autoValidate = true,
+    format: dialect = 'json',
+    lossless = false,
+  } = options;
 
   const [text, setText] = useState<string>(() =>
     initialValue !== undefined ? stringifyJson(initialValue) : '',
   );
   const [parsedValue, setParsedValue] = useState<unknown>(initialValue);
-  const [parseError, setParseError] = useState<ParseError | null>(null);
+  const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
+  const [partialValue, setPartialValue] = useState<unknown>(initialValue);
+  const [duplicateKeys, setDuplicateKeys] = useState<DuplicateKey[]>([]);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
 
   const debounceTimer = useRef<ReturnType<typeof setTimeout>>();
+  // validate() may run before the parse effect has seen the latest text
+  const textRef = useRef(text);
+  // The run in flight; a newer one aborts it so stale results never land
+  const runRef = useRef<AbortController | null>(null);
 
-  // Parse text whenever it changes
-  useEffect(() => {
-    const result = parseJson(text);
-    setParsedValue(result.value);
-    setParseError(result.error);
+  const cancelRun = useCallback(() => {
+    if (!runRef.current) return;
+    runRef.current.abort();
+    runRef.current = null;
+    setIsValidating(false);
+  }, []);
 
-    // Run validation if parsing succeeded
-    if (!result.error && result.value !== undefined) {
-      if (debounceTimer.current) clearTimeout(debounceTimer.current);
+  const startRun = useCallback((): AbortSignal => {
+    cancelRun();
+    runRef.current = new AbortController();
+    return runRef.current.signal;
+  }, [cancelRun]);
 
-      debounceTimer.current = setTimeout(async () => {
-        let errors: ValidationError[] = [];
+  const runValidation = useCallback(
+    async (
+      source: string,
+      result: ParseResult,
+      signal: AbortSignal,
+    ): Promise<ValidationError[]> => {
+      let errors: ValidationError[] = duplicateKeyWarnings(source, result.duplicateKeys);
 
-        if (schema) {
-          const schemaResult = validateSchema(result.value, schema);
-          errors = [...schemaResult.errors];
+      if (schema) {
+        try {
+          const schemaResult = validateSchema(result.value, schema, '$', {
+            schemas: schemaRegistry,
+            formats,
+            formatMode,
+          });
+          errors = [...errors, ...schemaResult.errors];
+        } catch (err) {
+          // A throwing format checker, say, is reported like a failing validator
+          errors = [...errors, validationFailure(err)];
         }
+      }
 
-        if (validators && validators.length > 0) {
-          const customErrors = await runCustomValidators(result.value, validators);
+      if (validators && validators.length > 0) {
+        setIsValidating(true);
+        try {
+          const customErrors = await runCustomValidators(result.value, validators, '$', { signal });
           errors = [...errors, ...customErrors];
+        } finally {
+          if (!signal.aborted) setIsValidating(false);
         }
+      }
 
-        setValidationErrors(errors);
+      if (messages) errors = localizeErrors(errors, messages);
+      return locateErrors(errors, source, result.locations);
+    },
+    [schema, schemaRegistry, validators, formats, formatMode, messages],
+  );
+
+  // Parse text whenever it changes
+  useEffect(() => {
+    const result = parseJson(text, { recover: true, format: dialect, lossless });
+    setParsedValue(result.error ? undefined : result.value);
+    setPartialValue(result.value);
+    setParseErrors(result.errors);
+    setDuplicateKeys(result.duplicateKeys);
+
+    if (result.error || result.value === undefined) {
+      setValidationErrors([]);
+    } else if (autoValidate) {
+      if (debounceTimer.current) clearTimeout(debounceTimer.current);
+
+      debounceTimer.current = setTimeout(async () => {
+        const signal = startRun();
+        try {
+          setValidationErrors(await runValidation(text, result, signal));
+        } catch (err) {
+          // Nothing awaits this timer, so a failure is shown rather than rethrown
+          if (!signal.aborted) setValidationErrors([validationFailure(err)]);
+        }
       }, debounce);
     } else {
-      setValidationErrors([]);
+      // Keep the last results, moved to wherever their paths now are
+      setValidationErrors((prev) =>
+        prev.length === 0 ? prev : locateErrors(prev.map(withoutRange), text, result.locations),
+      );
     }
 
     return () => {
       if (debounceTimer.current) clearTimeout(debounceTimer.current);
+      // Edits supersede automatic runs; a requested validate() finishes regardless
+      if (autoValidate) cancelRun();
     };
-  }, [text, schema, validators, debounce]);
+  }, [text, runValidation, startRun, cancelRun, autoValidate, debounce, dialect, lossless]);
 
   const handleSetText = useCallback((newText: string) => {
+    textRef.current = newText;
     setText(newText);
   }, []);
 
   const handleSetValue = useCallback((value: unknown) => {
     const newText = stringifyJson(value);
+    textRef.current = newText;
     setText(newText);
   }, []);
 
+  const validate = useCallback(async (): Promise<ValidationResult> => {
+    const source = textRef.current;
+    const result = parseJson(source, { recover: true, format: dialect, lossless });
+    if (result.error || result.value === undefined) {
+      cancelRun();
+      setValidationErrors([]);
+      const syntaxErrors = result.errors.map(
+        (err): ValidationError => ({
+          message: err.message,
+          path: '$',
+          severity: 'error',
+          line: err.line,
+          column: err.column,
+        }),
+      );
+      return { valid: false, errors: syntaxErrors };
+    }
+
+    const signal = startRun();
+    let errors: ValidationError[];
+    try {
+      errors = await runValidation(source, result, signal);
+    } catch (err) {
+      // Only a superseded run rejects; any other failure is reported as the timer does
+      if (signal.aborted) throw err;
+      errors = [validationFailure(err)];
+    }
+    // Edits made while async validators ran would leave the ranges stale
+    if (textRef.current === source) setValidationErrors(errors);
+    return { valid: errors.every((e) => e.severity !== 'error'), errors };
+  }, [runValidation, startRun, cancelRun, dialect, lossless]);
+
   const format = useCallback(
-    (indent: number | string = 2) => {
-      if (parsedValue !== undefined) {
-        setText(stringifyJson(parsedValue, indent));
-      }
-    },
-    [parsedValue],
+    (indent: number | string = 2) => handleSetText(formatJson(text, indent, dialect)),
+    [text, dialect, handleSetText],
   );
 
+  const parseError = parseErrors[0] ?? null;
+
   return {
     text,
     parsedValue,
     parseError,
+    parseErrors,
+    partialValue,
+    duplicateKeys,
     validationErrors,
+    isValidating,
     isValid: parseError === null && validationErrors.length === 0,
     setText: handleSetText,
     setValue: handleSetValue,
     format,
+    validate,
   };
 }
+
+function withoutRange(error: ValidationError): ValidationError {
+  return { ...error, line: undefined, column: undefined, endLine: undefined, endColumn: undefined };
+}
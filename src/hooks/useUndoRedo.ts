@@ -13,8 +13,10 @@ interface UndoRedoState<T> {
   canRedo: boolean;
   historyLength: number;
   set: (value: T) => void;
-  undo: () => void;
-  redo: () => void;
+  /** Step back; returns the entry stepped to, or undefined when there is none */
+  undo: () => T | undefined;
+  /** Step forward; returns the entry stepped to, or undefined when there is none */
+  redo: () => T | undefined;
   reset: (value: T) => void;
 }
 
@@ -72,17 +74,17 @@ export function useUndoRedo<T>(initialValue: T, options: UndoRedoOptions = {}):
   );
 
   const undo = useCallback(() => {
-    if (positionRef.current > 0) {
-      positionRef.current -= 1;
-      rerender();
-    }
+    if (positionRef.current === 0) return undefined;
+    positionRef.current -= 1;
+    rerender();
+    return historyRef.current[positionRef.current];
   }, [rerender]);
 
   const redo = useCallback(() => {
-    if (positionRef.current < historyRef.current.length - 1) {
-      positionRef.current += 1;
-      rerender();
-    }
+    if (positionRef.current >= historyRef.current.length - 1) return undefined;
+    positionRef.current += 1;
+    rerender();
+    return historyRef.current[positionRef.current];
   }, [rerender]);
 
   const reset = useCallback(
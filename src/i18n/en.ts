@@ -0,0 +1,161 @@
+import type { UiMessages, ValidationMessages } from './types';
+
+const plural = (count: string | number, one: string, other: string) =>
+  `${count} ${Number(count) === 1 ? one : other}`;
+
+/** Built-in validation messages; the params of each are what the engine passes */
+export const englishValidationMessages: ValidationMessages = {
+  type: 'Expected type "{expected}", got "{actual}"',
+  enum: 'Value must be one of: {allowed}',
+  const: 'Value must be {expected}',
+  minLength: 'String must be at least {limit} characters',
+  maxLength: 'String must be at most {limit} characters',
+  pattern: 'String must match pattern "{pattern}"',
+  format: 'String must match format "{format}"',
+  minimum: 'Value must be >= {limit}',
+  maximum: 'Value must be <= {limit}',
+  exclusiveMinimum: 'Value must be > {limit}',
+  exclusiveMaximum: 'Value must be < {limit}',
+  multipleOf: 'Value must be a multiple of {multipleOf}',
+  minItems: 'Array must have at least {limit} items',
+  maxItems: 'Array must have at most {limit} items',
+  uniqueItems: 'Array items must be unique',
+  items: 'Unexpected array item',
+  additionalItems: 'Unexpected array item',
+  unevaluatedItems: 'Unexpected array item',
+  contains: 'Array must contain at least one item matching the "contains" schema',
+  minContains: ({ limit }) =>
+    Number(limit) === 1
+      ? 'Array must contain at least one item matching the "contains" schema'
+      : `Array must contain at least ${limit} items matching the "contains" schema`,
+  maxContains: 'Array must contain at most {limit} items matching the "contains" schema',
+  required: 'Missing required property "{property}"',
+  minProperties: 'Object must have at least {limit} properties',
+  maxProperties: 'Object must have at most {limit} properties',
+  additionalProperties: 'Unexpected property "{property}"',
+  unevaluatedProperties: 'Unexpected property "{property}"',
+  propertyNames: 'Invalid property name "{property}"',
+  dependentRequired: 'Property "{property}" is required when "{trigger}" is present',
+  dependencies: 'Property "{property}" is required when "{trigger}" is present',
+  anyOf: 'Value did not match any of {count} alternatives',
+  oneOf: ({ count, matchCount, matches }) =>
+    Number(matchCount) > 0
+      ? `Value matched ${matchCount} of ${count} alternatives (${matches}) but must match exactly one`
+      : `Value did not match any of ${count} alternatives`,
+  not: 'Value must not match the "not" schema',
+  false: 'No value is allowed here',
+  $ref: ({ ref, reason }) =>
+    reason === 'circular' ? `Circular $ref "${ref}"` : `Cannot resolve $ref "${ref}"`,
+  duplicateKey: 'Duplicate key "{key}" — only the last occurrence is used',
+  validatorError: 'Validator "{name}" failed: {reason}',
+  validatorTimeout: 'Validator "{name}" timed out after {timeout} ms',
+  validationError: 'Validation failed: {reason}',
+  invalidPattern: 'The schema pattern "{pattern}" is not a valid regular expression',
+};
+
+/** Built-in toolbar, search bar and status bar text */
+export const englishUiMessages: UiMessages = {
+  toolbarLabel: 'Editor controls',
+  modeGroupLabel: 'Editor mode',
+  modeCode: 'Code',
+  modeTree: 'Tree',
+  modeSplit: 'Split',
+  modeDiff: 'Diff',
+  toggleSearch: 'Toggle search',
+  toggleSearchTitle: 'Search (Ctrl+F)',
+  undo: 'Undo',
+  undoTitle: 'Undo (Ctrl+Z)',
+  redo: 'Redo',
+  redoTitle: 'Redo (Ctrl+Shift+Z)',
+  formatDocument: 'Format document',
+  formatDocumentTitle: 'Format (Ctrl+Shift+P)',
+  insertFromSchema: 'Insert from schema',
+  insertFromSchemaTitle: 'Add the properties the schema requires',
+  inferSchema: 'Infer schema',
+  inferSchemaTitle: 'Infer a JSON Schema from the document',
+  previousError: 'Previous error',
+  previousErrorTitle: 'Previous error (Shift+F8)',
+  nextError: 'Next error',
+  nextErrorTitle: 'Next error (F8)',
+  formatJsonTitle: 'Strict JSON',
+  formatJsoncTitle: 'JSON with comments and trailing commas',
+  formatJson5Title: 'JSON5 — comments, unquoted keys, single quotes, and more',
+
+  searchLabel: 'Search in editor',
+  searchPlaceholder: 'Search...',
+  searchQuery: 'Search query',
+  noResults: 'No results',
+  matchCount: '{current} of {total}',
+  matchCase: 'Match case',
+  useRegex: 'Use regular expression',
+  previousMatch: 'Previous match',
+  previousMatchTitle: 'Previous match (Shift+Enter)',
+  nextMatch: 'Next match',
+  nextMatchTitle: 'Next match (Enter)',
+  closeSearch: 'Close search',
+  closeSearchTitle: 'Close (Escape)',
+
+  invalidJson: ({ count, line }) =>
+    Number(count) === 1
+      ? `Invalid JSON (line ${line})`
+      : `Invalid JSON (${count} errors, first on line ${line})`,
+  parseErrorDetail: 'Line {line}, Col {column}: {message}',
+  validating: 'Validating…',
+  validationIssues: ({ count }) => plural(count, 'validation issue', 'validation issues'),
+  validJson: 'Valid JSON',
+  position: 'Ln {line}, Col {column}',
+  propertyCount: ({ count }) => plural(count, 'property', 'properties'),
+  arrayCount: ({ count }) => plural(count, 'array', 'arrays'),
+  showProblems: 'Show problems',
+  filterProblems: 'Filter problems',
+  closeProblems: 'Close problems',
+  noMatchingProblems: 'No problems match the filter',
+  errors: 'Errors',
+  warnings: 'Warnings',
+  info: 'Info',
+  syntaxProblems: 'Syntax',
+
+  diffLabel: 'Changes',
+  changeTotal: ({ total }) => plural(total, 'change', 'changes'),
+  changeCount: 'Change {current} of {total}',
+  noChanges: 'No differences',
+  diffUnavailable: 'Fix the syntax errors to compare',
+  previousChange: 'Previous change',
+  previousChangeTitle: 'Previous change (Shift+F7)',
+  nextChange: 'Next change',
+  nextChangeTitle: 'Next change (F7)',
+  acceptLeft: 'Accept left',
+  acceptLeftTitle: 'Put this change back the way the original has it',
+  acceptRight: 'Accept right',
+  acceptRightTitle: 'Copy this change into the original',
+  diffOriginal: 'Original',
+  diffModified: 'Modified',
+  diffAdded: 'added',
+  diffRemoved: 'removed',
+  diffChanged: 'changed',
+  diffMoved: 'moved',
+
+  completionLabel: 'Suggestions',
+  completionRequired: 'required',
+  completionDefault: 'default',
+
+  treeLabel: 'JSON tree editor',
+  treePartialNotice: ({ count }) =>
+    `Showing partial result — fix ${plural(count, 'syntax error', 'syntax errors')} to edit`,
+  treeEmpty: 'No valid JSON to display',
+  createEmptyObject: 'Create empty object',
+  addProperty: 'Add property',
+  customProperty: 'Custom property',
+  propertyRequired: 'required',
+  deleteNode: 'Delete {key}',
+  deleteNodeTitle: 'Delete',
+
+  schemaExpects: 'expects {type}',
+  schemaExpectsTitle: 'The schema expects {type}',
+  schemaRequired: 'required',
+  schemaRequiredTitle: 'Required by the schema',
+  schemaDeprecated: 'deprecated',
+  schemaDeprecatedTitle: 'Deprecated by the schema',
+  schemaReadOnly: 'read-only',
+  schemaReadOnlyTitle: 'Read-only — the schema marks it readOnly',
+};
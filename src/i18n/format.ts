@@ -0,0 +1,40 @@
+import type { ValidationError } from '../types/validation';
+import type { MessageParams, MessageTemplate, UiMessages, ValidationMessages } from './types';
+
+/**
+ * Render a message template. Placeholders without a matching param are left
+ * as written so a typo in a translation stays visible.
+ */
+export function formatMessage(template: MessageTemplate, params: MessageParams = {}): string {
+  if (typeof template === 'function') return template(params);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
+
+/** Look up and render UI text by key */
+export function createTranslator(messages: UiMessages) {
+  return (key: keyof UiMessages, params?: MessageParams): string =>
+    formatMessage(messages[key], params);
+}
+
+/**
+ * Re-render engine-produced messages from a catalog keyed by `schemaKeyword`,
+ * including nested `causes`. Errors without `params` (custom validators,
+ * schema `errorMessage` overrides) are left as they are.
+ */
+export function localizeErrors(
+  errors: ValidationError[],
+  messages: ValidationMessages,
+): ValidationError[] {
+  return errors.map((error) => {
+    const template = error.schemaKeyword !== undefined ? messages[error.schemaKeyword] : undefined;
+    const localized =
+      template !== undefined && error.params
+        ? { ...error, message: formatMessage(template, error.params) }
+        : error;
+    return error.causes
+      ? { ...localized, causes: localizeErrors(error.causes, messages) }
+      : localized;
+  });
+}
@@ -0,0 +1,150 @@
+/** Values substituted into a message, e.g. `{ limit: 3 }` */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * A translatable message: a string with `{name}` placeholders, or a function
+ * for anything a placeholder can't express (plurals, word order, …)
+ */
+export type MessageTemplate = string | ((params: MessageParams) => string);
+
+/**
+ * Validation messages keyed by `schemaKeyword` ("minimum", "required", …).
+ * Besides schema keywords the engine uses "duplicateKey", "validatorError",
+ * "validatorTimeout", "invalidPattern" (a schema regex that doesn't compile)
+ * and "validationError" (the schema itself failed to run).
+ * Keywords without an entry keep the English text.
+ */
+export type ValidationMessages = Record<string, MessageTemplate>;
+
+/** Text shown by the toolbar, search bar, status bar and the editors */
+export interface UiMessages {
+  // Toolbar
+  toolbarLabel: MessageTemplate;
+  modeGroupLabel: MessageTemplate;
+  modeCode: MessageTemplate;
+  modeTree: MessageTemplate;
+  modeSplit: MessageTemplate;
+  modeDiff: MessageTemplate;
+  toggleSearch: MessageTemplate;
+  toggleSearchTitle: MessageTemplate;
+  undo: MessageTemplate;
+  undoTitle: MessageTemplate;
+  redo: MessageTemplate;
+  redoTitle: MessageTemplate;
+  formatDocument: MessageTemplate;
+  formatDocumentTitle: MessageTemplate;
+  insertFromSchema: MessageTemplate;
+  insertFromSchemaTitle: MessageTemplate;
+  inferSchema: MessageTemplate;
+  inferSchemaTitle: MessageTemplate;
+  previousError: MessageTemplate;
+  previousErrorTitle: MessageTemplate;
+  nextError: MessageTemplate;
+  nextErrorTitle: MessageTemplate;
+  /** Tooltips of the dialect indicator */
+  formatJsonTitle: MessageTemplate;
+  formatJsoncTitle: MessageTemplate;
+  formatJson5Title: MessageTemplate;
+
+  // Search bar
+  searchLabel: MessageTemplate;
+  searchPlaceholder: MessageTemplate;
+  searchQuery: MessageTemplate;
+  noResults: MessageTemplate;
+  /** Params: current, total */
+  matchCount: MessageTemplate;
+  matchCase: MessageTemplate;
+  useRegex: MessageTemplate;
+  previousMatch: MessageTemplate;
+  previousMatchTitle: MessageTemplate;
+  nextMatch: MessageTemplate;
+  nextMatchTitle: MessageTemplate;
+  closeSearch: MessageTemplate;
+  closeSearchTitle: MessageTemplate;
+
+  // Status bar
+  /** Params: count, line (of the first error) */
+  invalidJson: MessageTemplate;
+  /** Params: line, column, message */
+  parseErrorDetail: MessageTemplate;
+  validating: MessageTemplate;
+  /** Params: count */
+  validationIssues: MessageTemplate;
+  validJson: MessageTemplate;
+  /** Params: line, column */
+  position: MessageTemplate;
+  /** Params: count */
+  propertyCount: MessageTemplate;
+  /** Params: count */
+  arrayCount: MessageTemplate;
+  showProblems: MessageTemplate;
+  filterProblems: MessageTemplate;
+  closeProblems: MessageTemplate;
+  noMatchingProblems: MessageTemplate;
+  errors: MessageTemplate;
+  warnings: MessageTemplate;
+  info: MessageTemplate;
+  syntaxProblems: MessageTemplate;
+
+  // Diff bar
+  diffLabel: MessageTemplate;
+  /** Params: total */
+  changeTotal: MessageTemplate;
+  /** Params: current, total */
+  changeCount: MessageTemplate;
+  noChanges: MessageTemplate;
+  /** Shown while the original or the edited text doesn't parse */
+  diffUnavailable: MessageTemplate;
+  previousChange: MessageTemplate;
+  previousChangeTitle: MessageTemplate;
+  nextChange: MessageTemplate;
+  nextChangeTitle: MessageTemplate;
+  acceptLeft: MessageTemplate;
+  acceptLeftTitle: MessageTemplate;
+  acceptRight: MessageTemplate;
+  acceptRightTitle: MessageTemplate;
+  /** Headings of the side-by-side panes */
+  diffOriginal: MessageTemplate;
+  diffModified: MessageTemplate;
+  /** Badges of the inline diff tree */
+  diffAdded: MessageTemplate;
+  diffRemoved: MessageTemplate;
+  diffChanged: MessageTemplate;
+  diffMoved: MessageTemplate;
+
+  // Code editor
+  completionLabel: MessageTemplate;
+  completionRequired: MessageTemplate;
+  completionDefault: MessageTemplate;
+
+  // Tree editor
+  treeLabel: MessageTemplate;
+  /** Params: count (of syntax errors) */
+  treePartialNotice: MessageTemplate;
+  treeEmpty: MessageTemplate;
+  createEmptyObject: MessageTemplate;
+  addProperty: MessageTemplate;
+  customProperty: MessageTemplate;
+  propertyRequired: MessageTemplate;
+  /** Params: key */
+  deleteNode: MessageTemplate;
+  deleteNodeTitle: MessageTemplate;
+
+  // Tree schema markers
+  /** Params: type */
+  schemaExpects: MessageTemplate;
+  /** Params: type */
+  schemaExpectsTitle: MessageTemplate;
+  schemaRequired: MessageTemplate;
+  schemaRequiredTitle: MessageTemplate;
+  schemaDeprecated: MessageTemplate;
+  schemaDeprecatedTitle: MessageTemplate;
+  schemaReadOnly: MessageTemplate;
+  schemaReadOnlyTitle: MessageTemplate;
+}
+
+/** Overrides for the built-in English text; anything left out stays English */
+export interface EditorMessages {
+  validation?: ValidationMessages;
+  ui?: Partial<UiMessages>;
+}
@@ -4,39 +4,104 @@ export { JsonEditor } from './JsonEditor';
 // Types
 export type {
   JsonEditorProps,
+  JsonEditorHandle,
   EditorMode,
+  DiffViewMode,
   ValidationMode,
   IndentationType,
+  JsonFormat,
   EditorState,
   CursorPosition,
   SelectionRange,
   ParseError,
+  NodeLocation,
+  DuplicateKey,
 } from './types/editor';
 
 export type {
   ValidationError,
   ValidationResult,
   ValidationSeverity,
+  SchemaDialect,
+  FormatChecker,
+  FormatMode,
   JSONSchema,
   CustomValidator,
+  CustomValidatorConfig,
+  CustomValidatorContext,
+  ValidatorEntry,
+  ErrorMessageSpec,
 } from './types/validation';
 
 export type { JsonNodeType, TreeNode, TreeAction, ContextMenuItem } from './types/tree';
 
 export type { ThemeConfig } from './themes/types';
 
+export type {
+  EditorMessages,
+  ValidationMessages,
+  UiMessages,
+  MessageTemplate,
+  MessageParams,
+} from './i18n/types';
+
 // Themes
 export { lightTheme } from './themes/light';
 export { darkTheme } from './themes/dark';
 
+// Messages (English defaults, for translating or overriding)
+export { englishValidationMessages, englishUiMessages } from './i18n/en';
+export { formatMessage, localizeErrors } from './i18n/format';
+
 // Core utilities (for advanced users)
 export { parseJson, stringifyJson, isValidJson } from './core/parser';
-export { validateSchema, runCustomValidators } from './core/validator';
+export {
+  validateSchema,
+  runCustomValidators,
+  duplicateKeyWarnings,
+  locateErrors,
+  worstSeverity,
+  schemasAtPath,
+} from './core/validator';
+export { builtinFormats } from './core/formats';
+export type { ValidateOptions, RunValidatorsOptions, SchemaLookupOptions } from './core/validator';
+export { getCompletions } from './core/completion';
+export { generateFromSchema } from './core/generate';
+export type { GenerateOptions } from './core/generate';
+export { inferSchema } from './core/infer';
+export type { InferSchemaOptions } from './core/infer';
+export type {
+  CompletionItem,
+  CompletionKind,
+  CompletionSource,
+  CompletionResult,
+  CompletionProvider,
+  CompletionOptions,
+} from './core/completion';
 export { formatJson, minifyJson, sortJsonKeys, computeStats } from './core/formatter';
-export { getByPath, setByPath, deleteByPath, parsePath, buildPath } from './core/path';
+export { diffJson, acceptChange, counterpartPath } from './core/diff';
+export type { DiffKind, DiffOperation, DiffOptions } from './core/diff';
+export { applyPatch, createPatch, JsonPatchError } from './core/patch';
+export type { JsonPatchOperation } from './core/patch';
+export { applyTreeAction } from './core/edit';
+export type { TextEditOptions } from './core/edit';
+export { JsonNumber, isJsonNumber } from './core/number';
+export {
+  getByPath,
+  setByPath,
+  deleteByPath,
+  setBySegments,
+  deleteBySegments,
+  parsePath,
+  buildPath,
+  getParentPath,
+  queryPath,
+} from './core/path';
+export type { PathMatch } from './core/path';
 
 // Hooks (for custom editor builds)
 export { useJsonParser } from './hooks/useJsonParser';
 export { useUndoRedo } from './hooks/useUndoRedo';
 export { useSearch } from './hooks/useSearch';
 export { useContainerWidth } from './hooks/useContainerWidth';
+export { useErrorNavigation } from './hooks/useErrorNavigation';
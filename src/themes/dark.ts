@@ -23,4 +23,7 @@ export const darkTheme: ThemeConfig = {
   treeHover: '#2a2d2e',
   treeSelected: '#094771',
   typeBadgeBg: '#2d2d30',
+  diffAddedBg: '#23863633',
+  diffRemovedBg: '#da363333',
+  diffChangedBg: '#bb800926',
 };
@@ -23,4 +23,7 @@ export const lightTheme: ThemeConfig = {
   treeHover: '#f0f4ff',
   treeSelected: '#e0ecff',
   typeBadgeBg: '#eef2f7',
+  diffAddedBg: '#e6ffec',
+  diffRemovedBg: '#ffebe9',
+  diffChangedBg: '#fff5d6',
 };
@@ -50,4 +50,14 @@ export interface ThemeConfig {
   treeSelected: string;
   /** Type badge background */
   typeBadgeBg: string;
+
+  /**
+   * Diff mode: background of added lines and nodes. The diff colors are
+   * optional; without them the stylesheet's defaults apply.
+   */
+  diffAddedBg?: string;
+  /** Diff mode: background of removed lines and nodes */
+  diffRemovedBg?: string;
+  /** Diff mode: background of changed and moved lines and nodes */
+  diffChangedBg?: string;
 }
@@ -1,12 +1,32 @@
-import type { ValidationError, JSONSchema, CustomValidator } from './validation';
+import type {
+  ValidationError,
+  ValidationResult,
+  JSONSchema,
+  ValidatorEntry,
+  FormatChecker,
+  FormatMode,
+} from './validation';
 import type { ThemeConfig } from '../themes/types';
+import type { EditorMessages } from '../i18n/types';
+import type { DiffOptions } from '../core/diff';
+import type { JsonPatchOperation } from '../core/patch';
 
-/** Editing mode for the JSON editor */
-export type EditorMode = 'code' | 'tree' | 'split';
+/** Editing mode for the JSON editor; "diff" compares the document with `original` */
+export type EditorMode = 'code' | 'tree' | 'split' | 'diff';
 
-/** When to trigger validation */
+/** Diff mode layout: the two texts side by side, or one tree with the changes marked */
+export type DiffViewMode = 'side-by-side' | 'inline';
+
+/**
+ * When to trigger validation: after each edit ("onChange"), when focus leaves
+ * the editor ("onBlur"), when the enclosing form is submitted ("onSubmit"), or
+ * only through the `validate()` ref method ("manual")
+ */
 export type ValidationMode = 'onChange' | 'onBlur' | 'onSubmit' | 'manual';
 
+/** Input dialect: strict JSON, JSON with comments, or JSON5 */
+export type JsonFormat = 'json' | 'jsonc' | 'json5';
+
 /** Indentation configuration */
 export type IndentationType = 2 | 4 | 'tab';
 
@@ -16,20 +36,47 @@ export interface JsonEditorProps {
   value?: unknown;
   /** Called when the JSON value changes */
   onChange?: (value: unknown, rawText: string) => void;
+  /**
+   * Called with the JSON Patch (RFC 6902) from the last valid document to the
+   * new one, for every edit that leaves the text valid and changes the value
+   */
+  onPatch?: (patch: JsonPatchOperation[]) => void;
 
   /** Active editing mode */
   mode?: EditorMode;
   /** Called when the user switches modes */
   onModeChange?: (mode: EditorMode) => void;
+  /** Document to compare against in diff mode — a value or a raw JSON string, like `value` */
+  original?: unknown;
+  /** Called when a change is accepted into the original ("accept right") */
+  onOriginalChange?: (value: unknown, rawText: string) => void;
+  /** Diff mode layout (default "side-by-side") */
+  diffView?: DiffViewMode;
+  /** How diff mode pairs array items and what it leaves out */
+  diffOptions?: DiffOptions;
+  /** Dialect accepted by the editor — "jsonc" allows comments and trailing commas */
+  format?: JsonFormat;
+  /** Keep big integers and number spellings like `1.50` exact, as `JsonNumber` values */
+  losslessNumbers?: boolean;
 
   /** JSON Schema for validation (Draft-07, 2019-09, 2020-12) */
   schema?: JSONSchema;
-  /** Custom validator functions */
-  validators?: CustomValidator[];
+  /** Schemas that `$ref` may point to, keyed by URI (never fetched over the network) */
+  schemaRegistry?: Record<string, JSONSchema>;
+  /** Custom validators; async ones can be given a timeout and receive an AbortSignal */
+  validators?: ValidatorEntry[];
+  /** Custom `format` checkers by name, added to the built-in ones (email, uri, date-time, …) */
+  formats?: Record<string, FormatChecker>;
+  /** Report `format` mismatches as errors ("assertion", default) or warnings ("annotation") */
+  formatMode?: FormatMode;
   /** When to run validation */
   validationMode?: ValidationMode;
   /** Called when validation completes */
   onValidate?: (errors: ValidationError[]) => void;
+  /** Receives a schema inferred from the document; the toolbar offers "Infer schema" when set */
+  onInferSchema?: (schema: JSONSchema) => void;
+  /** Translations of validation messages (by schema keyword) and toolbar/search/status text */
+  messages?: EditorMessages;
 
   /** Theme: preset name, "auto" (follows OS), or custom config */
   theme?: 'light' | 'dark' | 'auto' | ThemeConfig;
@@ -69,6 +116,23 @@ export interface JsonEditorProps {
   'aria-label'?: string;
 }
 
+/** Imperative methods exposed through the JsonEditor `ref` */
+export interface JsonEditorHandle {
+  /**
+   * Validate the current text regardless of `validationMode`. Markers update
+   * and `onValidate` fires; syntax errors are included in the result at path "$".
+   */
+  validate: () => Promise<ValidationResult>;
+  /** The parsed value, or undefined while the text is invalid */
+  getValue: () => unknown;
+  /** Replace the content — a value, or a raw JSON string — as an undoable edit */
+  setValue: (value: unknown) => void;
+  /** Focus the code editor, or the tree when only the tree is shown */
+  focus: () => void;
+  /** Pretty-print the text with the configured indentation */
+  format: () => void;
+}
+
 /** Internal editor state shared across sub-components */
 export interface EditorState {
   /** The raw JSON text */
@@ -107,3 +171,25 @@ export interface ParseError {
   column: number;
   offset: number;
 }
+
+/** An object key that appears more than once in the same object */
+export interface DuplicateKey {
+  /** JSONPath of the member, shared by every occurrence */
+  path: string;
+  /** The repeated key */
+  key: string;
+  /** Every occurrence in source order — the last one is the value that wins */
+  occurrences: { value: unknown; location: NodeLocation }[];
+}
+
+/** Source offsets of a parsed node (end offsets are exclusive) */
+export interface NodeLocation {
+  /** Start offset of the value */
+  start: number;
+  /** End offset of the value */
+  end: number;
+  /** Start offset of the property key, including quotes (object members only) */
+  keyStart?: number;
+  /** End offset of the property key (object members only) */
+  keyEnd?: number;
+}
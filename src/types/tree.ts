@@ -30,7 +30,12 @@ export type TreeAction =
   | { type: 'SET_VALUE'; nodeId: string; value: unknown }
   | { type: 'SET_KEY'; nodeId: string; key: string }
   | { type: 'SET_TYPE'; nodeId: string; newType: JsonNodeType }
-  | { type: 'DELETE_NODE'; nodeId: string }
+  | {
+      type: 'DELETE_NODE';
+      nodeId: string;
+      /** For a duplicate key, which occurrence to delete (default: the last one) */
+      occurrence?: number;
+    }
   | { type: 'ADD_CHILD'; parentId: string; key: string; value: unknown }
   | { type: 'MOVE_NODE'; nodeId: string; targetParentId: string; targetIndex: number }
   | { type: 'DUPLICATE_NODE'; nodeId: string }
@@ -1,3 +1,5 @@
+import type { MessageParams } from '../i18n/types';
+
 /** Severity level for validation messages */
 export type ValidationSeverity = 'error' | 'warning' | 'info';
 
@@ -13,30 +15,117 @@ export interface ValidationError {
   line?: number;
   /** Column number in the raw text (1-based, if available) */
   column?: number;
+  /** Line where the offending text ends (1-based, if available) */
+  endLine?: number;
+  /** Column just past the offending text (1-based, exclusive, if available) */
+  endColumn?: number;
   /** The JSON Schema keyword that failed (e.g., "minimum", "required") */
   schemaKeyword?: string;
   /** The schema rule that was violated */
   schemaRule?: unknown;
   /** The actual value that failed validation */
   actualValue?: unknown;
+  /** Values the message was built from, for re-rendering it in another language */
+  params?: MessageParams;
+  /** For a failed anyOf/oneOf, the errors of the alternative that came closest */
+  causes?: ValidationError[];
 }
 
+/** JSON Schema draft whose keyword set applies */
+export type SchemaDialect = 'draft-07' | '2019-09' | '2020-12';
+
+/**
+ * How `format` mismatches are reported: as errors ("assertion", the default)
+ * or as warnings that leave the document valid ("annotation")
+ */
+export type FormatMode = 'assertion' | 'annotation';
+
+/** Checks a string against a named `format`; return false to reject it */
+export type FormatChecker = (value: string) => boolean;
+
 /** JSON Schema type — kept intentionally loose for broad draft support */
 export type JSONSchema = Record<string, unknown> & {
   type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  examples?: unknown[];
+  deprecated?: boolean;
+  readOnly?: boolean;
   properties?: Record<string, JSONSchema>;
-  items?: JSONSchema | JSONSchema[];
+  items?: JSONSchema | boolean | (JSONSchema | boolean)[];
+  prefixItems?: (JSONSchema | boolean)[];
+  additionalItems?: JSONSchema | boolean;
+  unevaluatedItems?: JSONSchema | boolean;
+  contains?: JSONSchema | boolean;
+  patternProperties?: Record<string, JSONSchema | boolean>;
+  additionalProperties?: JSONSchema | boolean;
+  unevaluatedProperties?: JSONSchema | boolean;
+  propertyNames?: JSONSchema | boolean;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JSONSchema | boolean>;
   required?: string[];
+  format?: string;
+  allOf?: (JSONSchema | boolean)[];
+  anyOf?: (JSONSchema | boolean)[];
+  oneOf?: (JSONSchema | boolean)[];
+  not?: JSONSchema | boolean;
+  if?: JSONSchema | boolean;
+  then?: JSONSchema | boolean;
+  else?: JSONSchema | boolean;
   $ref?: string;
   $schema?: string;
+  errorMessage?: ErrorMessageSpec;
 };
 
+/**
+ * Custom messages for a schema, in the style of ajv-errors. A string replaces
+ * every error raised by the schema and its subschemas. An object replaces
+ * errors by keyword, per property (`properties`) or item (`items`), per
+ * missing property (`required` as an object), and `_` covers the rest.
+ */
+export type ErrorMessageSpec =
+  | string
+  | {
+      [keyword: string]: string | string[] | Record<string, string> | undefined;
+      properties?: Record<string, string>;
+      items?: string[];
+      required?: string | Record<string, string>;
+      _?: string;
+    };
+
+/** Passed to custom validators on every run */
+export interface CustomValidatorContext {
+  /** Aborted when the run is superseded by a newer edit or the validator times out */
+  signal: AbortSignal;
+}
+
 /** Custom validator function — returns an array of errors (empty = valid) */
 export type CustomValidator = (
   value: unknown,
   path: string,
+  context: CustomValidatorContext,
 ) => ValidationError[] | Promise<ValidationError[]>;
 
+/** A custom validator with settings for how it is run */
+export interface CustomValidatorConfig {
+  validate: CustomValidator;
+  /**
+   * JSONPath pattern such as "$.users[*].email". The validator is then called
+   * once per matching node, with that node's value and concrete path.
+   */
+  path?: string;
+  /** Name used when reporting a failure or timeout (defaults to the function name) */
+  name?: string;
+  /** Milliseconds to wait before giving up on this validator */
+  timeout?: number;
+}
+
+/** What the `validators` prop accepts: a bare function or a configured one */
+export type ValidatorEntry = CustomValidator | CustomValidatorConfig;
+
 /** Result from the validation engine */
 export interface ValidationResult {
   valid: boolean;
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { CustomValidator, ValidationError } from '../../src/types/validation';
+
+/** A mock server check: each call waits until the test resolves it */
+function deferredValidator() {
+  const calls: { value: unknown; signal: AbortSignal; resolve: (e: ValidationError[]) => void }[] =
+    [];
+  const validate: CustomValidator = (value, _path, { signal }) =>
+    new Promise((resolve) => calls.push({ value, signal, resolve }));
+  return { validate, calls };
+}
+
+const waitForDebounce = () => act(() => new Promise((resolve) => setTimeout(resolve, 350)));
+
+describe('Async custom validators', () => {
+  it('shows a validating state while they run', async () => {
+    const server = deferredValidator();
+    render(<JsonEditor value={{ a: 1 }} validators={[server.validate]} />);
+    await waitForDebounce();
+    expect(screen.getByText('Validating…')).toBeInTheDocument();
+
+    await act(async () => {
+      server.calls[0].resolve([{ message: 'Taken', path: '$.a', severity: 'error' }]);
+    });
+    expect(screen.getByText('1 validation issue')).toBeInTheDocument();
+  });
+
+  it('cancels a stale run so its late result is dropped', async () => {
+    const server = deferredValidator();
+    render(<JsonEditor value={{ a: 1 }} validators={[server.validate]} />);
+    await waitForDebounce();
+
+    fireEvent.change(screen.getByTestId('code-editor-textarea'), {
+      target: { value: '{"a": 2}' },
+    });
+    expect(server.calls[0].signal.aborted).toBe(true);
+    await waitForDebounce();
+    expect(server.calls[1].value).toEqual({ a: 2 });
+
+    await act(async () => {
+      server.calls[1].resolve([]);
+      server.calls[0].resolve([{ message: 'Stale', path: '$.a', severity: 'error' }]);
+    });
+    expect(screen.getByText('Valid JSON')).toBeInTheDocument();
+  });
+
+  it.each([
+    ['blur', 'onBlur'],
+    ['submit', 'onSubmit'],
+  ] as const)('drops a run superseded by another %s without a rejection', async (_, mode) => {
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+    const server = deferredValidator();
+    render(
+      <form onSubmit={(e) => e.preventDefault()} data-testid="form">
+        <JsonEditor value={{ a: 1 }} validators={[server.validate]} validationMode={mode} />
+        <button>outside</button>
+      </form>,
+    );
+    const trigger = () =>
+      act(async () => {
+        if (mode === 'onBlur') {
+          fireEvent.blur(screen.getByTestId('code-editor-textarea'), {
+            relatedTarget: screen.getByText('outside'),
+          });
+        } else {
+          fireEvent.submit(screen.getByTestId('form'));
+        }
+      });
+    await trigger();
+    await trigger();
+    expect(server.calls[0].signal.aborted).toBe(true);
+
+    await act(async () => {
+      server.calls[1].resolve([{ message: 'Taken', path: '$.a', severity: 'error' }]);
+    });
+    await waitForDebounce();
+    process.off('unhandledRejection', unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+    expect(screen.getByText('1 validation issue')).toBeInTheDocument();
+  });
+
+  it('keeps other results when one validator fails', async () => {
+    render(
+      <JsonEditor
+        value={{ a: 1 }}
+        validators={[
+          () => [{ message: 'From the working one', path: '$.a', severity: 'error' }],
+          { name: 'remote', validate: () => Promise.reject(new Error('503')) },
+        ]}
+      />,
+    );
+    await waitForDebounce();
+    fireEvent.click(screen.getByText('2 validation issues'));
+    expect(screen.getByText('From the working one')).toBeInTheDocument();
+    expect(screen.getByText('Validator "remote" failed: 503')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { JSONSchema } from '../../src/types/validation';
+
+const SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Display name' },
+    role: { enum: ['admin', 'editor', 'viewer'], description: 'Access level' },
+    active: { type: 'boolean' },
+  },
+  required: ['role'],
+};
+
+function setup(text: string, cursor = text.indexOf('}')) {
+  const onChange = vi.fn();
+  render(<JsonEditor value={text} schema={SCHEMA} onChange={onChange} />);
+  const textarea = screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement;
+  textarea.focus();
+  textarea.setSelectionRange(cursor, cursor);
+  return { textarea, onChange };
+}
+
+const suggest = (textarea: HTMLElement) => fireEvent.keyDown(textarea, { key: ' ', ctrlKey: true });
+const options = () => within(screen.getByTestId('completion-popup')).getAllByRole('option');
+const labels = () => options().map((o) => o.querySelector('.mjr-completion__label')?.textContent);
+
+describe('Completion popup', () => {
+  it('opens on Ctrl+Space with property names, types and descriptions', () => {
+    const { textarea } = setup('{}');
+    suggest(textarea);
+
+    expect(screen.getByRole('listbox', { name: 'Suggestions' })).toBeInTheDocument();
+    expect(labels()).toEqual(['role', 'name', 'active']);
+    expect(options()[0]).toHaveTextContent('required');
+    expect(options()[0]).toHaveTextContent('Access level');
+    expect(options()[1]).toHaveTextContent('string');
+    expect(options()[0]).toHaveAttribute('aria-selected', 'true');
+    expect(textarea).toHaveAttribute('aria-expanded', 'true');
+    expect(textarea).toHaveAttribute('aria-activedescendant', 'mjr-completion-0');
+  });
+
+  it('moves the selection with the arrow keys and accepts with Enter', () => {
+    const { textarea, onChange } = setup('{}');
+    suggest(textarea);
+    fireEvent.keyDown(textarea, { key: 'ArrowDown' });
+    expect(options()[1]).toHaveAttribute('aria-selected', 'true');
+    fireEvent.keyDown(textarea, { key: 'ArrowUp' });
+    fireEvent.keyDown(textarea, { key: 'ArrowUp' });
+    expect(options()[2]).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith(undefined, '{"active": }');
+  });
+
+  it('goes on to suggest values after a property is accepted', () => {
+    const { textarea, onChange } = setup('{}');
+    suggest(textarea);
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith(undefined, '{"role": }');
+
+    expect(labels()).toEqual(['"admin"', '"editor"', '"viewer"']);
+    fireEvent.click(options()[1]);
+    expect(onChange).toHaveBeenLastCalledWith({ role: 'editor' }, '{"role": "editor"}');
+    expect(screen.queryByTestId('completion-popup')).not.toBeInTheDocument();
+  });
+
+  it('opens while typing and filters by the typed text', () => {
+    const { textarea } = setup('{"role": "admin", ', 18);
+    fireEvent.change(textarea, { target: { value: '{"role": "admin", n' } });
+    expect(labels()).toEqual(['name']);
+  });
+
+  it('suggests booleans for boolean properties', () => {
+    const { textarea } = setup('{"active": }');
+    suggest(textarea);
+    expect(labels()).toEqual(['true', 'false']);
+  });
+
+  it('closes on Escape without closing the search bar', () => {
+    const { textarea } = setup('{}');
+    fireEvent.click(screen.getByLabelText('Toggle search'));
+    textarea.focus();
+    suggest(textarea);
+    fireEvent.keyDown(textarea, { key: 'Escape' });
+    expect(screen.queryByTestId('completion-popup')).not.toBeInTheDocument();
+    expect(screen.getByRole('search')).toBeInTheDocument();
+  });
+
+  it('stays closed without a schema or when there is nothing to suggest', () => {
+    const { textarea } = setup('{"role": "admin"}', '{"role": "admin"}'.length);
+    suggest(textarea);
+    expect(screen.queryByTestId('completion-popup')).not.toBeInTheDocument();
+
+    render(<JsonEditor value="{}" mode="code" aria-label="Plain" />);
+    const plain = within(screen.getByLabelText('Plain')).getByTestId('code-editor-textarea');
+    suggest(plain);
+    expect(plain).not.toHaveAttribute('aria-expanded');
+  });
+});
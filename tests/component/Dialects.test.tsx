@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+const JSONC =
+  '{\n  // port to listen on\n  "port": 8080,\n  /* multi\n     line */\n  "debug": true,\n}';
+
+describe('JSON dialects', () => {
+  it('shows the active dialect in the toolbar', () => {
+    const { rerender } = render(<JsonEditor />);
+    expect(screen.getByTestId('format-indicator').textContent).toBe('JSON');
+    rerender(<JsonEditor format="json5" />);
+    expect(screen.getByTestId('format-indicator').textContent).toBe('JSON5');
+  });
+
+  it('flags comments as errors in strict JSON', () => {
+    render(<JsonEditor mode="code" value={JSONC} />);
+    expect(screen.getByTestId('gutter-error-2')).toBeInTheDocument();
+  });
+
+  it('accepts comments and trailing commas in JSONC', () => {
+    render(<JsonEditor mode="tree" format="jsonc" value={JSONC} />);
+    expect(screen.queryByText(/invalid json/i)).not.toBeInTheDocument();
+    expect(screen.getByTestId('tree-node-$.port')).toBeInTheDocument();
+    expect(screen.getByTestId('tree-node-$.debug')).toBeInTheDocument();
+  });
+
+  it('highlights comments, including block comments spanning lines', () => {
+    const { container } = render(<JsonEditor mode="code" format="jsonc" value={JSONC} />);
+    const comments = Array.from(container.querySelectorAll('.mjr-syn-comment')).map(
+      (el) => el.textContent,
+    );
+    expect(comments).toEqual(['// port to listen on', '/* multi', '     line */']);
+  });
+
+  it('reports parsed JSON5 values through onChange', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="code" format="json5" value="{}" onChange={onChange} />);
+    fireEvent.change(screen.getByTestId('code-editor-textarea'), {
+      target: { value: "{hex: 0x10, 'quoted': 'yes',}" },
+    });
+    expect(onChange).toHaveBeenLastCalledWith(
+      { hex: 16, quoted: 'yes' },
+      "{hex: 0x10, 'quoted': 'yes',}",
+    );
+  });
+});
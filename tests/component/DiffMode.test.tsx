@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+const ORIGINAL = '{\n  "a": 1,\n  "b": 2,\n  "gone": null\n}';
+const VALUE = '{\n  // edited\n  "a": 1,\n  "b": 3,\n  "c": true\n}';
+
+function setup(props: Partial<React.ComponentProps<typeof JsonEditor>> = {}) {
+  const onChange = vi.fn();
+  const onOriginalChange = vi.fn();
+  const { container } = render(
+    <JsonEditor
+      value={VALUE}
+      original={ORIGINAL}
+      mode="diff"
+      format="jsonc"
+      onChange={onChange}
+      onOriginalChange={onOriginalChange}
+      {...props}
+    />,
+  );
+  /** Class names of the lines of one pane */
+  const lines = (pane: 'original' | 'modified') =>
+    Array.from(
+      container.querySelectorAll(`[data-testid="diff-${pane}"] .mjr-code__line`),
+      (line) => line.className,
+    );
+  return { onChange, onOriginalChange, lines };
+}
+
+describe('Diff mode', () => {
+  it('offers the Diff tab only when there is an original', () => {
+    const { unmount } = render(<JsonEditor value="{}" />);
+    expect(screen.queryByRole('tab', { name: 'Diff' })).not.toBeInTheDocument();
+    unmount();
+    render(<JsonEditor value="{}" original="{}" />);
+    expect(screen.getByRole('tab', { name: 'Diff' })).toBeInTheDocument();
+  });
+
+  it('marks the changed lines of both texts side by side', () => {
+    const { lines } = setup();
+    const original = lines('original');
+    const modified = lines('modified');
+    expect(original[2]).toContain('mjr-code__line--diff-change');
+    expect(original[3]).toContain('mjr-code__line--diff-remove');
+    expect(original[1]).not.toContain('--diff-');
+    expect(modified[3]).toContain('mjr-code__line--diff-change');
+    expect(modified[4]).toContain('mjr-code__line--diff-add');
+    expect(screen.getByTestId('diff-count')).toHaveTextContent('3 changes');
+  });
+
+  it('steps through the changes with the buttons and F7', () => {
+    const { lines } = setup();
+    fireEvent.click(screen.getByLabelText('Next change'));
+    expect(screen.getByTestId('diff-count')).toHaveTextContent('Change 1 of 3');
+    expect(lines('original')[3]).toContain('mjr-code__line--diff-active');
+
+    fireEvent.keyDown(document, { key: 'F7' });
+    expect(screen.getByTestId('diff-count')).toHaveTextContent('Change 2 of 3');
+    expect(lines('modified')[3]).toContain('mjr-code__line--diff-active');
+
+    fireEvent.keyDown(document, { key: 'F7', shiftKey: true });
+    fireEvent.keyDown(document, { key: 'F7', shiftKey: true });
+    expect(screen.getByTestId('diff-count')).toHaveTextContent('Change 3 of 3');
+  });
+
+  it('accepts the left side into the document, keeping the rest of the text', () => {
+    const { onChange } = setup();
+    fireEvent.click(screen.getByLabelText('Next change'));
+    fireEvent.click(screen.getByLabelText('Next change'));
+    fireEvent.click(screen.getByRole('button', { name: 'Accept left' }));
+    const [value, text] = onChange.mock.lastCall ?? [];
+    expect(value).toEqual({ a: 1, b: 2, c: true });
+    expect(text).toContain('// edited');
+  });
+
+  it('accepts the right side into the original', () => {
+    const { onOriginalChange } = setup();
+    fireEvent.click(screen.getByLabelText('Next change'));
+    fireEvent.click(screen.getByRole('button', { name: 'Accept right' }));
+    expect(onOriginalChange).toHaveBeenLastCalledWith({ a: 1, b: 2 }, '{\n  "a": 1,\n  "b": 2\n}');
+    expect(screen.getByTestId('diff-count')).toHaveTextContent('Change 1 of 2');
+  });
+
+  it('only offers accepting into the original when read-only', () => {
+    setup({ readOnly: true });
+    expect(screen.queryByRole('button', { name: 'Accept left' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Accept right' })).toBeDisabled();
+  });
+
+  it('shows the changes in one tree inline, with removed values in place', () => {
+    setup({ diffView: 'inline' });
+    expect(screen.getByTestId('diff-$.b')).toHaveTextContent('changed');
+    expect(screen.getByTestId('diff-$.c')).toHaveTextContent('added');
+    expect(screen.getByTestId('tree-node-$.gone#removed')).toHaveClass(
+      'mjr-tree-node--diff-remove',
+    );
+    expect(screen.queryByTestId('delete-$.gone#removed')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Next change'));
+    expect(screen.getByTestId('tree-node-$.gone#removed')).toHaveClass('mjr-tree-node--revealed');
+  });
+
+  it('labels the inline changes from the ui catalog', () => {
+    setup({
+      diffView: 'inline',
+      messages: { ui: { diffAdded: 'neu', diffChanged: 'geändert' } },
+    });
+    expect(screen.getByTestId('diff-$.b')).toHaveTextContent('geändert');
+    expect(screen.getByTestId('diff-$.c')).toHaveTextContent('neu');
+    expect(screen.getByTestId('diff-$.gone#removed')).toHaveTextContent('removed');
+  });
+
+  it('says when a side does not parse', () => {
+    setup({ value: '{"a": ' });
+    expect(screen.getByTestId('diff-count')).toHaveTextContent('Fix the syntax errors to compare');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+const SOURCE = '{\n  "id": 1,\n  "name": "a",\n  "id": 2\n}';
+
+describe('Duplicate keys', () => {
+  it('shows every occurrence in the tree', () => {
+    render(<JsonEditor mode="tree" value={SOURCE} />);
+    expect(screen.getByTestId('value-$.id#0').textContent).toBe('1');
+    expect(screen.getByTestId('value-$.id').textContent).toBe('2');
+    expect(screen.getByTestId('tree-node-$.id#0').className).toContain('mjr-tree-node--shadowed');
+    expect(screen.getByTestId('duplicate-$.id').getAttribute('title')).toMatch(/wins/);
+  });
+
+  it('reports duplicate keys as warnings', async () => {
+    const onValidate = vi.fn();
+    render(<JsonEditor value={SOURCE} onValidate={onValidate} />);
+    await waitFor(() =>
+      expect(onValidate).toHaveBeenLastCalledWith([
+        expect.objectContaining({ severity: 'warning', path: '$.id', line: 4, column: 3 }),
+      ]),
+    );
+  });
+
+  it('keeps the later value by deleting the earlier occurrence', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" value={SOURCE} onChange={onChange} />);
+    fireEvent.click(screen.getByTestId('delete-$.id#0'));
+    expect(onChange).toHaveBeenLastCalledWith(
+      { name: 'a', id: 2 },
+      '{\n  "name": "a",\n  "id": 2\n}',
+    );
+  });
+
+  it('keeps the earlier value by deleting the later occurrence', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" value={SOURCE} onChange={onChange} />);
+    fireEvent.click(screen.getByTestId('delete-$.id'));
+    expect(onChange).toHaveBeenLastCalledWith(
+      { id: 1, name: 'a' },
+      '{\n  "id": 1,\n  "name": "a"\n}',
+    );
+  });
+
+  it('does not allow editing an overridden occurrence', () => {
+    render(<JsonEditor mode="tree" value={SOURCE} />);
+    fireEvent.doubleClick(screen.getByTestId('value-$.id#0'));
+    expect(screen.queryByTestId('edit-value-$.id#0')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+describe('Infer schema', () => {
+  it('passes a schema inferred from the document to onInferSchema', () => {
+    const onInferSchema = vi.fn();
+    render(<JsonEditor value={{ id: 1, tags: ['a'] }} readOnly onInferSchema={onInferSchema} />);
+    fireEvent.click(screen.getByLabelText('Infer schema'));
+    expect(onInferSchema).toHaveBeenCalledWith({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: { id: { type: 'integer' }, tags: { type: 'array', items: { type: 'string' } } },
+      required: ['id', 'tags'],
+    });
+  });
+
+  it('is disabled while the document does not parse and hidden without a handler', () => {
+    const { rerender } = render(<JsonEditor value='{"id": ' onInferSchema={vi.fn()} />);
+    expect(screen.getByLabelText('Infer schema')).toBeDisabled();
+    rerender(<JsonEditor value="{}" />);
+    expect(screen.queryByLabelText('Infer schema')).not.toBeInTheDocument();
+  });
+});
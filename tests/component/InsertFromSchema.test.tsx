@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { JSONSchema } from '../../src/types/validation';
+
+const SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['name', 'role', 'address'],
+  properties: {
+    name: { type: 'string' },
+    role: { enum: ['admin', 'viewer'], default: 'viewer' },
+    address: {
+      type: 'object',
+      required: ['city'],
+      properties: { city: { type: 'string', examples: ['Berlin'] } },
+    },
+  },
+};
+
+function setup(value: string, props: Partial<React.ComponentProps<typeof JsonEditor>> = {}) {
+  const onChange = vi.fn();
+  render(
+    <JsonEditor value={value} schema={SCHEMA} format="jsonc" onChange={onChange} {...props} />,
+  );
+  return { onChange, insert: () => fireEvent.click(screen.getByLabelText('Insert from schema')) };
+}
+
+describe('Insert from schema', () => {
+  it('fills an empty editor with a skeleton document', () => {
+    const { onChange, insert } = setup('');
+    insert();
+    expect(onChange).toHaveBeenLastCalledWith(
+      { name: '', role: 'viewer', address: { city: 'Berlin' } },
+      '{\n  "name": "",\n  "role": "viewer",\n  "address": {\n    "city": "Berlin"\n  }\n}',
+    );
+  });
+
+  it('adds only missing required fields and keeps the rest of the text', () => {
+    const text = '{\n  // who\n  "name": "Ada",\n  "address": {}\n}';
+    const { onChange, insert } = setup(text);
+    insert();
+    const [value, newText] = onChange.mock.lastCall ?? [];
+    expect(value).toEqual({ name: 'Ada', address: { city: 'Berlin' }, role: 'viewer' });
+    expect(newText).toContain('// who');
+  });
+
+  it('adds required properties named like Object.prototype members', () => {
+    const { onChange, insert } = setup('{\n  "name": "Ada"\n}', {
+      schema: {
+        type: 'object',
+        required: ['name', 'constructor'],
+        properties: { name: { type: 'string' }, constructor: { type: 'string' } },
+      },
+    });
+    insert();
+    expect(onChange).toHaveBeenLastCalledWith(
+      { name: 'Ada', constructor: '' },
+      '{\n  "name": "Ada",\n  "constructor": ""\n}',
+    );
+  });
+
+  it('leaves a complete document alone', () => {
+    const { onChange, insert } = setup(
+      '{"name": "Ada", "role": "admin", "address": {"city": "X"}}',
+    );
+    insert();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('leaves text that does not parse alone', () => {
+    const { onChange, insert } = setup('{"name": ');
+    insert();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('is only offered with a schema and while editable', () => {
+    const { rerender } = render(<JsonEditor value="{}" readOnly schema={SCHEMA} />);
+    expect(screen.queryByLabelText('Insert from schema')).not.toBeInTheDocument();
+    rerender(<JsonEditor value="{}" />);
+    expect(screen.queryByLabelText('Insert from schema')).not.toBeInTheDocument();
+  });
+});
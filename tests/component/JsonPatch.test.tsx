@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+const SOURCE = '{\n  "name": "Ann",\n  "tags": ["a"]\n}';
+
+function type(text: string) {
+  fireEvent.change(screen.getByTestId('code-editor-textarea'), { target: { value: text } });
+}
+
+describe('onPatch', () => {
+  it('sends a patch for a typed edit', () => {
+    const onPatch = vi.fn();
+    render(<JsonEditor value={SOURCE} onPatch={onPatch} />);
+    type('{\n  "name": "Bob",\n  "tags": ["a", "b"]\n}');
+    expect(onPatch).toHaveBeenCalledTimes(1);
+    expect(onPatch).toHaveBeenLastCalledWith([
+      { op: 'replace', path: '/name', value: 'Bob' },
+      { op: 'add', path: '/tags/1', value: 'b' },
+    ]);
+  });
+
+  it('sends a patch for a tree edit', () => {
+    const onPatch = vi.fn();
+    render(<JsonEditor mode="tree" value={SOURCE} onPatch={onPatch} />);
+    fireEvent.click(screen.getByTestId('delete-$.tags'));
+    expect(onPatch).toHaveBeenLastCalledWith([{ op: 'remove', path: '/tags' }]);
+  });
+
+  it('waits out invalid text and then sends everything since the last patch', () => {
+    const onPatch = vi.fn();
+    render(<JsonEditor value={SOURCE} onPatch={onPatch} />);
+    type('{\n  "name": "Bo');
+    type('{\n  "name": "Bob",\n  "tags": [');
+    expect(onPatch).not.toHaveBeenCalled();
+    type('{\n  "name": "Bob",\n  "tags": []\n}');
+    expect(onPatch).toHaveBeenCalledTimes(1);
+    expect(onPatch).toHaveBeenLastCalledWith([
+      { op: 'replace', path: '/name', value: 'Bob' },
+      { op: 'remove', path: '/tags/0' },
+    ]);
+  });
+
+  it('sends undo and redo as patches too', () => {
+    const onPatch = vi.fn();
+    const onChange = vi.fn();
+    render(<JsonEditor value={SOURCE} onPatch={onPatch} onChange={onChange} />);
+    type('{\n  "name": "Bob",\n  "tags": ["a"]\n}');
+    fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+    expect(onPatch).toHaveBeenLastCalledWith([{ op: 'replace', path: '/name', value: 'Ann' }]);
+    expect(onChange).toHaveBeenLastCalledWith({ name: 'Ann', tags: ['a'] }, SOURCE);
+
+    type('{\n  "name": "Ann",\n  "tags": []\n}');
+    expect(onPatch).toHaveBeenLastCalledWith([{ op: 'remove', path: '/tags/0' }]);
+
+    fireEvent.click(screen.getByLabelText('Undo'));
+    expect(onPatch).toHaveBeenLastCalledWith([{ op: 'add', path: '/tags/0', value: 'a' }]);
+    fireEvent.click(screen.getByLabelText('Redo'));
+    expect(onPatch).toHaveBeenLastCalledWith([{ op: 'remove', path: '/tags/0' }]);
+  });
+
+  it('starts from a new value given by the parent without sending it back', () => {
+    const onPatch = vi.fn();
+    const { rerender } = render(<JsonEditor value={SOURCE} onPatch={onPatch} />);
+    rerender(<JsonEditor value={{ name: 'Cy', tags: [] }} onPatch={onPatch} />);
+    expect(onPatch).not.toHaveBeenCalled();
+    type('{"name": "Cy", "tags": [1]}');
+    expect(onPatch).toHaveBeenLastCalledWith([{ op: 'add', path: '/tags/0', value: 1 }]);
+  });
+
+  it('sends nothing when only the formatting changed', () => {
+    const onPatch = vi.fn();
+    render(<JsonEditor value={SOURCE} onPatch={onPatch} />);
+    type('{"name":"Ann","tags":["a"]}');
+    expect(onPatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { EditorMessages } from '../../src/i18n/types';
+
+const GERMAN: EditorMessages = {
+  validation: {
+    minimum: 'Wert muss >= {limit} sein',
+    required: 'Pflichtfeld "{property}" fehlt',
+  },
+  ui: {
+    modeCode: 'Quelltext',
+    modeTree: 'Baum',
+    undo: 'Rückgängig',
+    formatDocument: 'Dokument formatieren',
+    toggleSearch: 'Suche umschalten',
+    searchQuery: 'Suchbegriff',
+    noResults: 'Keine Treffer',
+    matchCount: '{current} von {total}',
+    validJson: 'Gültiges JSON',
+    validationIssues: ({ count }) =>
+      Number(count) === 1 ? '1 Validierungsproblem' : `${count} Validierungsprobleme`,
+    errors: 'Fehler',
+    filterProblems: 'Probleme filtern',
+    treePartialNotice: ({ count }) => `Teilergebnis — ${count} Syntaxfehler beheben`,
+    addProperty: 'Eigenschaft hinzufügen',
+    customProperty: 'Eigene Eigenschaft',
+    propertyRequired: 'Pflicht',
+    deleteNode: '{key} löschen',
+    deleteNodeTitle: 'Löschen',
+  },
+};
+
+const SCHEMA = { type: 'object', properties: { age: { minimum: 18 } }, required: ['name'] };
+
+describe('Localization', () => {
+  it('renders toolbar text from the ui catalog', () => {
+    render(<JsonEditor value={{}} messages={GERMAN} />);
+    expect(screen.getByRole('tab', { name: 'Quelltext' })).toBeInTheDocument();
+    expect(screen.getByRole('tab', { name: 'Baum' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Rückgängig')).toBeInTheDocument();
+    expect(screen.getByLabelText('Dokument formatieren')).toBeInTheDocument();
+    // Keys the catalog leaves out fall back to English
+    expect(screen.getByRole('tab', { name: 'Split' })).toBeInTheDocument();
+  });
+
+  it('renders search bar text from the ui catalog', () => {
+    render(<JsonEditor value={{ a: 1 }} messages={GERMAN} />);
+    fireEvent.click(screen.getByLabelText('Suche umschalten'));
+    const input = screen.getByLabelText('Suchbegriff');
+
+    fireEvent.change(input, { target: { value: 'zzz' } });
+    expect(screen.getByText('Keine Treffer')).toBeInTheDocument();
+
+    fireEvent.change(input, { target: { value: 'a' } });
+    expect(screen.getByText('1 von 1')).toBeInTheDocument();
+  });
+
+  it('renders tree editor text from the ui catalog', () => {
+    const schema = { properties: { name: { type: 'string' } }, required: ['name'] };
+    render(<JsonEditor mode="tree" value={{ age: 20 }} schema={schema} messages={GERMAN} />);
+    expect(screen.getByTestId('delete-$.age')).toHaveAttribute('aria-label', 'age löschen');
+    expect(screen.getByTestId('delete-$.age')).toHaveAttribute('title', 'Löschen');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Eigenschaft hinzufügen' }));
+    const menu = screen.getByRole('menu', { name: 'Eigenschaft hinzufügen' });
+    expect(within(menu).getByRole('menuitem', { name: /^name/ })).toHaveTextContent('Pflicht');
+    expect(within(menu).getByRole('menuitem', { name: 'Eigene Eigenschaft' })).toBeInTheDocument();
+  });
+
+  it('renders the partial tree notice from the ui catalog', () => {
+    render(<JsonEditor mode="tree" value={'{\n  "a": 1\n  "b": 2\n}'} messages={GERMAN} />);
+    expect(screen.getByTestId('tree-partial-notice')).toHaveTextContent(
+      'Teilergebnis — 1 Syntaxfehler beheben',
+    );
+  });
+
+  it('shows a localized valid state', async () => {
+    render(<JsonEditor value={{ name: 'x' }} schema={SCHEMA} messages={GERMAN} />);
+    expect(await screen.findByText('Gültiges JSON')).toBeInTheDocument();
+  });
+
+  it('localizes validation messages and the problems panel', async () => {
+    render(<JsonEditor value={{ age: 3 }} schema={SCHEMA} messages={GERMAN} />);
+    fireEvent.click(await screen.findByText('2 Validierungsprobleme'));
+
+    const panel = screen.getByTestId('problems-panel');
+    expect(within(panel).getByLabelText('Probleme filtern')).toBeInTheDocument();
+    const errors = within(panel).getByRole('region', { name: 'Fehler (2)' });
+    expect(within(errors).getByText('Pflichtfeld "name" fehlt')).toBeInTheDocument();
+    expect(within(errors).getByText('Wert muss >= 18 sein')).toBeInTheDocument();
+  });
+
+  it('leaves schema errorMessage overrides untouched', async () => {
+    const schema = { ...SCHEMA, errorMessage: { required: 'Bitte einen Namen angeben' } };
+    render(<JsonEditor value={{}} schema={schema} messages={GERMAN} />);
+    fireEvent.click(await screen.findByText('1 Validierungsproblem'));
+    expect(screen.getByText('Bitte einen Namen angeben')).toBeInTheDocument();
+  });
+});
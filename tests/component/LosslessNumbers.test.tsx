@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import { JsonNumber } from '../../src/core/number';
+
+const SOURCE = '{"id": 12345678901234567890, "price": 1.50, "count": 3}';
+
+describe('Lossless numbers', () => {
+  it('marks lossless values with a precision badge', () => {
+    render(<JsonEditor mode="tree" losslessNumbers value={SOURCE} />);
+    expect(screen.getByTestId('value-$.id').textContent).toBe('12345678901234567890');
+    expect(screen.getByTestId('precision-$.id').getAttribute('title')).toMatch(/precision/);
+    expect(screen.getByTestId('precision-$.price')).toBeInTheDocument();
+    expect(screen.queryByTestId('precision-$.count')).not.toBeInTheDocument();
+  });
+
+  it('reports JsonNumber values through onChange', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" losslessNumbers value={SOURCE} onChange={onChange} />);
+    fireEvent.doubleClick(screen.getByTestId('value-$.count'));
+    const input = screen.getByTestId('edit-value-$.count');
+    fireEvent.change(input, { target: { value: '98765432109876543210' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith(
+      {
+        id: new JsonNumber('12345678901234567890'),
+        price: new JsonNumber('1.50'),
+        count: new JsonNumber('98765432109876543210'),
+      },
+      '{"id": 12345678901234567890, "price": 1.50, "count": 98765432109876543210}',
+    );
+  });
+
+  it('writes object values without rounding', () => {
+    render(<JsonEditor mode="code" value={{ id: new JsonNumber('12345678901234567890') }} />);
+    expect((screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement).value).toBe(
+      '{\n  "id": 12345678901234567890\n}',
+    );
+  });
+});
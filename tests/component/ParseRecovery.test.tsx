@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+const BROKEN = '{\n  "a": 1\n  "b": 2,\n  "c": [1 2]\n}';
+
+describe('Parse error recovery', () => {
+  it('marks every error line in the code gutter', () => {
+    render(<JsonEditor mode="code" value={BROKEN} />);
+    expect(screen.getByTestId('gutter-error-3')).toBeInTheDocument();
+    expect(screen.getByTestId('gutter-error-4')).toBeInTheDocument();
+    expect(screen.queryByTestId('gutter-error-2')).not.toBeInTheDocument();
+  });
+
+  it('summarises all errors in the status bar', () => {
+    render(<JsonEditor value={BROKEN} />);
+    const indicator = screen.getByText(/invalid json/i);
+    expect(indicator.textContent).toBe('Invalid JSON (2 errors, first on line 3)');
+    const title = indicator.closest('[title]')!.getAttribute('title')!;
+    expect(title.split('\n')).toHaveLength(2);
+  });
+
+  it('renders the partially parsed tree as read-only', () => {
+    render(<JsonEditor mode="tree" value={BROKEN} />);
+    expect(screen.getByTestId('tree-partial-notice').textContent).toContain('2 syntax errors');
+    expect(screen.getByTestId('tree-node-$.a')).toBeInTheDocument();
+    expect(screen.getByTestId('tree-node-$.b')).toBeInTheDocument();
+    expect(screen.queryByTestId('add-property')).not.toBeInTheDocument();
+  });
+
+  it('becomes editable again once the errors are fixed', () => {
+    render(<JsonEditor mode="split" value={BROKEN} />);
+    fireEvent.change(screen.getByTestId('code-editor-textarea'), {
+      target: { value: '{"a": 1, "b": 2}' },
+    });
+    expect(screen.queryByTestId('tree-partial-notice')).not.toBeInTheDocument();
+    expect(screen.getByTestId('add-property')).toBeInTheDocument();
+  });
+});
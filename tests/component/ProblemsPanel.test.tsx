@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import { StatusBar } from '../../src/components/StatusBar/StatusBar';
+import type { ValidationError } from '../../src/types/validation';
+
+const CURSOR = { line: 1, column: 1, offset: 0 };
+
+const ERRORS: ValidationError[] = [
+  { message: 'Expected type "string"', path: '$.zip', severity: 'error', schemaKeyword: 'type' },
+  { message: 'Must be at least 1', path: '$.zip', severity: 'error', schemaKeyword: 'minimum' },
+  { message: 'Unknown format', path: '$.site', severity: 'warning', line: 3, column: 11 },
+];
+
+function openPanel() {
+  fireEvent.click(screen.getByRole('button', { expanded: false }));
+  return screen.getByTestId('problems-panel');
+}
+
+describe('Problems panel', () => {
+  it('groups problems by severity and path', () => {
+    render(<StatusBar parseErrors={[]} validationErrors={ERRORS} cursor={CURSOR} stats={null} />);
+    const panel = openPanel();
+
+    const errors = within(panel).getByRole('region', { name: 'Errors (2)' });
+    expect(within(errors).getAllByText('$.zip')).toHaveLength(1);
+    expect(within(errors).getAllByRole('button')).toHaveLength(2);
+
+    const warnings = within(panel).getByRole('region', { name: 'Warnings (1)' });
+    expect(within(warnings).getByText('$.site')).toBeInTheDocument();
+    expect(within(warnings).getByText('Ln 3, Col 11')).toBeInTheDocument();
+  });
+
+  it('lists parse errors under "Syntax"', () => {
+    render(
+      <StatusBar
+        parseErrors={[{ message: 'Unexpected token', line: 2, column: 5, offset: 7 }]}
+        validationErrors={[]}
+        cursor={CURSOR}
+        stats={null}
+      />,
+    );
+    const panel = openPanel();
+    expect(within(panel).getByText('Syntax')).toBeInTheDocument();
+    expect(within(panel).getByText('Unexpected token')).toBeInTheDocument();
+  });
+
+  it('filters by message, path and keyword', () => {
+    render(<StatusBar parseErrors={[]} validationErrors={ERRORS} cursor={CURSOR} stats={null} />);
+    const panel = openPanel();
+    const filter = within(panel).getByLabelText('Filter problems');
+
+    fireEvent.change(filter, { target: { value: 'MINIMUM' } });
+    expect(within(panel).getByText('Must be at least 1')).toBeInTheDocument();
+    expect(within(panel).queryByText('Expected type "string"')).not.toBeInTheDocument();
+
+    fireEvent.change(filter, { target: { value: 'site' } });
+    expect(within(panel).queryByRole('region', { name: /Errors/ })).not.toBeInTheDocument();
+    expect(within(panel).getByText('Unknown format')).toBeInTheDocument();
+
+    fireEvent.change(filter, { target: { value: 'nothing like this' } });
+    expect(within(panel).getByText('No problems match the filter')).toBeInTheDocument();
+  });
+
+  it('reports clicked problems and can be closed', () => {
+    const onSelectProblem = vi.fn();
+    render(
+      <StatusBar
+        parseErrors={[]}
+        validationErrors={ERRORS}
+        cursor={CURSOR}
+        stats={null}
+        onSelectProblem={onSelectProblem}
+      />,
+    );
+    fireEvent.click(within(openPanel()).getByText('Unknown format'));
+    expect(onSelectProblem).toHaveBeenCalledWith(ERRORS[2]);
+
+    fireEvent.click(screen.getByLabelText('Close problems'));
+    expect(screen.queryByTestId('problems-panel')).not.toBeInTheDocument();
+  });
+
+  it('is not offered when there are no problems', () => {
+    render(<StatusBar parseErrors={[]} validationErrors={[]} cursor={CURSOR} stats={null} />);
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
+
+describe('Problems panel navigation', () => {
+  const VALUE = { name: 'Ada', address: { zip: 12345 } };
+  const SCHEMA = { properties: { address: { properties: { zip: { type: 'string' } } } } };
+
+  it('moves the cursor to the problem in code mode', async () => {
+    render(<JsonEditor value={VALUE} schema={SCHEMA} />);
+    fireEvent.click(await screen.findByText('1 validation issue'));
+    fireEvent.click(screen.getByText('Expected type "string", got "integer"'));
+
+    const textarea = screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement;
+    expect(textarea.value.slice(textarea.selectionStart, textarea.selectionEnd)).toBe('12345');
+    expect(document.activeElement).toBe(textarea);
+  });
+
+  it('selects the node in tree mode', async () => {
+    render(<JsonEditor mode="tree" value={VALUE} schema={SCHEMA} />);
+    fireEvent.click(await screen.findByText('1 validation issue'));
+    fireEvent.click(screen.getByText('Expected type "string", got "integer"'));
+
+    expect(screen.getByTestId('tree-node-$.address.zip').className).toContain(
+      'mjr-tree-node--revealed',
+    );
+  });
+
+  it('moves the cursor to a syntax error', () => {
+    render(<JsonEditor value={'{\n  "a": 1,,\n}'} />);
+    fireEvent.click(screen.getByText(/Invalid JSON/));
+    const panel = screen.getByTestId('problems-panel');
+    fireEvent.click(within(panel).getAllByRole('button', { name: /Ln 2/ })[0]);
+
+    const textarea = screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement;
+    expect(textarea.value.slice(0, textarea.selectionStart).split('\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { JSONSchema } from '../../src/types/validation';
+
+const SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    role: { enum: ['admin', 'editor', 'viewer'], default: 'viewer', description: 'Access level' },
+    active: { type: 'boolean' },
+    limit: { type: 'integer' },
+  },
+  required: ['name', 'active'],
+};
+
+const lastValue = (onChange: ReturnType<typeof vi.fn>) => onChange.mock.calls.at(-1)![0];
+
+describe('Schema-aware tree editing', () => {
+  it('lists the missing properties, required ones first', () => {
+    render(<JsonEditor mode="tree" value={{ name: 'Ann' }} schema={SCHEMA} />);
+    fireEvent.click(screen.getByTestId('add-property'));
+
+    const menu = screen.getByRole('menu', { name: 'Add property' });
+    const items = within(menu).getAllByRole('menuitem');
+    expect(items.map((item) => item.querySelector('.mjr-add-menu__name')?.textContent)).toEqual([
+      'active',
+      'role',
+      'limit',
+      undefined,
+    ]);
+    expect(items[0]).toHaveTextContent('boolean · required');
+    expect(items[1]).toHaveAttribute('title', 'Access level');
+    expect(items[3]).toHaveTextContent('Custom property');
+    expect(items[0]).toHaveFocus();
+  });
+
+  it('adds the chosen property with its default or an empty value of its type', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" value={{ name: 'Ann' }} schema={SCHEMA} onChange={onChange} />);
+
+    fireEvent.click(screen.getByTestId('add-property'));
+    fireEvent.click(screen.getByRole('menuitem', { name: /^role/ }));
+    expect(lastValue(onChange)).toEqual({ name: 'Ann', role: 'viewer' });
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('add-property'));
+    fireEvent.click(screen.getByRole('menuitem', { name: /^limit/ }));
+    expect(lastValue(onChange)).toEqual({ name: 'Ann', role: 'viewer', limit: 0 });
+  });
+
+  it('offers properties named like Object.prototype members', () => {
+    const onChange = vi.fn();
+    const schema: JSONSchema = { type: 'object', properties: { constructor: { type: 'string' } } };
+    render(<JsonEditor mode="tree" value={{ name: 'Ann' }} schema={schema} onChange={onChange} />);
+
+    fireEvent.click(screen.getByTestId('add-property'));
+    fireEvent.click(screen.getByRole('menuitem', { name: /^constructor/ }));
+    expect(Object.keys(lastValue(onChange))).toEqual(['name', 'constructor']);
+  });
+
+  it('still allows a custom property', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" value={{ name: 'Ann' }} schema={SCHEMA} onChange={onChange} />);
+    fireEvent.click(screen.getByTestId('add-property'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Custom property' }));
+    expect(lastValue(onChange)).toEqual({ name: 'Ann', newKey: '' });
+  });
+
+  it('navigates the menu with the keyboard and closes it on Escape', () => {
+    render(<JsonEditor mode="tree" value={{}} schema={SCHEMA} />);
+    fireEvent.click(screen.getByTestId('add-property'));
+    const items = screen.getAllByRole('menuitem');
+    fireEvent.keyDown(items[0], { key: 'ArrowUp' });
+    expect(items[items.length - 1]).toHaveFocus();
+    fireEvent.keyDown(items[items.length - 1], { key: 'ArrowDown' });
+    expect(items[0]).toHaveFocus();
+    fireEvent.keyDown(items[0], { key: 'Escape' });
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+  });
+
+  it('adds directly once every declared property is present', () => {
+    const onChange = vi.fn();
+    const value = { name: 'Ann', role: 'admin', active: true, limit: 1 };
+    render(<JsonEditor mode="tree" value={value} schema={SCHEMA} onChange={onChange} />);
+    fireEvent.click(screen.getByTestId('add-property'));
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(lastValue(onChange)).toEqual({ ...value, newKey: '' });
+  });
+
+  it('edits enum fields with a dropdown', () => {
+    const onChange = vi.fn();
+    render(
+      <JsonEditor mode="tree" value={{ role: 'editor' }} schema={SCHEMA} onChange={onChange} />,
+    );
+    const select = screen.getByTestId('choices-$.role') as HTMLSelectElement;
+    expect(Array.from(select.options).map((o) => o.text)).toEqual([
+      '"admin"',
+      '"editor"',
+      '"viewer"',
+    ]);
+    expect(select.selectedOptions[0].text).toBe('"editor"');
+
+    fireEvent.change(select, { target: { value: '0' } });
+    expect(lastValue(onChange)).toEqual({ role: 'admin' });
+  });
+
+  it('keeps a value outside the enum visible', () => {
+    render(<JsonEditor mode="tree" value={{ role: 'owner' }} schema={SCHEMA} />);
+    const select = screen.getByTestId('choices-$.role') as HTMLSelectElement;
+    expect(select.selectedOptions[0].text).toBe('"owner"');
+    expect(select.selectedOptions[0]).toBeDisabled();
+  });
+
+  it('toggles booleans with a checkbox', () => {
+    const onChange = vi.fn();
+    render(
+      <JsonEditor mode="tree" value={{ active: false }} schema={SCHEMA} onChange={onChange} />,
+    );
+    fireEvent.click(screen.getByTestId('checkbox-$.active'));
+    expect(lastValue(onChange)).toEqual({ active: true });
+  });
+
+  it('shows plain values when read-only', () => {
+    render(
+      <JsonEditor mode="tree" value={{ role: 'editor', active: true }} schema={SCHEMA} readOnly />,
+    );
+    expect(screen.queryByTestId('choices-$.role')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('checkbox-$.active')).not.toBeInTheDocument();
+    expect(screen.getByTestId('value-$.role')).toHaveTextContent('"editor"');
+  });
+
+  it('fills new array items from the item schema', () => {
+    const onChange = vi.fn();
+    render(
+      <JsonEditor
+        mode="tree"
+        value={[1]}
+        schema={{ type: 'array', items: { type: 'object' } }}
+        onChange={onChange}
+      />,
+    );
+    fireEvent.click(screen.getByTestId('add-property'));
+    expect(lastValue(onChange)).toEqual([1, {}]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { JSONSchema } from '../../src/types/validation';
+
+const SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    id: {
+      type: 'integer',
+      title: 'Identifier',
+      description: 'Assigned by the server',
+      readOnly: true,
+    },
+    name: { type: 'string', title: 'Name' },
+    legacy: { type: 'string', deprecated: true },
+    age: { type: 'integer' },
+    meta: {
+      type: 'object',
+      readOnly: true,
+      properties: { created: { type: 'string' } },
+    },
+  },
+  required: ['id', 'name'],
+};
+
+const VALUE = { id: 7, name: 'Ada', legacy: 'x', age: 'old', meta: { created: 'today' } };
+
+function setup(onChange = vi.fn()) {
+  render(<JsonEditor mode="tree" value={VALUE} schema={SCHEMA} onChange={onChange} />);
+  return onChange;
+}
+
+describe('Schema hints in the tree', () => {
+  it('shows the title with the description as its tooltip', () => {
+    setup();
+    expect(screen.getByTestId('schema-title-$.id')).toHaveTextContent('Identifier');
+    expect(screen.getByTestId('schema-title-$.id')).toHaveAttribute(
+      'title',
+      'Assigned by the server',
+    );
+    expect(screen.getByTestId('key-$.id')).toHaveAttribute('title', 'Assigned by the server');
+    expect(screen.getByTestId('schema-title-$.name')).toHaveTextContent('Name');
+    expect(screen.queryByTestId('schema-title-$.age')).not.toBeInTheDocument();
+  });
+
+  it('shows the expected type only where the value differs', () => {
+    setup();
+    expect(screen.getByTestId('expected-$.age')).toHaveTextContent('expects integer');
+    expect(screen.queryByTestId('expected-$.id')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('expected-$.name')).not.toBeInTheDocument();
+  });
+
+  it('takes the marker text from the ui catalog', () => {
+    render(
+      <JsonEditor
+        mode="tree"
+        value={VALUE}
+        schema={SCHEMA}
+        messages={{
+          ui: {
+            schemaExpects: 'erwartet {type}',
+            schemaRequired: 'Pflicht',
+            schemaReadOnlyTitle: 'Schreibgeschützt',
+          },
+        }}
+      />,
+    );
+    expect(screen.getByTestId('expected-$.age')).toHaveTextContent('erwartet integer');
+    expect(screen.getByTestId('required-$.name')).toHaveTextContent('Pflicht');
+    expect(screen.getByTestId('readonly-$.id')).toHaveAttribute('title', 'Schreibgeschützt');
+    // Keys the catalog leaves out fall back to English
+    expect(screen.getByTestId('deprecated-$.legacy')).toHaveTextContent('deprecated');
+  });
+
+  it('marks required, deprecated and read-only properties', () => {
+    setup();
+    expect(screen.getByTestId('required-$.id')).toBeInTheDocument();
+    expect(screen.getByTestId('required-$.name')).toBeInTheDocument();
+    expect(screen.queryByTestId('required-$.age')).not.toBeInTheDocument();
+    expect(screen.getByTestId('deprecated-$.legacy')).toBeInTheDocument();
+    expect(screen.getByTestId('key-$.legacy')).toHaveClass('mjr-tree__key--deprecated');
+    expect(screen.getByTestId('readonly-$.id')).toHaveTextContent('read-only');
+  });
+
+  it('blocks editing and deleting read-only values and everything inside them', () => {
+    const onChange = setup();
+    fireEvent.doubleClick(screen.getByTestId('value-$.id'));
+    expect(screen.queryByTestId('edit-value-$.id')).not.toBeInTheDocument();
+    fireEvent.doubleClick(screen.getByTestId('key-$.id'));
+    expect(screen.queryByLabelText('Edit key name')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('type-$.id')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Expand'));
+    fireEvent.doubleClick(screen.getByTestId('value-$.meta.created'));
+    expect(screen.queryByTestId('edit-value-$.meta.created')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('delete-$.meta.created')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('delete-$.meta')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('delete-$.id')).not.toBeInTheDocument();
+    expect(onChange).not.toHaveBeenCalled();
+
+    expect(screen.getByTestId('delete-$.name')).toBeInTheDocument();
+    fireEvent.doubleClick(screen.getByTestId('value-$.name'));
+    expect(screen.getByTestId('edit-value-$.name')).toBeInTheDocument();
+  });
+
+  it('shows no hints without a schema', () => {
+    render(<JsonEditor mode="tree" value={VALUE} />);
+    expect(screen.queryByTestId('required-$.id')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('schema-title-$.id')).not.toBeInTheDocument();
+    expect(screen.getByTestId('type-$.id')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+const SOURCE = '{\n  // owner\n  "name": "Ann",\n\n  "score": 1.0\n}';
+
+describe('Tree edits preserve the source text', () => {
+  it('changes only the edited value', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" format="jsonc" value={SOURCE} onChange={onChange} />);
+    fireEvent.doubleClick(screen.getByTestId('value-$.name'));
+    const input = screen.getByTestId('edit-value-$.name');
+    fireEvent.change(input, { target: { value: 'Bob' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith(
+      { name: 'Bob', score: 1 },
+      '{\n  // owner\n  "name": "Bob",\n\n  "score": 1.0\n}',
+    );
+  });
+
+  it('removes a deleted member without reformatting the rest', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" format="jsonc" value={SOURCE} onChange={onChange} />);
+    fireEvent.click(screen.getByTestId('delete-$.score'));
+    expect(onChange).toHaveBeenLastCalledWith(
+      { name: 'Ann' },
+      '{\n  // owner\n  "name": "Ann"\n\n}',
+    );
+  });
+
+  it('adds a property after the last member', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor mode="tree" format="jsonc" value={SOURCE} onChange={onChange} />);
+    fireEvent.click(screen.getByTestId('add-property'));
+    expect(onChange.mock.calls.at(-1)![1]).toBe(
+      '{\n  // owner\n  "name": "Ann",\n\n  "score": 1.0,\n  "newKey": ""\n}',
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+
+const VALUE = {
+  name: 'Ada',
+  address: { city: 'London', zip: 12345 },
+  tags: ['math', 42],
+};
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    address: { properties: { zip: { type: 'string' } } },
+    tags: { items: { type: 'string' } },
+  },
+  required: ['name', 'email'],
+};
+
+describe('Tree validation indicators', () => {
+  it('marks invalid nodes and expands their ancestors', async () => {
+    render(<JsonEditor mode="tree" value={VALUE} schema={SCHEMA} />);
+
+    const zip = await screen.findByTestId('issue-$.address.zip');
+    expect(zip.className).toContain('mjr-tree__issue--error');
+    expect(zip.getAttribute('title')).toBe('Expected type "string", got "integer"');
+    expect(screen.getByTestId('issue-$.tags[1]')).toBeInTheDocument();
+    // The missing "email" is reported on the object that lacks it
+    expect(screen.getByTestId('issue-$').getAttribute('title')).toBe(
+      'Missing required property "email"',
+    );
+    expect(screen.queryByTestId('issue-$.name')).not.toBeInTheDocument();
+  });
+
+  it('summarises problems inside a collapsed container', async () => {
+    render(<JsonEditor mode="tree" value={VALUE} schema={SCHEMA} />);
+    await screen.findByTestId('issue-$.address.zip');
+
+    fireEvent.click(
+      screen.getByLabelText('Collapse', { selector: '[data-testid="tree-node-$.address"] button' }),
+    );
+    expect(screen.getByTestId('issues-inside-$.address').textContent).toBe('1');
+  });
+
+  it('shows warnings with their own severity', async () => {
+    render(
+      <JsonEditor
+        mode="tree"
+        value={{ site: 'not a url' }}
+        schema={{ properties: { site: { format: 'uri' } } }}
+        formatMode="annotation"
+      />,
+    );
+    expect((await screen.findByTestId('issue-$.site')).className).toContain(
+      'mjr-tree__issue--warning',
+    );
+  });
+});
+
+describe('Error navigation', () => {
+  it('steps through errors in document order in tree mode', async () => {
+    render(<JsonEditor mode="tree" value={VALUE} schema={SCHEMA} />);
+    await screen.findByTestId('issue-$.address.zip');
+
+    const next = screen.getByLabelText('Next error');
+    fireEvent.click(next);
+    expect(screen.getByTestId('tree-node-$').className).toContain('mjr-tree-node--revealed');
+    fireEvent.click(next);
+    expect(screen.getByTestId('tree-node-$.address.zip').className).toContain(
+      'mjr-tree-node--revealed',
+    );
+    fireEvent.click(screen.getByLabelText('Previous error'));
+    expect(screen.getByTestId('tree-node-$').className).toContain('mjr-tree-node--revealed');
+  });
+
+  it('expands collapsed ancestors of the error navigated to', async () => {
+    render(<JsonEditor mode="tree" value={VALUE} schema={SCHEMA} />);
+    await screen.findByTestId('issue-$.address.zip');
+    fireEvent.click(
+      screen.getByLabelText('Collapse', { selector: '[data-testid="tree-node-$.address"] button' }),
+    );
+    expect(screen.queryByTestId('tree-node-$.address.zip')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(document, { key: 'F8' });
+    fireEvent.keyDown(document, { key: 'F8' });
+    expect(screen.getByTestId('tree-node-$.address.zip').className).toContain(
+      'mjr-tree-node--revealed',
+    );
+  });
+
+  it('selects the error range in code mode', async () => {
+    render(<JsonEditor value={VALUE} schema={SCHEMA} />);
+    await waitFor(() => expect(screen.getByLabelText('Next error')).toBeInTheDocument());
+
+    const textarea = screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement;
+    fireEvent.keyDown(document, { key: 'F8', shiftKey: true });
+    expect(textarea.value.slice(textarea.selectionStart, textarea.selectionEnd)).toBe('42');
+    expect(document.activeElement).toBe(textarea);
+    expect(screen.getByTestId('validation-tooltip').textContent).toContain(
+      'Expected type "string", got "integer"',
+    );
+  });
+
+  it('hides the navigation buttons when there are no errors', async () => {
+    render(<JsonEditor value={{ name: 'Ada', email: 'a@b.c' }} schema={SCHEMA} />);
+    await new Promise((resolve) => setTimeout(resolve, 350));
+    expect(screen.queryByLabelText('Next error')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { CustomValidator } from '../../src/types/validation';
+
+const SOURCE = '{\n  "name": "Ada",\n  "age": "old",\n  "extra": true\n}';
+const SCHEMA = {
+  type: 'object',
+  properties: { name: { type: 'string' }, age: { type: 'number' } },
+  additionalProperties: false,
+};
+
+function renderEditor(props: Partial<React.ComponentProps<typeof JsonEditor>> = {}) {
+  return render(<JsonEditor value={SOURCE} schema={SCHEMA} {...props} />);
+}
+
+describe('Inline validation markers', () => {
+  it('underlines the offending text and marks the gutter', async () => {
+    renderEditor();
+    await waitFor(() => expect(screen.getAllByTestId('squiggle-error')).toHaveLength(2));
+
+    const [age, extra] = screen.getAllByTestId('squiggle-error');
+    expect(age.textContent).toBe('"old"');
+    expect(extra.textContent).toBe('"extra"');
+    expect(screen.getByTestId('gutter-validation-3').className).toContain(
+      'mjr-code__gutter-icon--error',
+    );
+    expect(screen.getByTestId('gutter-validation-3').getAttribute('title')).toBe(
+      'Expected type "number", got "string"',
+    );
+    expect(screen.queryByTestId('gutter-validation-2')).not.toBeInTheDocument();
+  });
+
+  it('marks custom-validator errors by their path', async () => {
+    const validators: CustomValidator[] = [
+      (value) =>
+        (value as { name: string }).name.length < 5
+          ? [{ message: 'Name is short', path: '$.name', severity: 'warning' }]
+          : [],
+    ];
+    renderEditor({ schema: undefined, validators });
+    await waitFor(() => expect(screen.getByTestId('squiggle-warning').textContent).toBe('"Ada"'));
+    expect(screen.getByTestId('gutter-validation-2').className).toContain(
+      'mjr-code__gutter-icon--warning',
+    );
+  });
+
+  it('shows details when the caret is inside a marked range', async () => {
+    renderEditor();
+    await waitFor(() => expect(screen.getAllByTestId('squiggle-error')).toHaveLength(2));
+
+    const textarea = screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement;
+    textarea.selectionStart = textarea.selectionEnd = SOURCE.indexOf('"old"') + 2;
+    fireEvent.click(textarea);
+
+    const tooltip = screen.getByTestId('validation-tooltip');
+    expect(tooltip.textContent).toContain('Expected type "number", got "string"');
+    expect(tooltip.textContent).toContain('type: "number"');
+  });
+
+  it('shows details when hovering a squiggle', async () => {
+    renderEditor();
+    await waitFor(() => expect(screen.getAllByTestId('squiggle-error')).toHaveLength(2));
+
+    const extra = screen.getAllByTestId('squiggle-error')[1];
+    extra.getBoundingClientRect = () => ({ left: 100, right: 150, top: 40, bottom: 60 }) as DOMRect;
+    const textarea = screen.getByTestId('code-editor-textarea');
+
+    fireEvent.mouseMove(textarea, { clientX: 120, clientY: 50 });
+    expect(screen.getByTestId('validation-tooltip').textContent).toContain(
+      'Unexpected property "extra"additionalProperties: false',
+    );
+
+    fireEvent.mouseLeave(textarea);
+    expect(screen.queryByTestId('validation-tooltip')).not.toBeInTheDocument();
+  });
+
+  it('keeps search highlights inside marked ranges', async () => {
+    renderEditor();
+    await waitFor(() => expect(screen.getAllByTestId('squiggle-error')).toHaveLength(2));
+    fireEvent.click(screen.getByLabelText('Toggle search'));
+    fireEvent.change(screen.getByLabelText('Search query'), { target: { value: 'ol' } });
+
+    const match = screen.getByTestId('search-match-active');
+    expect(match.textContent).toBe('ol');
+    // The squiggle is split around the match, each piece still pointing at the same error
+    expect(match.closest('.mjr-code__squiggle')?.getAttribute('data-error-index')).toBe('0');
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react';
+import React, { createRef } from 'react';
+import { JsonEditor } from '../../src/JsonEditor';
+import type { JsonEditorHandle } from '../../src/types/editor';
+
+const SCHEMA = { properties: { age: { type: 'number' } } };
+const INVALID = { age: 'old' };
+
+/** Longer than the onChange debounce, so a skipped validation would have run */
+const settle = () => act(() => new Promise((resolve) => setTimeout(resolve, 350)));
+
+describe('validationMode', () => {
+  it('validates after changes in "onChange" mode', async () => {
+    render(<JsonEditor value={INVALID} schema={SCHEMA} />);
+    expect(await screen.findByText('1 validation issue')).toBeInTheDocument();
+  });
+
+  it('reports a schema that fails to run instead of throwing', async () => {
+    const onValidate = vi.fn();
+    const formats = {
+      broken: () => {
+        throw new Error('checker crashed');
+      },
+    };
+    render(
+      <JsonEditor
+        value={{ name: 'x' }}
+        schema={{ properties: { name: { format: 'broken' } } }}
+        formats={formats}
+        onValidate={onValidate}
+      />,
+    );
+    expect(await screen.findByText('1 validation issue')).toBeInTheDocument();
+    expect(onValidate).toHaveBeenLastCalledWith([
+      expect.objectContaining({
+        path: '$',
+        schemaKeyword: 'validationError',
+        message: 'Validation failed: checker crashed',
+      }),
+    ]);
+  });
+
+  it('waits for focus to leave the editor in "onBlur" mode', async () => {
+    const onValidate = vi.fn();
+    render(
+      <>
+        <JsonEditor
+          value={INVALID}
+          schema={SCHEMA}
+          validationMode="onBlur"
+          onValidate={onValidate}
+        />
+        <button>outside</button>
+      </>,
+    );
+    await settle();
+    expect(screen.getByText('Valid JSON')).toBeInTheDocument();
+
+    const textarea = screen.getByTestId('code-editor-textarea');
+    // Moving between parts of the editor is not a blur
+    fireEvent.blur(textarea, { relatedTarget: screen.getByLabelText('Format document') });
+    await settle();
+    expect(screen.getByText('Valid JSON')).toBeInTheDocument();
+
+    fireEvent.blur(textarea, { relatedTarget: screen.getByText('outside') });
+    expect(await screen.findByText('1 validation issue')).toBeInTheDocument();
+    expect(onValidate).toHaveBeenLastCalledWith([
+      expect.objectContaining({ path: '$.age', schemaKeyword: 'type' }),
+    ]);
+  });
+
+  it('validates when the enclosing form is submitted in "onSubmit" mode', async () => {
+    render(
+      <form onSubmit={(e) => e.preventDefault()} data-testid="form">
+        <JsonEditor value={INVALID} schema={SCHEMA} validationMode="onSubmit" />
+      </form>,
+    );
+    await settle();
+    expect(screen.getByText('Valid JSON')).toBeInTheDocument();
+
+    fireEvent.submit(screen.getByTestId('form'));
+    expect(await screen.findByText('1 validation issue')).toBeInTheDocument();
+  });
+
+  it('keeps earlier results on the edited text until validating again', async () => {
+    const ref = createRef<JsonEditorHandle>();
+    render(<JsonEditor ref={ref} value={INVALID} schema={SCHEMA} validationMode="manual" />);
+    await act(() => ref.current!.validate());
+    expect(screen.getByText('1 validation issue')).toBeInTheDocument();
+
+    const textarea = screen.getByTestId('code-editor-textarea');
+    fireEvent.change(textarea, { target: { value: '{\n  "name": "x",\n  "age": 1\n}' } });
+    await settle();
+    expect(screen.getByText('1 validation issue')).toBeInTheDocument();
+    // The marker follows "age" to its new line
+    expect(screen.getByTestId('gutter-validation-3')).toBeInTheDocument();
+
+    await act(() => ref.current!.validate());
+    expect(screen.getByText('Valid JSON')).toBeInTheDocument();
+  });
+});
+
+describe('JsonEditor ref', () => {
+  it('validate() resolves with the result in any mode', async () => {
+    const ref = createRef<JsonEditorHandle>();
+    render(<JsonEditor ref={ref} value={INVALID} schema={SCHEMA} validationMode="manual" />);
+
+    let result;
+    await act(async () => {
+      result = await ref.current!.validate();
+    });
+    expect(result).toEqual({
+      valid: false,
+      errors: [expect.objectContaining({ path: '$.age', line: 2 })],
+    });
+  });
+
+  it('validate() reports a validation that fails to run instead of rejecting', async () => {
+    const ref = createRef<JsonEditorHandle>();
+    const messages = {
+      validation: {
+        type: () => {
+          throw new Error('template crashed');
+        },
+      },
+    };
+    render(
+      <JsonEditor
+        ref={ref}
+        value={INVALID}
+        schema={SCHEMA}
+        messages={messages}
+        validationMode="manual"
+      />,
+    );
+
+    let result;
+    await act(async () => {
+      result = await ref.current!.validate();
+    });
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        expect.objectContaining({
+          path: '$',
+          schemaKeyword: 'validationError',
+          message: 'Validation failed: template crashed',
+        }),
+      ],
+    });
+    expect(screen.getByText('1 validation issue')).toBeInTheDocument();
+  });
+
+  it('validate() reports syntax errors', async () => {
+    const ref = createRef<JsonEditorHandle>();
+    render(<JsonEditor ref={ref} value={'{"a": }'} validationMode="manual" />);
+
+    let result;
+    await act(async () => {
+      result = await ref.current!.validate();
+    });
+    expect(result).toEqual({
+      valid: false,
+      errors: [expect.objectContaining({ path: '$', severity: 'error', line: 1 })],
+    });
+  });
+
+  it('getValue() and setValue() read and replace the content', async () => {
+    const ref = createRef<JsonEditorHandle>();
+    const onChange = vi.fn();
+    render(<JsonEditor ref={ref} value={{ a: 1 }} onChange={onChange} />);
+    expect(ref.current!.getValue()).toEqual({ a: 1 });
+
+    act(() => ref.current!.setValue({ b: [true] }));
+    expect(onChange).toHaveBeenLastCalledWith({ b: [true] }, expect.any(String));
+    await waitFor(() => expect(ref.current!.getValue()).toEqual({ b: [true] }));
+
+    act(() => ref.current!.setValue('{"raw": 1}'));
+    const textarea = screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement;
+    expect(textarea.value).toBe('{"raw": 1}');
+    // setValue is an undoable edit
+    expect(screen.getByLabelText('Undo')).not.toBeDisabled();
+  });
+
+  it('focus() and format() act on the editor', () => {
+    const ref = createRef<JsonEditorHandle>();
+    render(<JsonEditor ref={ref} value={'{"a":1}'} />);
+    const textarea = screen.getByTestId('code-editor-textarea') as HTMLTextAreaElement;
+
+    act(() => ref.current!.focus());
+    expect(document.activeElement).toBe(textarea);
+
+    act(() => ref.current!.format());
+    expect(textarea.value).toBe('{\n  "a": 1\n}');
+  });
+
+  it('focus() moves to the tree in tree mode', () => {
+    const ref = createRef<JsonEditorHandle>();
+    render(<JsonEditor ref={ref} mode="tree" value={{ a: 1 }} />);
+    act(() => ref.current!.focus());
+    expect(screen.getByTestId('tree-editor').contains(document.activeElement)).toBe(true);
+  });
+});
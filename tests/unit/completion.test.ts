@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { getCompletions } from '../../src/core/completion';
+import type { JSONSchema } from '../../src/types/validation';
+
+const SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    id: { type: 'integer', description: 'Unique identifier' },
+    name: { type: 'string', description: 'Display name' },
+    status: { enum: ['active', 'disabled'], default: 'active', description: 'Account state' },
+    admin: { type: 'boolean' },
+    kind: { const: 'user' },
+    address: { $ref: '#/$defs/address' },
+    tags: { type: 'array', items: { enum: ['a', 'b'] } },
+  },
+  $defs: {
+    address: {
+      type: 'object',
+      properties: { city: { type: 'string' }, country: { enum: ['NL', 'DE'] } },
+    },
+  },
+};
+
+/** Completions at the "|" in the text */
+function complete(textWithCursor: string, schema: JSONSchema = SCHEMA) {
+  const offset = textWithCursor.indexOf('|');
+  const text = textWithCursor.slice(0, offset) + textWithCursor.slice(offset + 1);
+  return getCompletions(text, offset, schema, { format: 'jsonc' });
+}
+
+const labels = (textWithCursor: string, schema?: JSONSchema) =>
+  complete(textWithCursor, schema)?.items.map((item) => item.label);
+
+describe('getCompletions', () => {
+  it('suggests properties with required ones first', () => {
+    const result = complete('{|}');
+    expect(result?.items.map((i) => i.label)).toEqual([
+      'name',
+      'id',
+      'status',
+      'admin',
+      'kind',
+      'address',
+      'tags',
+    ]);
+    expect(result?.items[0]).toEqual({
+      kind: 'property',
+      label: 'name',
+      insertText: '"name": ',
+      type: 'string',
+      required: true,
+      description: 'Display name',
+    });
+    expect(result).toMatchObject({ from: 1, to: 1, path: '$' });
+  });
+
+  it('leaves out properties already present', () => {
+    expect(labels('{"id": 1, |, "tags": []}')).toEqual([
+      'name',
+      'status',
+      'admin',
+      'kind',
+      'address',
+    ]);
+  });
+
+  it('filters by the partially typed key and replaces it', () => {
+    const result = complete('{"id": 1, "ad|"}');
+    expect(result?.items.map((i) => i.label)).toEqual(['admin', 'address']);
+    expect(result).toMatchObject({ from: 10, to: 14 });
+    expect(labels('{ na| }')).toEqual(['name']);
+  });
+
+  it('inserts only the key when a colon follows', () => {
+    expect(complete('{"n|": 1}')?.items[0].insertText).toBe('"name"');
+  });
+
+  it('follows $ref into nested objects', () => {
+    expect(labels('{"address": {|}}')).toEqual(['city', 'country']);
+    expect(labels('{"address": {"country": |}}')).toEqual(['"NL"', '"DE"']);
+  });
+
+  it('suggests default, enum, const and boolean values', () => {
+    expect(complete('{"status": |}')?.items).toEqual([
+      expect.objectContaining({
+        label: '"active"',
+        source: 'default',
+        description: 'Account state',
+      }),
+      expect.objectContaining({ label: '"disabled"', source: 'enum' }),
+    ]);
+    expect(labels('{"kind": |}')).toEqual(['"user"']);
+    expect(labels('{"admin": |}')).toEqual(['true', 'false']);
+    expect(labels('{"admin": f|}')).toEqual(['false']);
+  });
+
+  it('filters values inside a string', () => {
+    const result = complete('{"status": "d|"}');
+    expect(result?.items.map((i) => i.insertText)).toEqual(['"disabled"']);
+    expect(result).toMatchObject({ from: 11, to: 14 });
+  });
+
+  it('tracks array indexes', () => {
+    expect(labels('{"tags": ["a", |]}')).toEqual(['"a"', '"b"']);
+  });
+
+  it('offers nothing after a finished value or inside a comment', () => {
+    expect(complete('{"admin": true |}')).toBeNull();
+    expect(complete('{"id": 1} |')).toBeNull();
+    expect(complete('{ // na|\n}')).toBeNull();
+  });
+
+  it('narrows alternatives by the document when it is given', () => {
+    const schema: JSONSchema = {
+      oneOf: [
+        {
+          properties: { kind: { const: 'circle' }, radius: { type: 'number' } },
+          required: ['kind'],
+        },
+        { properties: { kind: { const: 'square' }, side: { type: 'number' } }, required: ['kind'] },
+      ],
+    };
+    const text = '{"kind": "square", }';
+    const offset = text.indexOf('}');
+    expect(getCompletions(text, offset, schema)?.items.map((i) => i.label)).toEqual([
+      'radius',
+      'side',
+    ]);
+    expect(
+      getCompletions(text, offset, schema, { document: { kind: 'square' } })?.items.map(
+        (i) => i.label,
+      ),
+    ).toEqual(['side']);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { acceptChange, counterpartPath, diffJson, type DiffOptions } from '../../src/core/diff';
+import { JsonNumber } from '../../src/core/number';
+
+describe('diffJson', () => {
+  it('finds nothing between equal documents', () => {
+    expect(diffJson({ a: [1, { b: null }] }, { a: [1, { b: null }] })).toEqual([]);
+    expect(diffJson(1, 1)).toEqual([]);
+  });
+
+  it('reports added, removed and changed members by path', () => {
+    expect(diffJson({ a: 1, b: { c: 'x' }, gone: true }, { a: 2, b: { c: 'x', d: [] } })).toEqual([
+      { kind: 'remove', path: '$.gone', oldValue: true },
+      { kind: 'change', path: '$.a', oldValue: 1, newValue: 2 },
+      { kind: 'add', path: '$.b.d', newValue: [] },
+    ]);
+  });
+
+  it('reports a change of type as one change', () => {
+    expect(diffJson({ a: { b: 1 } }, { a: [1] })).toEqual([
+      { kind: 'change', path: '$.a', oldValue: { b: 1 }, newValue: [1] },
+    ]);
+    expect(diffJson('x', null)).toEqual([
+      { kind: 'change', path: '$', oldValue: 'x', newValue: null },
+    ]);
+  });
+
+  it('pairs array items by index by default', () => {
+    expect(diffJson([1, 2, 3], [1, 5])).toEqual([
+      { kind: 'change', path: '$[1]', oldValue: 2, newValue: 5 },
+      { kind: 'remove', path: '$[2]', oldValue: 3 },
+    ]);
+    expect(diffJson([1], [1, 2])).toEqual([{ kind: 'add', path: '$[1]', newValue: 2 }]);
+  });
+
+  describe('with an array key', () => {
+    const before = [
+      { id: 1, name: 'Ada' },
+      { id: 2, name: 'Bob' },
+      { id: 3, name: 'Cy' },
+    ];
+
+    it('pairs items by identity and reports only the items that moved', () => {
+      const after = [
+        { id: 2, name: 'Bob' },
+        { id: 3, name: 'Cyrus' },
+        { id: 1, name: 'Ada' },
+        { id: 4, name: 'Di' },
+      ];
+      expect(diffJson(before, after, { arrayKey: 'id' })).toEqual([
+        { kind: 'change', path: '$[1].name', oldValue: 'Cy', newValue: 'Cyrus' },
+        { kind: 'move', path: '$[2]', from: '$[0]' },
+        { kind: 'add', path: '$[3]', newValue: { id: 4, name: 'Di' } },
+      ]);
+    });
+
+    it('reports removed items at their old index', () => {
+      expect(diffJson(before, [before[0], before[2]], { arrayKey: 'id' })).toEqual([
+        { kind: 'remove', path: '$[1]', oldValue: { id: 2, name: 'Bob' } },
+      ]);
+    });
+
+    it('falls back to indexes when identities are missing or repeat', () => {
+      const diff = (after: unknown[]) => diffJson(before, after, { arrayKey: 'id' });
+      expect(diff([{ name: 'Ada' }, ...before.slice(1)])).toEqual([
+        { kind: 'remove', path: '$[0].id', oldValue: 1 },
+      ]);
+      expect(diff([before[1], before[1], before[2]])).toEqual([
+        { kind: 'change', path: '$[0].id', oldValue: 1, newValue: 2 },
+        { kind: 'change', path: '$[0].name', oldValue: 'Ada', newValue: 'Bob' },
+      ]);
+    });
+  });
+
+  it('reports reordered keys unless key order is ignored', () => {
+    const a = { a: 1, b: 2, c: 3 };
+    const b = { b: 2, c: 3, a: 1 };
+    expect(diffJson(a, b)).toEqual([{ kind: 'move', path: '$.a', from: '$.a' }]);
+    expect(diffJson(a, b, { ignoreKeyOrder: true })).toEqual([]);
+  });
+
+  it('leaves out ignored paths and everything below them', () => {
+    const a = { updated: 1, users: [{ seen: 1, name: 'a' }, { seen: 2 }], meta: { x: 1 } };
+    const b = { updated: 2, users: [{ seen: 3, name: 'b' }, { seen: 4 }], meta: { x: 2 } };
+    expect(diffJson(a, b, { ignorePaths: ['$.updated', '$.users[*].seen', '$.meta'] })).toEqual([
+      { kind: 'change', path: '$.users[0].name', oldValue: 'a', newValue: 'b' },
+    ]);
+  });
+
+  it('compares lossless numbers by value unless a JavaScript number would round them', () => {
+    expect(diffJson({ n: new JsonNumber('1.50') }, { n: 1.5 })).toEqual([]);
+    const big = new JsonNumber('12345678901234567891');
+    expect(diffJson({ n: big }, { n: new JsonNumber('12345678901234567890') })).toHaveLength(1);
+    expect(diffJson({ n: big }, { n: new JsonNumber('12345678901234567891') })).toEqual([]);
+  });
+
+  it('handles documents with 10k nodes quickly', () => {
+    const make = (version: number) => ({
+      items: Array.from({ length: 2500 }, (_, i) => ({
+        id: i,
+        name: `item ${i}`,
+        version: i % 100 === 0 ? version : 1,
+      })),
+    });
+    const a = make(1);
+    const b = make(2);
+    b.items.reverse();
+
+    const start = performance.now();
+    const byKey = diffJson(a, b, { arrayKey: 'id' });
+    const byIndex = diffJson(a, b);
+    expect(performance.now() - start).toBeLessThan(1000);
+    expect(byKey.filter((op) => op.kind === 'change')).toHaveLength(25);
+    expect(byKey.filter((op) => op.kind === 'move')).toHaveLength(2499);
+    expect(byIndex.every((op) => op.kind === 'change')).toBe(true);
+  });
+});
+
+/** Take one side of every difference, one operation at a time, re-diffing in between */
+function resolveAll(a: unknown, b: unknown, side: 'a' | 'b', options: DiffOptions = {}) {
+  for (let step = 0; step < 50; step++) {
+    const [operation] = diffJson(a, b, options);
+    if (!operation) break;
+    if (side === 'a') b = acceptChange(a, b, operation, 'a', options);
+    else a = acceptChange(a, b, operation, 'b', options);
+  }
+  return side === 'a' ? b : a;
+}
+
+describe('acceptChange', () => {
+  const a = { name: 'old', tags: ['x', 'y'], gone: true, nested: { keep: 1, drop: 2 } };
+  const b = { nested: { keep: 1 }, name: 'new', tags: ['x', 'z', 'y'], extra: [1] };
+
+  it('makes one change on the other side', () => {
+    const [remove, move, , change] = diffJson(a, b);
+    expect([remove.kind, move.kind, change.kind]).toEqual(['remove', 'move', 'change']);
+    expect(acceptChange(a, b, remove, 'b')).not.toHaveProperty('gone');
+    expect(acceptChange(a, b, change, 'b')).toMatchObject({ name: 'new' });
+    expect(acceptChange(a, b, change, 'a')).toMatchObject({ name: 'old' });
+    // Back after the member it followed
+    expect(Object.keys(acceptChange(a, b, remove, 'a') as object)).toEqual([
+      'nested',
+      'name',
+      'tags',
+      'gone',
+      'extra',
+    ]);
+    expect(a).toEqual({ name: 'old', tags: ['x', 'y'], gone: true, nested: { keep: 1, drop: 2 } });
+  });
+
+  it('ends at the side taken once every operation is resolved, key order included', () => {
+    expect(JSON.stringify(resolveAll(a, b, 'b'))).toBe(JSON.stringify(b));
+    expect(JSON.stringify(resolveAll(a, b, 'a'))).toBe(JSON.stringify(a));
+  });
+
+  it('follows array items paired by key', () => {
+    const before = [{ id: 1 }, { id: 2, v: 'a' }, { id: 3 }];
+    const after = [{ id: 3 }, { id: 0 }, { id: 2, v: 'b' }];
+    const options = { arrayKey: 'id' };
+    expect(resolveAll(before, after, 'b', options)).toEqual(after);
+    expect(resolveAll(before, after, 'a', options)).toEqual(before);
+
+    const change = diffJson(before, after, options).find((op) => op.kind === 'change')!;
+    expect(change.path).toBe('$[2].v');
+    expect(acceptChange(before, after, change, 'b', options)).toEqual([
+      { id: 1 },
+      { id: 2, v: 'b' },
+      { id: 3 },
+    ]);
+  });
+
+  it('puts a removed item back where it was', () => {
+    const before = [{ id: 1 }, { id: 2 }, { id: 3 }];
+    const after = [{ id: 1 }, { id: 3 }];
+    const [remove] = diffJson(before, after, { arrayKey: 'id' });
+    expect(acceptChange(before, after, remove, 'a', { arrayKey: 'id' })).toEqual(before);
+  });
+});
+
+describe('counterpartPath', () => {
+  const a = {
+    items: [
+      { id: 1, v: 1 },
+      { id: 2, v: 2 },
+    ],
+  };
+  const b = { items: [{ id: 0 }, { id: 2, v: 3 }, { id: 1, v: 1 }] };
+
+  it('follows items paired by arrayKey to their index on the other side', () => {
+    expect(counterpartPath('$.items[2].v', b, a, 'id')).toBe('$.items[0].v');
+    expect(counterpartPath('$.items[0]', a, b, 'id')).toBe('$.items[2]');
+  });
+
+  it('keeps positions without a key or a partner', () => {
+    expect(counterpartPath('$.items[2].v', b, a)).toBe('$.items[2].v');
+    expect(counterpartPath('$.items[0]', b, a, 'id')).toBe('$.items[0]');
+    expect(counterpartPath('$', a, b)).toBe('$');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { applyTreeAction } from '../../src/core/edit';
+
+const DOC = `{
+  // service settings
+  "name": "api",
+  "ratio": 1.0,
+
+  "tags": ["a", "b", "c"],
+  "limits": {
+    "max": 10
+  }
+}`;
+
+function apply(text: string, action: Parameters<typeof applyTreeAction>[1]) {
+  return applyTreeAction(text, action, { format: 'jsonc' });
+}
+
+describe('applyTreeAction', () => {
+  it('replaces only the edited value', () => {
+    expect(apply(DOC, { type: 'SET_VALUE', nodeId: '$.name', value: 'web' })).toBe(
+      DOC.replace('"api"', '"web"'),
+    );
+  });
+
+  it('indents inserted multi-line values to their line', () => {
+    const result = apply(DOC, { type: 'SET_VALUE', nodeId: '$.limits.max', value: { hard: 1 } });
+    expect(result).toBe(DOC.replace('"max": 10', '"max": {\n      "hard": 1\n    }'));
+  });
+
+  it('renames a key in place', () => {
+    expect(apply(DOC, { type: 'SET_KEY', nodeId: '$.ratio', key: 'scale' })).toBe(
+      DOC.replace('"ratio"', '"scale"'),
+    );
+  });
+
+  it('refuses a rename that would duplicate a key', () => {
+    expect(apply(DOC, { type: 'SET_KEY', nodeId: '$.ratio', key: 'name' })).toBeNull();
+  });
+
+  it('deletes a member together with its line', () => {
+    expect(apply(DOC, { type: 'DELETE_NODE', nodeId: '$.name' })).toBe(
+      DOC.replace('  "name": "api",\n', ''),
+    );
+  });
+
+  it('deletes the last member and the comma before it', () => {
+    expect(apply(DOC, { type: 'DELETE_NODE', nodeId: '$.limits' })).toBe(
+      DOC.replace(
+        '"tags": ["a", "b", "c"],\n  "limits": {\n    "max": 10\n  }\n',
+        '"tags": ["a", "b", "c"]\n',
+      ),
+    );
+  });
+
+  it('deletes inline array elements', () => {
+    expect(apply(DOC, { type: 'DELETE_NODE', nodeId: '$.tags[0]' })).toContain('["b", "c"]');
+    expect(apply(DOC, { type: 'DELETE_NODE', nodeId: '$.tags[2]' })).toContain('["a", "b"]');
+  });
+
+  it('collapses a container when its only member is deleted', () => {
+    expect(apply(DOC, { type: 'DELETE_NODE', nodeId: '$.limits.max' })).toContain('"limits": {}');
+  });
+
+  it('appends children on a new line with matching indentation', () => {
+    expect(apply(DOC, { type: 'ADD_CHILD', parentId: '$', key: 'new', value: '' })).toBe(
+      DOC.replace('    "max": 10\n  }\n}', '    "max": 10\n  },\n  "new": ""\n}'),
+    );
+  });
+
+  it('appends inline children inline', () => {
+    expect(apply(DOC, { type: 'ADD_CHILD', parentId: '$.tags', key: '3', value: 'd' })).toContain(
+      '["a", "b", "c", "d"]',
+    );
+  });
+
+  it('keeps a trailing comma style when appending', () => {
+    expect(apply('{\n  "a": 1,\n}', { type: 'ADD_CHILD', parentId: '$', key: 'b', value: 2 })).toBe(
+      '{\n  "a": 1,\n  "b": 2,\n}',
+    );
+  });
+
+  it('expands an empty container', () => {
+    expect(
+      applyTreeAction('{"a": {}}', { type: 'ADD_CHILD', parentId: '$.a', key: 'b', value: true }),
+    ).toBe('{"a": {\n  "b": true\n}}');
+  });
+
+  it('deletes a chosen occurrence of a duplicate key', () => {
+    const text = '{\n  "id": 1,\n  "id": 2\n}';
+    expect(applyTreeAction(text, { type: 'DELETE_NODE', nodeId: '$.id', occurrence: 0 })).toBe(
+      '{\n  "id": 2\n}',
+    );
+    expect(applyTreeAction(text, { type: 'DELETE_NODE', nodeId: '$.id' })).toBe('{\n  "id": 1\n}');
+  });
+
+  it('returns null for text that does not parse', () => {
+    expect(applyTreeAction('{"a": 1,}', { type: 'DELETE_NODE', nodeId: '$.a' })).toBeNull();
+  });
+
+  it('returns null for unknown paths', () => {
+    expect(apply(DOC, { type: 'SET_VALUE', nodeId: '$.missing', value: 1 })).toBeNull();
+  });
+});
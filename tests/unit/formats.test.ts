@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { builtinFormats } from '../../src/core/formats';
+
+const cases: Record<string, { valid: string[]; invalid: string[] }> = {
+  'date-time': {
+    valid: ['1963-06-19T08:30:06.283185Z', '1963-06-19t08:30:06+02:00', '2024-02-29T23:59:60Z'],
+    invalid: [
+      '1963-06-19T08:30:06',
+      '1963-06-19 08:30:06Z',
+      '2023-02-29T00:00:00Z',
+      '1990-12-31T23:59:59+24:00',
+    ],
+  },
+  date: {
+    valid: ['1963-06-19', '2000-02-29'],
+    invalid: ['06/19/1963', '1900-02-29', '2020-13-01', '2020-04-31', '1998-1-20'],
+  },
+  time: {
+    valid: ['08:30:06Z', '08:30:06.5-05:00'],
+    invalid: ['08:30:06', '24:00:00Z', '08:60:00Z', '8:30:06Z'],
+  },
+  duration: {
+    valid: ['P4DT12H30M5S', 'P1Y', 'PT5S', 'P2W'],
+    invalid: ['P', 'PT', 'P1YT', 'P2W1D', '4DT12H30M5S'],
+  },
+  email: {
+    valid: ['joe.bloggs@example.com', 'te~st@example.com', 'joe@[127.0.0.1]', 'joe@[IPv6:::1]'],
+    invalid: ['2962', '.test@example.com', 'te..st@example.com', 'test.@example.com', 'a@-b.com'],
+  },
+  hostname: {
+    valid: ['www.example.com', 'xn--4gbwdl.xn--wgbh1c', 'example.com.', 'a'.repeat(63) + '.com'],
+    invalid: [
+      '-a-host-name-that-starts-with--',
+      'not_a_valid_host_name',
+      'a'.repeat(64) + '.com',
+      '',
+    ],
+  },
+  ipv4: {
+    valid: ['192.168.0.1', '0.0.0.0', '255.255.255.255'],
+    invalid: ['127.0.0.0.1', '256.256.256.256', '087.10.0.1', '1.2.3', '0x7f000001'],
+  },
+  ipv6: {
+    valid: ['::1', '::', '1::', '1:2:3:4:5:6:7:8', '::ffff:192.168.0.1', 'fe80::a:b:c:d'],
+    invalid: [
+      '12345::',
+      '1:2:3:4:5:6:7:8:9',
+      '1::2::3',
+      ':1:2',
+      '1.2.3.4::',
+      '::ffff:300.1.1.1',
+      'fe80::1%eth0',
+    ],
+  },
+  uri: {
+    valid: ['http://foo.bar/?baz=qux#quux', 'urn:isbn:0451450523', 'mailto:a@b.c', 'http://x/%20'],
+    invalid: ['//foo.bar/?baz=qux', '/abc', 'http://x/ y', 'http://x/%zz', 'http://x/ü'],
+  },
+  'uri-reference': {
+    valid: ['/abc', '#frag', '', 'http://foo.bar'],
+    invalid: ['\\\\WINDOWS\\fileshare', 'a b'],
+  },
+  iri: { valid: ['http://ƒøø.ßår/?∂éœ=πîx#πîüx'], invalid: ['/abc', 'http://x/ y'] },
+  'uri-template': {
+    valid: ['http://example.com/dictionary/{term:1}/{term}', '{+path}/here', 'no-vars'],
+    invalid: ['http://example.com/dictionary/{term:1}/{term', '{}', '{a}}'],
+  },
+  uuid: {
+    valid: ['2EB8AA08-AA98-11EA-B4AA-73B441D16380', '00000000-0000-0000-0000-000000000000'],
+    invalid: ['2eb8aa08-aa98-11ea-b4aa-73b441d1638', '2eb8aa08aa9811eab4aa73b441d16380'],
+  },
+  'json-pointer': {
+    valid: ['', '/foo/0', '/a~1b', '/m~0n'],
+    invalid: ['foo', '/foo/~', '/~2'],
+  },
+  'relative-json-pointer': { valid: ['1', '0/foo', '2#'], invalid: ['/foo', '-1/foo', '01/a'] },
+  regex: { valid: ['^[a-z]+$', '\\d{2}'], invalid: ['^(abc', '[z-a]'] },
+};
+
+describe('builtinFormats', () => {
+  for (const [format, { valid, invalid }] of Object.entries(cases)) {
+    describe(format, () => {
+      it.each(valid)('accepts %j', (value) => {
+        expect(builtinFormats[format](value)).toBe(true);
+      });
+      it.each(invalid)('rejects %j', (value) => {
+        expect(builtinFormats[format](value)).toBe(false);
+      });
+    });
+  }
+});
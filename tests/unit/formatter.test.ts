@@ -12,6 +12,12 @@ describe('formatJson', () => {
     expect(result).toBe('{\n    "a": 1\n}');
   });
 
+  it('formats with an indent string or any number of spaces', () => {
+    expect(formatJson('{"a":1}', '   ')).toBe('{\n   "a": 1\n}');
+    expect(formatJson('{"a":1}', '\t')).toBe('{\n\t"a": 1\n}');
+    expect(formatJson('{"a":1}', 3)).toBe('{\n   "a": 1\n}');
+  });
+
   it('formats with tab indent', () => {
     const result = formatJson('{"a":1}', 'tab');
     expect(result).toBe('{\n\t"a": 1\n}');
@@ -29,6 +35,28 @@ describe('formatJson', () => {
   });
 });
 
+describe('formatJson dialects', () => {
+  it('keeps number spellings as written', () => {
+    expect(formatJson('{"a":1.0}')).toBe('{\n  "a": 1.0\n}');
+  });
+
+  it('preserves comments in JSONC', () => {
+    const text = '{// top\n"a":1, /* inline */ "b":[1,2,],\n// tail\n}';
+    expect(formatJson(text, 2, 'jsonc')).toBe(
+      '{ // top\n  "a": 1, /* inline */\n  "b": [\n    1,\n    2,\n  ],\n  // tail\n}',
+    );
+  });
+
+  it('returns JSONC text unchanged when parsed as strict JSON', () => {
+    const text = '{"a": 1, // c\n}';
+    expect(formatJson(text)).toBe(text);
+  });
+
+  it('keeps JSON5 syntax intact', () => {
+    expect(formatJson("{a:'x',b:0x1F}", 2, 'json5')).toBe("{\n  a: 'x',\n  b: 0x1F\n}");
+  });
+});
+
 describe('minifyJson', () => {
   it('removes whitespace from formatted JSON', () => {
     const formatted = '{\n  "a": 1,\n  "b": 2\n}';
@@ -41,6 +69,12 @@ describe('minifyJson', () => {
   });
 });
 
+describe('minifyJson dialects', () => {
+  it('drops comments from JSONC', () => {
+    expect(minifyJson('{\n  // c\n  "a": 1 /* d */\n}', 'jsonc')).toBe('{"a":1}');
+  });
+});
+
 describe('sortJsonKeys', () => {
   it('sorts keys alphabetically ascending', () => {
     const json = '{"c":3,"a":1,"b":2}';
@@ -76,6 +110,19 @@ describe('sortJsonKeys', () => {
   });
 });
 
+describe('lossless number round-trips', () => {
+  const text = '{"b": 12345678901234567890, "a": 1.50}';
+
+  it('keeps literals through formatJson and minifyJson', () => {
+    expect(formatJson(text)).toContain('12345678901234567890');
+    expect(minifyJson(formatJson(text))).toBe('{"b":12345678901234567890,"a":1.50}');
+  });
+
+  it('keeps literals through sortJsonKeys', () => {
+    expect(sortJsonKeys(text)).toBe('{\n  "a": 1.50,\n  "b": 12345678901234567890\n}');
+  });
+});
+
 describe('computeStats', () => {
   it('computes stats for a simple object', () => {
     const stats = computeStats({ name: 'John', age: 30 });
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { generateFromSchema } from '../../src/core/generate';
+import { parseJson } from '../../src/core/parser';
+import { validateSchema } from '../../src/core/validator';
+import { JsonNumber } from '../../src/core/number';
+import type { JSONSchema } from '../../src/types/validation';
+
+const SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['id', 'name', 'status', 'kind', 'tags', 'address', 'created'],
+  properties: {
+    id: { type: 'integer', exclusiveMinimum: 0 },
+    name: { type: 'string', minLength: 3 },
+    nickname: { type: 'string' },
+    status: { enum: ['active', 'disabled'], default: 'disabled' },
+    kind: { const: 'user' },
+    tags: { type: 'array', minItems: 2, items: { enum: ['a', 'b'] } },
+    address: { $ref: '#/$defs/address' },
+    created: { type: 'string', format: 'date-time' },
+  },
+  $defs: {
+    address: {
+      type: 'object',
+      required: ['city'],
+      properties: { city: { type: 'string', examples: ['Amsterdam'] }, zip: { type: 'string' } },
+    },
+  },
+};
+
+describe('generateFromSchema', () => {
+  it('builds a valid skeleton from required properties', () => {
+    const value = generateFromSchema(SCHEMA);
+    expect(value).toEqual({
+      id: 1,
+      name: 'xxx',
+      status: 'disabled',
+      kind: 'user',
+      tags: ['a', 'a'],
+      address: { city: 'Amsterdam' },
+      created: '1970-01-01T00:00:00Z',
+    });
+    expect(validateSchema(value, SCHEMA).valid).toBe(true);
+  });
+
+  it('adds optional properties when asked', () => {
+    const value = generateFromSchema(SCHEMA, { includeOptional: true, useExamples: false });
+    expect(value).toMatchObject({ nickname: '', address: { city: '', zip: '' } });
+  });
+
+  it('keeps numbers within their bounds', () => {
+    const number = (schema: JSONSchema) => generateFromSchema({ type: 'number', ...schema });
+    expect(number({ minimum: 2.2, multipleOf: 0.5 })).toBe(2.5);
+    expect(number({ maximum: -3 })).toBe(-3);
+    expect(number({ exclusiveMaximum: 0 })).toBe(-1);
+    expect(generateFromSchema({ type: 'integer', exclusiveMinimum: 1.5 })).toBe(2);
+    expect(generateFromSchema({ type: ['null', 'boolean'] })).toBe(false);
+    expect(generateFromSchema({})).toBeNull();
+  });
+
+  it('merges allOf and takes the first branch of oneOf', () => {
+    const schema: JSONSchema = {
+      allOf: [{ required: ['a'] }, { required: ['b'], properties: { b: { type: 'array' } } }],
+      properties: {
+        shape: {
+          oneOf: [
+            { required: ['radius'], properties: { radius: { type: 'number', minimum: 1 } } },
+            { required: ['side'] },
+          ],
+        },
+      },
+      required: ['shape'],
+    };
+    const value = generateFromSchema(schema);
+    expect(value).toEqual({ a: null, b: [], shape: { radius: 1 } });
+    expect(validateSchema(value, schema).valid).toBe(true);
+  });
+
+  it('applies if/then once the values it depends on exist', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      required: ['type'],
+      properties: { type: { const: 'business' }, vat: { type: 'string', minLength: 2 } },
+      if: { properties: { type: { const: 'business' } } },
+      then: { required: ['vat'] },
+    };
+    expect(generateFromSchema(schema)).toEqual({ type: 'business', vat: 'xx' });
+  });
+
+  it('resolves references through the schema registry', () => {
+    const schemas = {
+      'https://example.com/point.json': {
+        type: 'object',
+        required: ['x', 'y'],
+        properties: { x: { type: 'number' }, y: { type: 'number' } },
+      },
+    };
+    const schema: JSONSchema = {
+      type: 'array',
+      minItems: 1,
+      items: { $ref: 'https://example.com/point.json' },
+    };
+    expect(generateFromSchema(schema, { schemas })).toEqual([{ x: 0, y: 0 }]);
+  });
+
+  it('stops recursive required properties at a fixed depth', () => {
+    const schema: JSONSchema = {
+      $defs: {
+        node: {
+          type: 'object',
+          required: ['next'],
+          properties: { next: { $ref: '#/$defs/node' } },
+        },
+      },
+      $ref: '#/$defs/node',
+    };
+    let depth = 0;
+    for (let node = generateFromSchema(schema) as { next?: unknown }; node.next; depth++) {
+      node = node.next as { next?: unknown };
+    }
+    expect(depth).toBe(16);
+  });
+
+  describe('with an existing document', () => {
+    it('adds only the missing required properties, at any depth', () => {
+      const document = { name: 'Ada', nickname: 'ada', tags: [], address: { zip: '1011' } };
+      expect(generateFromSchema(SCHEMA, { document })).toEqual({
+        name: 'Ada',
+        nickname: 'ada',
+        tags: [],
+        address: { zip: '1011', city: 'Amsterdam' },
+        id: 1,
+        status: 'disabled',
+        kind: 'user',
+        created: '1970-01-01T00:00:00Z',
+      });
+      expect(document).toEqual({
+        name: 'Ada',
+        nickname: 'ada',
+        tags: [],
+        address: { zip: '1011' },
+      });
+    });
+
+    it('adds required properties named like Object.prototype members', () => {
+      const schema = {
+        type: 'object',
+        required: ['constructor', 'toString', 'hasOwnProperty'],
+        properties: {
+          constructor: { type: 'string' },
+          toString: { type: 'boolean' },
+          hasOwnProperty: { type: 'integer' },
+        },
+      };
+      expect(generateFromSchema(schema, { document: {} })).toEqual({
+        constructor: '',
+        toString: false,
+        hasOwnProperty: 0,
+      });
+    });
+
+    it('keeps a "__proto__" member as an ordinary key', () => {
+      const document = parseJson('{"__proto__": {"x": 1}, "b": 1}').value;
+      const schema = {
+        type: 'object',
+        required: ['a', '__proto__'],
+        properties: { a: { type: 'integer' }, ['__proto__']: { type: 'object' } },
+      };
+      const result = generateFromSchema(schema, { document }) as Record<string, unknown>;
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.keys(result)).toEqual(['__proto__', 'b', 'a']);
+      expect(Object.getOwnPropertyDescriptor(result, '__proto__')?.value).toEqual({ x: 1 });
+
+      const created = generateFromSchema(schema) as Record<string, unknown>;
+      expect(Object.keys(created)).toEqual(['a', '__proto__']);
+      expect(Object.getPrototypeOf(created)).toBe(Object.prototype);
+    });
+
+    it('completes array items and follows the branch the document matches', () => {
+      const schema: JSONSchema = {
+        type: 'array',
+        items: {
+          oneOf: [
+            { required: ['kind', 'radius'], properties: { kind: { const: 'circle' } } },
+            { required: ['kind', 'side'], properties: { kind: { const: 'square' } } },
+          ],
+        },
+      };
+      const document = [{ kind: 'square' }, { kind: 'circle', radius: 2 }];
+      expect(generateFromSchema(schema, { document })).toEqual([
+        { kind: 'square', side: null },
+        { kind: 'circle', radius: 2 },
+      ]);
+    });
+
+    it('leaves values of the wrong type and lossless numbers alone', () => {
+      const id = new JsonNumber('12345678901234567890');
+      expect(generateFromSchema(SCHEMA, { document: 'text' })).toBe('text');
+      expect(
+        generateFromSchema({ type: 'object', properties: { id: {} } }, { document: { id } }),
+      ).toEqual({ id });
+    });
+  });
+});
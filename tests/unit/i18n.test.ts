@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { formatMessage, localizeErrors } from '../../src/i18n/format';
+import { englishValidationMessages } from '../../src/i18n/en';
+import { validateSchema, duplicateKeyWarnings } from '../../src/core/validator';
+import { parseJson } from '../../src/core/parser';
+import type { ValidationMessages } from '../../src/i18n/types';
+
+const german: ValidationMessages = {
+  minimum: 'Wert muss >= {limit} sein',
+  required: 'Pflichtfeld "{property}" fehlt',
+  type: ({ expected }) => `Typ "${expected}" erwartet`,
+  duplicateKey: 'Doppelter Schlüssel "{key}"',
+};
+
+describe('formatMessage', () => {
+  it('fills placeholders from params', () => {
+    expect(formatMessage('{a} and {b}', { a: 1, b: 'two' })).toBe('1 and two');
+  });
+
+  it('leaves unknown placeholders visible', () => {
+    expect(formatMessage('Hello {nmae}', { name: 'x' })).toBe('Hello {nmae}');
+  });
+
+  it('calls function templates with the params', () => {
+    expect(formatMessage(({ n }) => `${n}!`, { n: 3 })).toBe('3!');
+  });
+});
+
+describe('English catalog', () => {
+  it('renders the built-in messages from params', () => {
+    const { errors } = validateSchema(
+      { a: 5 },
+      { properties: { a: { minimum: 10, type: 'string' } }, required: ['b'] },
+    );
+    expect(errors.map((e) => [e.schemaKeyword, e.message, e.params])).toEqual([
+      ['required', 'Missing required property "b"', { property: 'b' }],
+      ['type', 'Expected type "string", got "integer"', { expected: 'string', actual: 'integer' }],
+      ['minimum', 'Value must be >= 10', { limit: 10 }],
+    ]);
+  });
+
+  it('distinguishes variants through params', () => {
+    const oneOf = { oneOf: [{ type: 'number' }, { minimum: 0 }] };
+    expect(validateSchema(1, oneOf).errors[0].message).toBe(
+      'Value matched 2 of 2 alternatives (#1, #2) but must match exactly one',
+    );
+    expect(
+      validateSchema(-1.5, { oneOf: [{ type: 'string' }, { minimum: 0 }] }).errors[0],
+    ).toMatchObject({
+      message: 'Value did not match any of 2 alternatives',
+      params: { count: 2, matchCount: 0 },
+    });
+    expect(formatMessage(englishValidationMessages.$ref, { ref: '#/x', reason: 'circular' })).toBe(
+      'Circular $ref "#/x"',
+    );
+  });
+});
+
+describe('localizeErrors', () => {
+  it('re-renders engine messages from the catalog', () => {
+    const { errors } = validateSchema({ a: 5 }, { properties: { a: { minimum: 10 } } });
+    expect(localizeErrors(errors, german)[0].message).toBe('Wert muss >= 10 sein');
+  });
+
+  it('keeps keywords the catalog does not cover in English', () => {
+    const { errors } = validateSchema('x', { maxLength: 0 });
+    expect(localizeErrors(errors, german)[0].message).toBe('String must be at most 0 characters');
+  });
+
+  it('leaves errors without params alone', () => {
+    const custom = { message: 'Eigene Meldung', path: '$', severity: 'error' as const };
+    expect(localizeErrors([{ ...custom, schemaKeyword: 'minimum' }], german)[0].message).toBe(
+      'Eigene Meldung',
+    );
+  });
+
+  it('translates nested causes', () => {
+    const { errors } = validateSchema(5, { anyOf: [{ type: 'string' }, { minimum: 10 }] });
+    const [anyOf] = localizeErrors(errors, german);
+    expect(anyOf.causes?.map((e) => e.message)).toEqual(['Wert muss >= 10 sein']);
+  });
+
+  it('covers duplicate key warnings', () => {
+    const text = '{"a": 1, "a": 2}';
+    const warnings = duplicateKeyWarnings(text, parseJson(text).duplicateKeys);
+    expect(localizeErrors(warnings, german)[0].message).toBe('Doppelter Schlüssel "a"');
+  });
+
+  it('is applied by validateSchema through the messages option', () => {
+    const { errors } = validateSchema({}, { required: ['name'] }, '$', { messages: german });
+    expect(errors[0].message).toBe('Pflichtfeld "name" fehlt');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { inferSchema } from '../../src/core/infer';
+import { validateSchema } from '../../src/core/validator';
+import { JsonNumber } from '../../src/core/number';
+
+const DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+describe('inferSchema', () => {
+  it('describes scalars and marks the root with the 2020-12 dialect', () => {
+    expect(inferSchema('text')).toEqual({ $schema: DRAFT, type: 'string' });
+    expect(inferSchema(3)).toEqual({ $schema: DRAFT, type: 'integer' });
+    expect(inferSchema(3.5)).toEqual({ $schema: DRAFT, type: 'number' });
+    expect(inferSchema(new JsonNumber('12345678901234567890'))).toMatchObject({ type: 'integer' });
+    expect(inferSchema(null)).toEqual({ $schema: DRAFT, type: 'null' });
+    expect(inferSchema(undefined)).toEqual({ $schema: DRAFT });
+  });
+
+  it('lists object properties and requires the ones every object has', () => {
+    const users = [
+      { id: 1, name: 'Ada', admin: true },
+      { id: 2, name: 'Bob', nickname: 'bobby' },
+    ];
+    expect(inferSchema(users)).toEqual({
+      $schema: DRAFT,
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          admin: { type: 'boolean' },
+          nickname: { type: 'string' },
+        },
+        required: ['id', 'name'],
+      },
+    });
+  });
+
+  it('merges the types of array items', () => {
+    expect(inferSchema([1, 2.5, null])).toMatchObject({
+      items: { type: ['number', 'null'] },
+    });
+    expect(inferSchema([[], []])).toMatchObject({ items: { type: 'array' } });
+    expect(inferSchema([{ a: 1 }, 'x'])).toMatchObject({
+      items: {
+        anyOf: [
+          { type: 'object', properties: { a: { type: 'integer' } }, required: ['a'] },
+          { type: 'string' },
+        ],
+      },
+    });
+  });
+
+  it('detects string formats every value satisfies', () => {
+    const schema = inferSchema({
+      created: ['2024-01-02T10:00:00Z', '2024-02-03T11:30:00+01:00'],
+      day: ['2024-01-02'],
+      email: ['ada@example.com'],
+      id: ['123e4567-e89b-12d3-a456-426614174000'],
+      site: ['https://example.com'],
+      mixed: ['2024-01-02', 'soon'],
+    });
+    const formats = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, { items: { format?: string } }>).map(
+        ([key, value]) => [key, value.items.format],
+      ),
+    );
+    expect(formats).toEqual({
+      created: 'date-time',
+      day: 'date',
+      email: 'email',
+      id: 'uuid',
+      site: 'uri',
+      mixed: undefined,
+    });
+    expect(inferSchema('ada@example.com', { detectFormats: false })).not.toHaveProperty('format');
+  });
+
+  it('writes enums for strings that repeat a few values', () => {
+    const items = (values: string[], options = {}) =>
+      (inferSchema(values, options) as { items: unknown }).items;
+    expect(items(['admin', 'viewer', 'admin'])).toEqual({
+      type: 'string',
+      enum: ['admin', 'viewer'],
+    });
+    expect(items(['a', 'b', 'c'])).toEqual({ type: 'string' });
+    expect(items(['a', 'b', 'c', 'a'], { maxEnumValues: 2 })).toEqual({ type: 'string' });
+    expect(items(['a', 'a'], { maxEnumValues: 0 })).toEqual({ type: 'string' });
+  });
+
+  it('merges several samples into one schema', () => {
+    const schema = inferSchema(
+      [
+        { id: 1, status: 'open', tags: ['x'] },
+        { id: 2.5, status: 'closed', owner: null },
+        { id: 3, status: 'open', tags: [] },
+      ],
+      { samples: true },
+    );
+    expect(schema).toEqual({
+      $schema: DRAFT,
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        status: { type: 'string', enum: ['open', 'closed'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        owner: { type: 'null' },
+      },
+      required: ['id', 'status'],
+    });
+  });
+
+  it('infers schemas the samples validate against', () => {
+    const document = {
+      users: [
+        { id: 1, email: 'ada@example.com', role: 'admin', tags: [] },
+        { id: 2, email: 'bob@example.com', role: 'viewer', tags: ['x', 2], note: null },
+        { id: 3, email: 'cy@example.com', role: 'admin', tags: [{ a: 1 }] },
+      ],
+      updated: '2024-01-02T10:00:00Z',
+    };
+    expect(validateSchema(document, inferSchema(document))).toEqual({ valid: true, errors: [] });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  JsonNumber,
+  isJsonNumber,
+  isNumberRoundTripSafe,
+  exceedsNumberPrecision,
+} from '../../src/core/number';
+import { validateSchema } from '../../src/core/validator';
+
+describe('JsonNumber', () => {
+  it('keeps the literal and converts to the nearest number', () => {
+    const n = new JsonNumber('1.50');
+    expect(n.raw).toBe('1.50');
+    expect(String(n)).toBe('1.50');
+    expect(+n).toBe(1.5);
+    expect(JSON.stringify({ n })).toBe('{"n":1.5}');
+  });
+
+  it('rejects invalid literals', () => {
+    expect(() => new JsonNumber('0x10')).toThrow(SyntaxError);
+  });
+
+  it('is recognised by isJsonNumber', () => {
+    expect(isJsonNumber(new JsonNumber('1'))).toBe(true);
+    expect(isJsonNumber(1)).toBe(false);
+  });
+});
+
+describe('number literal checks', () => {
+  it('detects literals that do not round-trip', () => {
+    expect(isNumberRoundTripSafe('42')).toBe(true);
+    expect(isNumberRoundTripSafe('1.0')).toBe(false);
+    expect(isNumberRoundTripSafe('1e3')).toBe(false);
+  });
+
+  it('detects integers beyond double precision', () => {
+    expect(exceedsNumberPrecision('9007199254740993')).toBe(true);
+    expect(exceedsNumberPrecision('9007199254740992')).toBe(false);
+    expect(exceedsNumberPrecision('1.50')).toBe(false);
+  });
+
+  it('validates lossless numbers by their numeric value', () => {
+    const schema = { type: 'integer', minimum: 10 };
+    expect(validateSchema(new JsonNumber('12345678901234567890'), schema).valid).toBe(true);
+    expect(validateSchema(new JsonNumber('5.0'), schema).errors[0].schemaKeyword).toBe('minimum');
+  });
+});
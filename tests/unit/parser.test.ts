@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { JsonNumber } from '../../src/core/number';
 import {
   parseJson,
   stringifyJson,
@@ -115,6 +116,219 @@ describe('parseJson', () => {
     expect(result.error).not.toBeNull();
     expect(result.error!.line).toBeGreaterThan(0);
   });
+
+  it('reports the exact line and column of the offending token', () => {
+    const json = '{\n  "name": "John",\n  "age": ,\n  "city": "NYC"\n}';
+    const result = parseJson(json);
+    expect(result.error).toEqual({
+      message: "Unexpected token ','",
+      line: 3,
+      column: 10,
+      offset: 29,
+    });
+  });
+
+  it('produces engine-independent error messages', () => {
+    expect(parseJson('{"a": 1,}').error!.message).toBe('Trailing comma is not allowed');
+    expect(parseJson('{name: 1}').error!.message).toBe('Expected double-quoted property name');
+    expect(parseJson('[1 2]').error!.message).toBe("Expected ',' or ']' after array element");
+    expect(parseJson('{"a" 1}').error!.message).toBe("Expected ':' after property name");
+    expect(parseJson('{"a": 1').error!.message).toBe('Unexpected end of JSON input');
+    expect(parseJson('"abc').error!.message).toBe('Unterminated string');
+    expect(parseJson('01').error!.message).toBe("Invalid number '01'");
+    expect(parseJson('1 2').error!.message).toBe('Unexpected non-whitespace character after JSON');
+  });
+
+  it('points string errors at the offending character', () => {
+    const result = parseJson('["ok", "bad\\x"]');
+    expect(result.error!.message).toBe('Bad escaped character in string');
+    expect(result.error!.offset).toBe(11);
+  });
+
+  it('keeps __proto__ as an own property', () => {
+    const result = parseJson('{"__proto__": {"polluted": true}}');
+    const value = result.value as Record<string, unknown>;
+    expect(Object.keys(value)).toEqual(['__proto__']);
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+  });
+});
+
+describe('parseJson recovery mode', () => {
+  it('reports only the first error without recovery', () => {
+    const result = parseJson('[1 2 3]');
+    expect(result.errors).toHaveLength(1);
+    expect(result.value).toBeUndefined();
+  });
+
+  it('collects every missing comma', () => {
+    const result = parseJson('{"a": 1 "b": 2 "c": 3}', { recover: true });
+    expect(result.errors.map((e) => e.offset)).toEqual([8, 15]);
+    expect(result.error).toEqual(result.errors[0]);
+    expect(result.value).toEqual({ a: 1, b: 2, c: 3 });
+  });
+
+  it('keeps the parts that parsed around a broken value', () => {
+    const result = parseJson('{\n  "a": 1,\n  "b": ,\n  "c": [1, 2,]\n}', { recover: true });
+    expect(result.errors.map((e) => [e.line, e.message])).toEqual([
+      [3, "Unexpected token ','"],
+      [4, 'Trailing comma is not allowed'],
+    ]);
+    expect(result.value).toEqual({ a: 1, c: [1, 2] });
+  });
+
+  it('accepts bare keys while reporting them', () => {
+    const result = parseJson('{name: "John", "age": 30}', { recover: true });
+    expect(result.errors[0].message).toBe('Expected double-quoted property name');
+    expect(result.value).toEqual({ name: 'John', age: 30 });
+  });
+
+  it('returns the partial value of an unterminated document', () => {
+    const result = parseJson('{"a": {"b": 1, "c": 2', { recover: true });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toBe('Unexpected end of JSON input');
+    expect(result.value).toEqual({ a: { b: 1, c: 2 } });
+  });
+
+  it('records locations for recovered nodes', () => {
+    const text = '[1 "two"]';
+    const result = parseJson(text, { recover: true });
+    const loc = result.locations.get('$[1]')!;
+    expect(text.slice(loc.start, loc.end)).toBe('"two"');
+  });
+
+  it('matches strict mode on valid input', () => {
+    const text = '{"a": [1, {"b": null}], "c": "x"}';
+    expect(parseJson(text, { recover: true })).toEqual(parseJson(text));
+  });
+});
+
+describe('parseJson dialects', () => {
+  const jsonc = `{
+  // line comment
+  "a": 1, /* block */
+  "b": [1, 2,],
+}`;
+
+  it('rejects comments in strict JSON', () => {
+    const result = parseJson('{"a": 1 // note\n}');
+    expect(result.error!.message).toBe('Comments are not allowed in JSON');
+    expect(result.error!.offset).toBe(8);
+  });
+
+  it('accepts comments and trailing commas in JSONC', () => {
+    const result = parseJson(jsonc, { format: 'jsonc' });
+    expect(result.error).toBeNull();
+    expect(result.value).toEqual({ a: 1, b: [1, 2] });
+  });
+
+  it('still rejects JSON5-only syntax in JSONC', () => {
+    expect(parseJson("{a: 'x'}", { format: 'jsonc' }).error).not.toBeNull();
+  });
+
+  it('accepts the JSON5 extensions', () => {
+    const text = `{
+  unquoted: 'single',
+  "hex": 0x1F,
+  neg: -0xA,
+  lead: .5,
+  trail: 5.,
+  plus: +3,
+  inf: -Infinity,
+  esc: 'it\\'s\\x41',
+  null: null,
+}`;
+    const result = parseJson(text, { format: 'json5' });
+    expect(result.error).toBeNull();
+    expect(result.value).toEqual({
+      unquoted: 'single',
+      hex: 31,
+      neg: -10,
+      lead: 0.5,
+      trail: 5,
+      plus: 3,
+      inf: -Infinity,
+      esc: "it'sA",
+      null: null,
+    });
+  });
+
+  it('records locations of bare keys in JSON5', () => {
+    const text = '{key: 1}';
+    const loc = parseJson(text, { format: 'json5' }).locations.get('$.key')!;
+    expect(text.slice(loc.keyStart, loc.keyEnd)).toBe('key');
+  });
+
+  it('reports unterminated block comments', () => {
+    const result = parseJson('{"a": 1 /* open', { format: 'jsonc' });
+    expect(result.error!.message).toBe('Unterminated comment');
+  });
+});
+
+describe('parseJson lossless numbers', () => {
+  const text = '{"id": 12345678901234567890, "price": 1.50, "count": 3}';
+
+  it('rounds big integers by default', () => {
+    expect((parseJson(text).value as Record<string, unknown>).id).toBe(12345678901234567000);
+  });
+
+  it('wraps literals a number would change', () => {
+    const value = parseJson(text, { lossless: true }).value as Record<string, unknown>;
+    expect(value.id).toEqual(new JsonNumber('12345678901234567890'));
+    expect(value.price).toEqual(new JsonNumber('1.50'));
+    expect(value.count).toBe(3);
+  });
+
+  it('leaves JSON5-only number syntax as plain numbers', () => {
+    const value = parseJson('[0x10, +1, .5]', { format: 'json5', lossless: true }).value;
+    expect(value).toEqual([16, 1, 0.5]);
+  });
+});
+
+describe('parseJson duplicate keys', () => {
+  it('records every occurrence of a repeated key', () => {
+    const text = '{"id": 1, "x": {"id": 0}, "id": 2, "id": 3}';
+    const { value, duplicateKeys } = parseJson(text);
+    expect(value).toEqual({ id: 3, x: { id: 0 } });
+    expect(duplicateKeys).toHaveLength(1);
+    const [duplicate] = duplicateKeys;
+    expect(duplicate.path).toBe('$.id');
+    expect(duplicate.occurrences.map((o) => o.value)).toEqual([1, 2, 3]);
+    expect(text.slice(duplicate.occurrences[1].location.keyStart)).toMatch(/^"id": 2/);
+  });
+
+  it('reports nothing for distinct keys', () => {
+    expect(parseJson('{"a": {"a": 1}}').duplicateKeys).toEqual([]);
+  });
+});
+
+describe('parseJson locations', () => {
+  const json = '{\n  "name": "John",\n  "tags": ["a", {"b": null}]\n}';
+
+  it('records the range of the root value', () => {
+    const { locations } = parseJson(json);
+    expect(locations.get('$')).toEqual({ start: 0, end: json.length });
+  });
+
+  it('records key and value ranges of object members', () => {
+    const { locations } = parseJson(json);
+    const loc = locations.get('$.name')!;
+    expect(json.slice(loc.keyStart, loc.keyEnd)).toBe('"name"');
+    expect(json.slice(loc.start, loc.end)).toBe('"John"');
+  });
+
+  it('records ranges of nested array items', () => {
+    const { locations } = parseJson(json);
+    expect(json.slice(locations.get('$.tags[0]')!.start, locations.get('$.tags[0]')!.end)).toBe(
+      '"a"',
+    );
+    const nested = locations.get('$.tags[1].b')!;
+    expect(json.slice(nested.start, nested.end)).toBe('null');
+    expect(locations.get('$.tags[1]')!.keyStart).toBeUndefined();
+  });
+
+  it('returns an empty map for empty input', () => {
+    expect(parseJson('').locations.size).toBe(0);
+  });
 });
 
 describe('stringifyJson', () => {
@@ -137,6 +351,20 @@ describe('stringifyJson', () => {
     expect(stringifyJson(undefined)).toBe('');
   });
 
+  it('writes lossless numbers exactly', () => {
+    const value = { id: new JsonNumber('12345678901234567890'), price: new JsonNumber('1.50') };
+    expect(stringifyJson(value, 0)).toBe('{"id":12345678901234567890,"price":1.50}');
+  });
+
+  it('writes BigInts as digits', () => {
+    expect(stringifyJson([BigInt('9007199254740993')], 0)).toBe('[9007199254740993]');
+  });
+
+  it('matches JSON.stringify for plain values', () => {
+    const value = { a: [1, null, undefined, NaN], b: undefined, c: new Date(0), d: {} };
+    expect(stringifyJson(value)).toBe(JSON.stringify(value, null, 2));
+  });
+
   it('handles circular references gracefully', () => {
     const obj: Record<string, unknown> = {};
     obj.self = obj;
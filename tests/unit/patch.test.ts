@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPatch,
+  createPatch,
+  JsonPatchError,
+  type JsonPatchOperation,
+} from '../../src/core/patch';
+import { JsonNumber } from '../../src/core/number';
+
+describe('applyPatch', () => {
+  it('adds object members and inserts array items', () => {
+    expect(
+      applyPatch({ a: 1, list: [1, 3] }, [
+        { op: 'add', path: '/b', value: { c: true } },
+        { op: 'add', path: '/list/1', value: 2 },
+        { op: 'add', path: '/list/-', value: 4 },
+      ]),
+    ).toEqual({ a: 1, b: { c: true }, list: [1, 2, 3, 4] });
+  });
+
+  it('replaces an existing member on add and the whole document at ""', () => {
+    expect(applyPatch({ a: 1 }, [{ op: 'add', path: '/a', value: 2 }])).toEqual({ a: 2 });
+    expect(applyPatch({ a: 1 }, [{ op: 'replace', path: '', value: [] }])).toEqual([]);
+  });
+
+  it('removes and replaces members', () => {
+    expect(
+      applyPatch({ a: 1, b: [1, 2, 3] }, [
+        { op: 'remove', path: '/a' },
+        { op: 'remove', path: '/b/0' },
+        { op: 'replace', path: '/b/1', value: 'x' },
+      ]),
+    ).toEqual({ b: [2, 'x'] });
+  });
+
+  it('moves and copies values', () => {
+    expect(
+      applyPatch({ a: { x: 1 }, list: ['p', 'q', 'r'] }, [
+        { op: 'move', from: '/a/x', path: '/b' },
+        { op: 'move', from: '/list/0', path: '/list/2' },
+        { op: 'copy', from: '/b', path: '/list/0' },
+      ]),
+    ).toEqual({ a: {}, b: 1, list: [1, 'q', 'r', 'p'] });
+  });
+
+  it('passes a test that matches regardless of key order or number spelling', () => {
+    const doc = { a: { x: 1, y: [true] }, n: new JsonNumber('1.0') };
+    expect(
+      applyPatch(doc, [
+        { op: 'test', path: '/a', value: { y: [true], x: 1 } },
+        { op: 'test', path: '/n', value: 1 },
+      ]),
+    ).toBe(doc);
+  });
+
+  it('addresses keys with dots, brackets or nothing in them', () => {
+    expect(
+      applyPatch({ 'index.js': 1, 'a[0]': [1], '': 'x' }, [
+        { op: 'replace', path: '/index.js', value: 2 },
+        { op: 'add', path: '/a[0]/-', value: 2 },
+        { op: 'remove', path: '/' },
+      ]),
+    ).toEqual({ 'index.js': 2, 'a[0]': [1, 2] });
+  });
+
+  it('unescapes ~1 and ~0 in keys', () => {
+    expect(
+      applyPatch({ 'a/b': 1, 'c~d': 2 }, [
+        { op: 'replace', path: '/a~1b', value: 3 },
+        { op: 'remove', path: '/c~0d' },
+      ]),
+    ).toEqual({ 'a/b': 3 });
+  });
+
+  it('leaves the document untouched when any operation fails', () => {
+    const doc = { a: 1, list: [1] };
+    const patch: JsonPatchOperation[] = [
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'add', path: '/list/-', value: 2 },
+      { op: 'test', path: '/a', value: 1 },
+    ];
+    let error: unknown;
+    try {
+      applyPatch(doc, patch);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(JsonPatchError);
+    expect(error).toMatchObject({ index: 2, operation: patch[2] });
+    expect(doc).toEqual({ a: 1, list: [1] });
+  });
+
+  it.each<[string, JsonPatchOperation]>([
+    ['a missing member', { op: 'remove', path: '/missing' }],
+    ['a missing parent', { op: 'add', path: '/missing/b', value: 1 }],
+    ['an index past the end', { op: 'add', path: '/list/3', value: 1 }],
+    ['a non-numeric index', { op: 'replace', path: '/list/first', value: 1 }],
+    ['a pointer without a leading slash', { op: 'remove', path: 'a' }],
+    ['a move into its own child', { op: 'move', from: '/obj', path: '/obj/inner' }],
+    ['removing the whole document', { op: 'remove', path: '' }],
+  ])('fails on %s', (_, operation) => {
+    expect(() => applyPatch({ a: 1, list: [0], obj: {} }, [operation])).toThrow(JsonPatchError);
+  });
+});
+
+describe('createPatch', () => {
+  it('is empty for equal documents', () => {
+    expect(createPatch({ a: [1, { b: null }] }, { a: [1, { b: null }] })).toEqual([]);
+    expect(createPatch({ a: 1, b: 2 }, { b: 2, a: 1 })).toEqual([]);
+  });
+
+  it('lists removed, changed and added members by JSON Pointer', () => {
+    expect(
+      createPatch({ a: 1, b: { c: 'x' }, gone: true }, { a: 2, b: { c: 'x', 'd/e': [] } }),
+    ).toEqual([
+      { op: 'remove', path: '/gone' },
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'add', path: '/b/d~1e', value: [] },
+    ]);
+  });
+
+  it('replaces a value that changed type', () => {
+    expect(createPatch({ a: { b: 1 } }, { a: [1] })).toEqual([
+      { op: 'replace', path: '/a', value: [1] },
+    ]);
+    expect(createPatch('x', null)).toEqual([{ op: 'replace', path: '', value: null }]);
+  });
+
+  it('removes array items from the end so the patch applies in order', () => {
+    expect(createPatch([1, 2, 3, 4], [1, 5])).toEqual([
+      { op: 'replace', path: '/1', value: 5 },
+      { op: 'remove', path: '/3' },
+      { op: 'remove', path: '/2' },
+    ]);
+  });
+
+  it('produces patches that turn one document into the other', () => {
+    const pairs: [unknown, unknown][] = [
+      [
+        { a: [1, 2, 3], b: { c: 1 } },
+        { a: [3], b: { d: 2 }, e: null },
+      ],
+      [
+        [{ id: 1 }, { id: 2 }],
+        [{ id: 2 }, { id: 1 }, { id: 3 }],
+      ],
+      [{ 'x/y': { '~': 1 } }, { 'x/y': { '~': 2 } }],
+      [
+        { files: { 'index.js': 1, 'a.b': [0], '': 'x', '[0]': true } },
+        { files: { 'index.js': 2, 'a.b': [0, 1], '[0]': false, 'c]': null } },
+      ],
+    ];
+    for (const [a, b] of pairs) expect(applyPatch(a, createPatch(a, b))).toEqual(b);
+  });
+});
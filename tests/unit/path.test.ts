@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { getByPath, setByPath, deleteByPath, parsePath, buildPath } from '../../src/core/path';
+import { getParentPath, queryPath, setBySegments, deleteBySegments } from '../../src/core/path';
 
 describe('parsePath', () => {
   it('parses simple dot notation', () => {
@@ -36,6 +37,19 @@ describe('buildPath', () => {
   });
 });
 
+describe('getParentPath', () => {
+  it('strips the last property or index', () => {
+    expect(getParentPath('$.a.b[2]')).toBe('$.a.b');
+    expect(getParentPath('$.a.b')).toBe('$.a');
+    expect(getParentPath('$[0]')).toBe('$');
+    expect(getParentPath('$.a')).toBe('$');
+  });
+
+  it('returns null for the root', () => {
+    expect(getParentPath('$')).toBeNull();
+  });
+});
+
 describe('getByPath', () => {
   const data = {
     name: 'John',
@@ -125,3 +139,66 @@ describe('deleteByPath', () => {
     expect(deleteByPath({ a: 1 }, '$')).toBeUndefined();
   });
 });
+
+describe('setBySegments / deleteBySegments', () => {
+  it('addresses keys that a path string cannot hold', () => {
+    const doc = { 'index.js': { '': [1, 2] }, 'a[0]': true };
+    expect(setBySegments(doc, ['index.js', '', '1'], 3)).toEqual({
+      'index.js': { '': [1, 3] },
+      'a[0]': true,
+    });
+    expect(deleteBySegments(doc, ['a[0]'])).toEqual({ 'index.js': { '': [1, 2] } });
+    expect(doc['a[0]']).toBe(true);
+  });
+});
+
+describe('queryPath', () => {
+  const data = {
+    users: [
+      { name: 'Ada', email: 'ada@example.com' },
+      { name: 'Bob' },
+      { name: 'Cy', email: 'cy@example.com', manager: { email: 'm@example.com' } },
+    ],
+    'odd key': 1,
+  };
+
+  it('matches the root', () => {
+    expect(queryPath(data, '$')).toEqual([{ path: '$', value: data }]);
+  });
+
+  it('follows names and indices', () => {
+    expect(queryPath(data, '$.users[1].name')).toEqual([{ path: '$.users[1].name', value: 'Bob' }]);
+    expect(queryPath(data, "$['odd key']")).toEqual([{ path: '$.odd key', value: 1 }]);
+    expect(queryPath(data, '$.users[5]')).toEqual([]);
+  });
+
+  it('expands wildcards, skipping nodes without the member', () => {
+    expect(queryPath(data, '$.users[*].email')).toEqual([
+      { path: '$.users[0].email', value: 'ada@example.com' },
+      { path: '$.users[2].email', value: 'cy@example.com' },
+    ]);
+    expect(queryPath(data, '$.users[0].*').map((m) => m.path)).toEqual([
+      '$.users[0].name',
+      '$.users[0].email',
+    ]);
+  });
+
+  it('descends recursively', () => {
+    expect(queryPath(data, '$..email').map((m) => m.path)).toEqual([
+      '$.users[0].email',
+      '$.users[2].email',
+      '$.users[2].manager.email',
+    ]);
+    expect(queryPath([[1], [2]], '$..[0]').map((m) => m.path)).toEqual([
+      '$[0]',
+      '$[0][0]',
+      '$[1][0]',
+    ]);
+  });
+
+  it('rejects malformed patterns', () => {
+    expect(() => queryPath(data, 'users')).toThrow('Invalid JSONPath pattern "users"');
+    expect(() => queryPath(data, '$.users[')).toThrow();
+    expect(() => queryPath(data, '$..')).toThrow();
+  });
+});
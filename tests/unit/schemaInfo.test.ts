@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allowedValues,
+  initialValue,
+  schemaAnnotations,
+  schemaProperties,
+  typeMismatch,
+} from '../../src/core/schemaInfo';
+import { JsonNumber } from '../../src/core/number';
+import type { JSONSchema } from '../../src/types/validation';
+
+describe('schemaProperties', () => {
+  const schema: JSONSchema = {
+    properties: {
+      nickname: { type: 'string', description: 'Optional' },
+      id: { $ref: '#/$defs/id' },
+    },
+    allOf: [{ properties: { tags: { type: 'array' } }, required: ['tags'] }],
+    required: ['id'],
+    $defs: { id: { type: ['integer', 'string'], description: 'Identifier' } },
+  };
+
+  it('lists declared properties with required ones first', () => {
+    expect(
+      schemaProperties(schema, '$').map(({ name, required, type, description }) => ({
+        name,
+        required,
+        type,
+        description,
+      })),
+    ).toEqual([
+      { name: 'id', required: true, type: 'integer | string', description: 'Identifier' },
+      { name: 'tags', required: true, type: 'array', description: undefined },
+      { name: 'nickname', required: false, type: 'string', description: 'Optional' },
+    ]);
+  });
+
+  it('lists nothing where no object schema applies', () => {
+    expect(schemaProperties(schema, '$.nickname')).toEqual([]);
+  });
+});
+
+describe('allowedValues', () => {
+  it('combines enum and const lists without repeats', () => {
+    expect(allowedValues([{ enum: ['a', 'b'] }, { const: 'b' }, { enum: [{ x: 1 }] }])).toEqual([
+      'a',
+      'b',
+      { x: 1 },
+    ]);
+  });
+
+  it('is undefined when nothing lists the values', () => {
+    expect(allowedValues([{ type: 'string' }])).toBeUndefined();
+  });
+});
+
+describe('initialValue', () => {
+  it('prefers default, then const or enum', () => {
+    expect(initialValue([{ enum: ['a', 'b'] }, { default: 'b' }])).toBe('b');
+    expect(initialValue([{ enum: ['a', 'b'] }])).toBe('a');
+    expect(initialValue([{ const: 42 }])).toBe(42);
+  });
+
+  it('falls back to an empty value of the declared type', () => {
+    expect(initialValue([{ type: 'integer' }])).toBe(0);
+    expect(initialValue([{ type: ['boolean', 'null'] }])).toBe(false);
+    expect(initialValue([{ type: 'null' }])).toBeNull();
+    expect(initialValue([{ type: 'object' }])).toEqual({});
+    expect(initialValue([{ type: 'array' }])).toEqual([]);
+    expect(initialValue([{}])).toBe('');
+    expect(initialValue([])).toBe('');
+  });
+});
+
+describe('schemaAnnotations', () => {
+  it('takes the first title and description and any deprecated or readOnly flag', () => {
+    expect(
+      schemaAnnotations([
+        { description: 'From the $ref' },
+        { title: 'Identifier', description: 'Ignored', readOnly: true },
+        { deprecated: true },
+      ]),
+    ).toEqual({
+      title: 'Identifier',
+      description: 'From the $ref',
+      deprecated: true,
+      readOnly: true,
+    });
+    expect(schemaAnnotations([])).toEqual({ deprecated: false, readOnly: false });
+  });
+});
+
+describe('typeMismatch', () => {
+  it('returns the declared type only when the value is not of it', () => {
+    expect(typeMismatch([{ type: 'string' }], 'a')).toBeUndefined();
+    expect(typeMismatch([{ type: 'string' }], 1)).toBe('string');
+    expect(typeMismatch([{ type: ['integer', 'null'] }], 1.5)).toBe('integer | null');
+    expect(typeMismatch([{ type: 'integer' }], 2)).toBeUndefined();
+    expect(
+      typeMismatch([{ type: 'integer' }], new JsonNumber('12345678901234567890')),
+    ).toBeUndefined();
+    expect(typeMismatch([{ type: 'object' }], [])).toBe('object');
+    expect(typeMismatch([{ description: 'untyped' }], 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { validateSchema } from '../../src/core/validator';
+import type { JSONSchema } from '../../src/types/validation';
+
+interface SuiteCase {
+  description: string;
+  schema: JSONSchema;
+  tests: { description: string; data: unknown; valid: boolean }[];
+}
+
+const root = join(__dirname, '../fixtures/json-schema-test-suite');
+
+for (const draft of readdirSync(root, { withFileTypes: true })) {
+  if (!draft.isDirectory()) continue;
+
+  describe(draft.name, () => {
+    for (const file of readdirSync(join(root, draft.name)).filter((f) => f.endsWith('.json'))) {
+      const cases: SuiteCase[] = JSON.parse(readFileSync(join(root, draft.name, file), 'utf8'));
+
+      describe(file, () => {
+        for (const suiteCase of cases) {
+          describe(suiteCase.description, () => {
+            for (const test of suiteCase.tests) {
+              it(test.description, () => {
+                expect(validateSchema(test.data, suiteCase.schema).valid).toBe(test.valid);
+              });
+            }
+          });
+        }
+      });
+    }
+  });
+}
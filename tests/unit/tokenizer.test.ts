@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '../../src/core/tokenizer';
+
+describe('tokenize', () => {
+  it('splits structural characters and values', () => {
+    const tokens = tokenize('{"a": [1, true, null]}');
+    expect(tokens.map((t) => t.type)).toEqual([
+      '{',
+      'string',
+      ':',
+      '[',
+      'number',
+      ',',
+      'true',
+      ',',
+      'null',
+      ']',
+      '}',
+      'eof',
+    ]);
+  });
+
+  it('records source offsets', () => {
+    const [token] = tokenize('  "key"');
+    expect(token).toMatchObject({ type: 'string', start: 2, end: 7, value: 'key' });
+  });
+
+  it('decodes string escapes', () => {
+    const [token] = tokenize('"a\\n\\u0041\\"b"');
+    expect(token.value).toBe('a\nA"b');
+    expect(token.error).toBeUndefined();
+  });
+
+  it('decodes numbers', () => {
+    expect(tokenize('-1.5e3')[0].value).toBe(-1500);
+  });
+
+  it('flags malformed numbers without throwing', () => {
+    const [token] = tokenize('1.2.3');
+    expect(token.type).toBe('number');
+    expect(token.error).toBe("Invalid number '1.2.3'");
+  });
+
+  it('leaves bare words to the parser and flags unknown characters', () => {
+    const tokens = tokenize('undefined @');
+    expect(tokens[0]).toMatchObject({ type: 'identifier', value: 'undefined' });
+    expect(tokens[1]).toMatchObject({ type: 'invalid', error: "Unexpected character '@'" });
+  });
+
+  it('stops unterminated strings at the end of the line', () => {
+    const [token, next] = tokenize('"abc\n1');
+    expect(token).toMatchObject({ type: 'string', end: 4, error: 'Unterminated string' });
+    expect(next.type).toBe('number');
+  });
+
+  it('emits comment tokens, flagged only in strict JSON', () => {
+    const strict = tokenize('// a\n/* b */ 1');
+    expect(strict.slice(0, 2).map((t) => t.type)).toEqual(['comment', 'comment']);
+    expect(strict[0].error).toBe('Comments are not allowed in JSON');
+    expect(tokenize('// a', 'jsonc')[0].error).toBeUndefined();
+  });
+
+  it('only accepts single-quoted strings in JSON5', () => {
+    expect(tokenize("'a'")[0].type).toBe('invalid');
+    expect(tokenize("'a'", 'json5')[0]).toMatchObject({ type: 'string', value: 'a' });
+  });
+
+  it('reads JSON5 numbers', () => {
+    const values = tokenize('0xFF .5 +1 NaN', 'json5').map((t) => t.value);
+    expect(values.slice(0, 3)).toEqual([255, 0.5, 1]);
+    expect(values[3]).toBeNaN();
+  });
+
+  it('joins JSON5 line continuations', () => {
+    expect(tokenize("'a\\\nb'", 'json5')[0].value).toBe('ab');
+  });
+});
@@ -1,5 +1,13 @@
-import { describe, it, expect } from 'vitest';
-import { validateSchema } from '../../src/core/validator';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  validateSchema,
+  runCustomValidators,
+  duplicateKeyWarnings,
+  locateErrors,
+  schemasAtPath,
+} from '../../src/core/validator';
+import { parseJson } from '../../src/core/parser';
+import type { JSONSchema, CustomValidator } from '../../src/types/validation';
 
 describe('validateSchema', () => {
   describe('type validation', () => {
@@ -87,6 +95,29 @@ describe('validateSchema', () => {
       expect(validateSchema('hello', schema).valid).toBe(true);
       expect(validateSchema('Hello', schema).valid).toBe(false);
     });
+
+    it('reads patterns as Unicode in pattern and patternProperties alike', () => {
+      expect(validateSchema('Ärger', { pattern: '^\\p{L}+$' }).valid).toBe(true);
+      const schema = { patternProperties: { '^\\p{L}+$': { type: 'number' } } };
+      expect(validateSchema({ Größe: 'x' }, schema).valid).toBe(false);
+    });
+
+    it('reports a pattern that does not compile instead of throwing', () => {
+      const result = validateSchema(
+        { a: 'x' },
+        {
+          properties: { a: { pattern: '([' } },
+          patternProperties: { '*': {} },
+        },
+      );
+      expect(result.errors.map((e) => [e.schemaKeyword, e.path])).toEqual([
+        ['invalidPattern', '$'],
+        ['invalidPattern', '$.a'],
+      ]);
+      expect(result.errors[1].message).toBe(
+        'The schema pattern "([" is not a valid regular expression',
+      );
+    });
   });
 
   describe('number validation', () => {
@@ -214,17 +245,9 @@ describe('validateSchema', () => {
         },
       };
 
-      expect(
-        validateSchema(
-          { address: { city: 'NYC', zip: '10001' } },
-          schema
-        ).valid
-      ).toBe(true);
+      expect(validateSchema({ address: { city: 'NYC', zip: '10001' } }, schema).valid).toBe(true);
 
-      const result = validateSchema(
-        { address: { zip: 'invalid' } },
-        schema
-      );
+      const result = validateSchema({ address: { zip: 'invalid' } }, schema);
       expect(result.valid).toBe(false);
       expect(result.errors.length).toBeGreaterThanOrEqual(1);
     });
@@ -243,10 +266,7 @@ describe('validateSchema', () => {
         },
       };
 
-      const result = validateSchema(
-        { items: [{ price: 10 }, { price: -5 }] },
-        schema
-      );
+      const result = validateSchema({ items: [{ price: 10 }, { price: -5 }] }, schema);
 
       expect(result.valid).toBe(false);
       const priceError = result.errors.find((e) => e.path.includes('[1]'));
@@ -277,4 +297,667 @@ describe('validateSchema', () => {
       expect(result.errors[0].path).toBe('$.name');
     });
   });
+
+  describe('$ref resolution', () => {
+    it('follows local pointers into definitions and $defs', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          a: { $ref: '#/definitions/positive' },
+          b: { $ref: '#/$defs/name' },
+        },
+        definitions: { positive: { type: 'number', minimum: 1 } },
+        $defs: { name: { type: 'string' } },
+      };
+      expect(validateSchema({ a: 2, b: 'x' }, schema).valid).toBe(true);
+      const result = validateSchema({ a: 0, b: 1 }, schema);
+      expect(result.errors.map((e) => [e.path, e.schemaKeyword])).toEqual([
+        ['$.a', 'minimum'],
+        ['$.b', 'type'],
+      ]);
+    });
+
+    it('decodes escaped pointer segments', () => {
+      const schema = {
+        $defs: { 'a/b': { type: 'string' }, 'c~d': { type: 'number' } },
+        anyOf: [{ $ref: '#/$defs/a~1b' }, { $ref: '#/$defs/c~0d' }],
+      };
+      expect(validateSchema(1, schema).valid).toBe(true);
+      expect(validateSchema(true, schema).valid).toBe(false);
+    });
+
+    it('validates recursive schemas', () => {
+      const tree = {
+        type: 'object',
+        properties: {
+          value: { type: 'number' },
+          children: { type: 'array', items: { $ref: '#' } },
+        },
+      };
+      const value = { value: 1, children: [{ value: 2, children: [{ value: 'x' }] }] };
+      expect(validateSchema(value, tree).errors[0].path).toBe('$.children[0].children[0].value');
+    });
+
+    it('resolves $id-based references through the registry', () => {
+      const address = {
+        $id: 'https://example.com/address.json',
+        type: 'object',
+        required: ['city'],
+        $defs: { zip: { type: 'string', pattern: '^\\d{5}$' } },
+      };
+      const schema = {
+        $id: 'https://example.com/person.json',
+        properties: {
+          home: { $ref: 'address.json' },
+          zip: { $ref: 'address.json#/$defs/zip' },
+        },
+      };
+      const options = { schemas: { [address.$id]: address } };
+      expect(
+        validateSchema({ home: { city: 'A' }, zip: '12345' }, schema, '$', options).valid,
+      ).toBe(true);
+      const result = validateSchema({ home: {}, zip: 'x' }, schema, '$', options);
+      expect(result.errors.map((e) => e.schemaKeyword)).toEqual(['required', 'pattern']);
+    });
+
+    it('resolves embedded $id and $anchor targets', () => {
+      const schema = {
+        $id: 'https://example.com/root.json',
+        properties: { a: { $ref: 'item.json' }, b: { $ref: '#flag' } },
+        $defs: {
+          item: { $id: 'item.json', type: 'integer' },
+          flag: { $anchor: 'flag', type: 'boolean' },
+        },
+      };
+      expect(validateSchema({ a: 1, b: true }, schema).valid).toBe(true);
+      expect(validateSchema({ a: 1.5, b: 1 }, schema).errors).toHaveLength(2);
+    });
+
+    it('reports unresolvable references', () => {
+      const result = validateSchema(1, { $ref: 'https://example.com/missing.json' });
+      expect(result.errors[0].message).toBe(
+        'Cannot resolve $ref "https://example.com/missing.json"',
+      );
+    });
+
+    it('stops reference cycles that never consume data', () => {
+      const schema = {
+        $defs: { a: { $ref: '#/$defs/b' }, b: { $ref: '#/$defs/a' } },
+        $ref: '#/$defs/a',
+      };
+      const result = validateSchema(1, schema);
+      expect(result.errors[0].message).toMatch(/^Circular \$ref/);
+    });
+  });
+
+  describe('composition', () => {
+    const circle = {
+      type: 'object',
+      properties: { kind: { enum: ['circle'] }, radius: { type: 'number' } },
+      required: ['kind', 'radius'],
+    };
+    const square = {
+      type: 'object',
+      properties: { kind: { enum: ['square'] }, side: { type: 'number' } },
+      required: ['kind', 'side'],
+    };
+
+    it('requires every allOf branch to match', () => {
+      const schema = { allOf: [{ type: 'object', required: ['a'] }, { required: ['b'] }] };
+      expect(validateSchema({ a: 1, b: 2 }, schema).valid).toBe(true);
+      const result = validateSchema({ a: 1 }, schema);
+      expect(result.errors.map((e) => e.message)).toEqual(['Missing required property "b"']);
+    });
+
+    it('accepts a value matching any anyOf branch', () => {
+      const schema = { anyOf: [{ type: 'string' }, { type: 'null' }] };
+      expect(validateSchema('x', schema).valid).toBe(true);
+      expect(validateSchema(null, schema).valid).toBe(true);
+    });
+
+    it('summarises a failed anyOf with the closest branch attached', () => {
+      const schema = { anyOf: [{ type: 'string' }, circle, square] };
+      const result = validateSchema({ kind: 'square', side: 'big' }, schema);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toBe('Value did not match any of 3 alternatives');
+      expect(result.errors[0].schemaKeyword).toBe('anyOf');
+      expect(result.errors[0].causes!.map((e) => e.path)).toEqual(['$.side']);
+    });
+
+    it('requires exactly one oneOf branch', () => {
+      const schema = { oneOf: [{ type: 'number' }, { type: 'integer' }, { type: 'string' }] };
+      expect(validateSchema('x', schema).valid).toBe(true);
+      expect(validateSchema(1, schema).errors[0].message).toBe(
+        'Value matched 2 of 3 alternatives (#1, #2) but must match exactly one',
+      );
+      const none = validateSchema(true, schema).errors[0];
+      expect(none.message).toBe('Value did not match any of 3 alternatives');
+      expect(none.causes).toHaveLength(1);
+    });
+
+    it('rejects values matching not', () => {
+      const schema = { not: { type: 'string' } };
+      expect(validateSchema(1, schema).valid).toBe(true);
+      expect(validateSchema('x', schema).errors[0].schemaKeyword).toBe('not');
+    });
+
+    it('applies then or else depending on if', () => {
+      const schema = {
+        type: 'object',
+        if: { properties: { country: { enum: ['US'] } } },
+        then: { required: ['zip'] },
+        else: { required: ['postcode'] },
+      };
+      expect(validateSchema({ country: 'US', zip: '1' }, schema).valid).toBe(true);
+      expect(validateSchema({ country: 'US' }, schema).errors[0].message).toBe(
+        'Missing required property "zip"',
+      );
+      expect(validateSchema({ country: 'NL' }, schema).errors[0].message).toBe(
+        'Missing required property "postcode"',
+      );
+    });
+
+    it('supports boolean subschemas', () => {
+      expect(validateSchema(1, { anyOf: [false, true] }).valid).toBe(true);
+      expect(validateSchema(1, { allOf: [false] }).errors[0].message).toBe(
+        'No value is allowed here',
+      );
+    });
+  });
+
+  describe('format', () => {
+    const schema = { type: 'string', format: 'email' };
+
+    it('asserts built-in formats by default', () => {
+      expect(validateSchema('joe@example.com', schema).valid).toBe(true);
+      expect(validateSchema('joe', schema).errors[0]).toMatchObject({
+        message: 'String must match format "email"',
+        schemaKeyword: 'format',
+        severity: 'error',
+      });
+    });
+
+    it('ignores unknown formats and non-string values', () => {
+      expect(validateSchema('anything', { format: 'color' }).valid).toBe(true);
+      expect(validateSchema(42, { format: 'email' }).valid).toBe(true);
+    });
+
+    it('reports mismatches as warnings in annotation mode', () => {
+      const result = validateSchema('joe', schema, '$', { formatMode: 'annotation' });
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([expect.objectContaining({ severity: 'warning' })]);
+    });
+
+    it('does not fail anyOf branches on annotation-mode warnings', () => {
+      const result = validateSchema(
+        'joe',
+        { anyOf: [{ format: 'email' }, { type: 'number' }] },
+        '$',
+        { formatMode: 'annotation' },
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it('uses custom formats, which override built-in ones', () => {
+      const formats = {
+        semver: (v: string) => /^\d+\.\d+\.\d+$/.test(v),
+        email: (v: string) => v.endsWith('@corp.example'),
+      };
+      expect(validateSchema('1.2.3', { format: 'semver' }, '$', { formats }).valid).toBe(true);
+      expect(validateSchema('1.2', { format: 'semver' }, '$', { formats }).valid).toBe(false);
+      expect(validateSchema('joe@example.com', schema, '$', { formats }).valid).toBe(false);
+    });
+  });
+
+  describe('dialects', () => {
+    const tuple = { items: [{ type: 'string' }], additionalItems: false };
+
+    it('defaults to 2020-12 when $schema is absent', () => {
+      // Array-valued `items` and additionalItems mean nothing in 2020-12
+      expect(validateSchema([1, 2], tuple).valid).toBe(true);
+      expect(validateSchema([1], { prefixItems: [{ type: 'string' }] }).valid).toBe(false);
+    });
+
+    it('detects the dialect from $schema', () => {
+      const schema = { ...tuple, $schema: 'http://json-schema.org/draft-07/schema#' };
+      expect(validateSchema(['a', 'b'], schema).errors[0]).toMatchObject({
+        path: '$[1]',
+        schemaKeyword: 'additionalItems',
+      });
+    });
+
+    it('lets the dialect option override $schema', () => {
+      const schema = { $schema: 'https://json-schema.org/draft/2020-12/schema', ...tuple };
+      expect(validateSchema([1], schema, '$', { dialect: '2019-09' }).valid).toBe(false);
+    });
+
+    it('reports unevaluated properties at their own path', () => {
+      const schema = {
+        allOf: [{ properties: { a: true } }],
+        unevaluatedProperties: false,
+      };
+      expect(validateSchema({ a: 1, b: 2 }, schema).errors).toEqual([
+        expect.objectContaining({ path: '$.b', schemaKeyword: 'unevaluatedProperties' }),
+      ]);
+    });
+
+    it('lists dependentRequired violations per missing property', () => {
+      const schema = { dependentRequired: { card: ['billing', 'cvc'] } };
+      expect(validateSchema({ card: 1 }, schema).errors.map((e) => e.message)).toEqual([
+        'Property "billing" is required when "card" is present',
+        'Property "cvc" is required when "card" is present',
+      ]);
+    });
+  });
+});
+
+describe('duplicateKeyWarnings', () => {
+  it('warns at each repeated key with line and column', () => {
+    const text = '{\n  "id": 1,\n  "id": 2\n}';
+    const warnings = duplicateKeyWarnings(text, parseJson(text).duplicateKeys);
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        path: '$.id',
+        severity: 'warning',
+        schemaKeyword: 'duplicateKey',
+        line: 3,
+        column: 3,
+        actualValue: 2,
+      }),
+    ]);
+  });
+});
+
+describe('locateErrors', () => {
+  const text = '{\n  "user": {\n    "age": "old",\n    "tags": [1, "x"]\n  }\n}';
+  const { value, locations } = parseJson(text);
+  const locate = (schema: JSONSchema) =>
+    locateErrors(validateSchema(value, schema).errors, text, locations).map(
+      ({ line, column, endLine, endColumn }) => ({ line, column, endLine, endColumn }),
+    );
+
+  it('marks scalar values', () => {
+    const schema = { properties: { user: { properties: { age: { type: 'number' } } } } };
+    expect(locate(schema)).toEqual([{ line: 3, column: 12, endLine: 3, endColumn: 17 }]);
+  });
+
+  it('marks array items by index', () => {
+    const schema = {
+      properties: { user: { properties: { tags: { items: { type: 'number' } } } } },
+    };
+    expect(locate(schema)).toEqual([{ line: 4, column: 17, endLine: 4, endColumn: 20 }]);
+  });
+
+  it('marks containers by their key, or the bracket at the root', () => {
+    expect(locate({ properties: { user: { required: ['id'] } } })).toEqual([
+      { line: 2, column: 3, endLine: 2, endColumn: 9 },
+    ]);
+    expect(locate({ required: ['id'] })).toEqual([
+      { line: 1, column: 1, endLine: 1, endColumn: 2 },
+    ]);
+  });
+
+  it('marks the key for property-name errors', () => {
+    const schema = { properties: { user: { propertyNames: { maxLength: 3 } } } };
+    expect(locate(schema)).toEqual([{ line: 4, column: 5, endLine: 4, endColumn: 11 }]);
+  });
+
+  it('falls back to the nearest ancestor for unknown paths', () => {
+    const [error] = locateErrors(
+      [{ message: 'x', path: '$.user.missing[3]', severity: 'error' }],
+      text,
+      locations,
+    );
+    expect(error).toMatchObject({ line: 2, column: 3 });
+  });
+
+  it('keeps positions that are already set', () => {
+    const error = { message: 'x', path: '$.user', severity: 'error' as const, line: 9, column: 9 };
+    expect(locateErrors([error], text, locations)[0]).toBe(error);
+  });
+});
+
+describe('errorMessage', () => {
+  const messages = (value: unknown, schema: JSONSchema) =>
+    validateSchema(value, schema).errors.map((e) => [e.path, e.message]);
+
+  it('replaces every error of the schema with a single string', () => {
+    const schema = { type: 'object', required: ['a', 'b'], errorMessage: 'Needs a and b' };
+    const { valid, errors } = validateSchema({}, schema);
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        message: 'Needs a and b',
+        path: '$',
+        schemaKeyword: 'errorMessage',
+        causes: [
+          expect.objectContaining({ params: { property: 'a' } }),
+          expect.objectContaining({ params: { property: 'b' } }),
+        ],
+      }),
+    ]);
+  });
+
+  it('replaces errors by keyword and keeps the others', () => {
+    const schema: JSONSchema = {
+      type: 'string',
+      minLength: 3,
+      pattern: '^[a-z]+$',
+      errorMessage: { minLength: 'At least {limit} characters please' },
+    };
+    expect(messages('A', schema)).toEqual([
+      ['$', 'At least 3 characters please'],
+      ['$', 'String must match pattern "^[a-z]+$"'],
+    ]);
+  });
+
+  it('targets properties, items and individual required properties', () => {
+    const schema: JSONSchema = {
+      properties: {
+        age: { type: 'integer', minimum: 0 },
+        tags: { items: { type: 'string' } },
+      },
+      required: ['name', 'email'],
+      errorMessage: {
+        properties: { age: 'Age must be a whole number of years' },
+        required: { email: 'Tell us your email' },
+      },
+    };
+    expect(messages({ age: -1.5, tags: [1] }, schema)).toEqual([
+      ['$', 'Missing required property "name"'],
+      ['$', 'Tell us your email'],
+      ['$.age', 'Age must be a whole number of years'],
+      ['$.tags[0]', 'Expected type "string", got "integer"'],
+    ]);
+    expect(
+      messages([1, 'x'], {
+        items: { type: 'string' },
+        errorMessage: { items: ['First must be text'] },
+      }),
+    ).toEqual([['$[0]', 'First must be text']]);
+  });
+
+  it('uses "_" for whatever is not covered', () => {
+    const schema: JSONSchema = {
+      minimum: 0,
+      multipleOf: 2,
+      maximum: 10,
+      errorMessage: { minimum: 'Too small', _: 'Not a valid even number' },
+    };
+    expect(messages(-3, schema)).toEqual([
+      ['$', 'Too small'],
+      ['$', 'Not a valid even number'],
+    ]);
+  });
+
+  it('works inside subschemas without affecting the verdict of combinators', () => {
+    const schema: JSONSchema = {
+      anyOf: [
+        { type: 'string', errorMessage: 'Text is fine' },
+        { type: 'number', errorMessage: 'So is a number' },
+      ],
+    };
+    expect(validateSchema(1, schema).valid).toBe(true);
+    expect(validateSchema(null, schema).errors[0].causes?.[0].message).toBe('Text is fine');
+  });
+
+  it('keeps the severity of what it replaces', () => {
+    const { valid, errors } = validateSchema(
+      'nope',
+      { format: 'email', errorMessage: 'Check the address' },
+      '$',
+      { formatMode: 'annotation' },
+    );
+    expect(valid).toBe(true);
+    expect(errors[0]).toMatchObject({ message: 'Check the address', severity: 'warning' });
+  });
+});
+
+describe('schemasAtPath', () => {
+  const schema: JSONSchema = {
+    properties: {
+      user: { $ref: '#/$defs/user' },
+      list: { prefixItems: [{ title: 'first' }], items: { title: 'rest' } },
+      legacy: { items: [{ title: 'tuple' }], additionalItems: { title: 'extra' } },
+    },
+    patternProperties: { '^x-': { title: 'extension' } },
+    additionalProperties: { title: 'other' },
+    $defs: {
+      user: {
+        allOf: [{ properties: { name: { title: 'name' } } }],
+        if: { properties: { admin: { const: true } } },
+        then: { properties: { role: { title: 'admin role' } } },
+        else: { properties: { role: { title: 'user role' } } },
+      },
+    },
+  };
+  const titles = (path: string, document?: unknown) =>
+    schemasAtPath(schema, path, { document }).map((s) => s.title);
+
+  it('follows properties, $ref and allOf', () => {
+    expect(titles('$.user.name')).toEqual(['name']);
+    expect(titles('$.x-foo')).toEqual(['extension']);
+    expect(titles('$.anything')).toEqual(['other']);
+  });
+
+  it('follows the item keywords of each dialect', () => {
+    expect(titles('$.list[0]')).toEqual(['first']);
+    expect(titles('$.list[3]')).toEqual(['rest']);
+    expect(titles('$.legacy[0]')).toEqual(['tuple']);
+    expect(titles('$.legacy[1]')).toEqual(['extra']);
+  });
+
+  it('uses the document to pick conditional branches', () => {
+    expect(titles('$.user.role')).toEqual(['admin role', 'user role']);
+    expect(titles('$.user.role', { user: { admin: true } })).toEqual(['admin role']);
+    expect(titles('$.user.role', { user: { admin: false } })).toEqual(['user role']);
+  });
+
+  it('narrows alternatives by what a half-written value already has', () => {
+    const shapes: JSONSchema = {
+      oneOf: [
+        {
+          title: 'circle',
+          required: ['kind', 'radius'],
+          properties: { kind: { const: 'circle' } },
+        },
+        { title: 'square', required: ['kind', 'side'], properties: { kind: { const: 'square' } } },
+      ],
+    };
+    const branches = (document?: unknown, branches?: 'first') =>
+      schemasAtPath(shapes, '$', { document, branches }).map((s) => s.title);
+    expect(branches({ kind: 'square' })).toEqual([undefined, 'square']);
+    expect(branches({})).toEqual([undefined, 'circle', 'square']);
+    expect(branches(undefined, 'first')).toEqual([undefined, 'circle']);
+  });
+
+  it('returns nothing where the schema says nothing', () => {
+    expect(titles('$.user.name.deeper')).toEqual([]);
+  });
+});
+
+describe('runCustomValidators', () => {
+  const error = (message: string) => ({ message, path: '$', severity: 'error' as const });
+
+  it('combines sync and async results', async () => {
+    const errors = await runCustomValidators({}, [
+      () => [error('a')],
+      async () => [error('b')],
+      { validate: () => [] },
+    ]);
+    expect(errors.map((e) => e.message)).toEqual(['a', 'b']);
+  });
+
+  it('reports a failing validator without hiding the others', async () => {
+    const errors = await runCustomValidators({}, [
+      function checkServer() {
+        throw new Error('offline');
+      },
+      async () => Promise.reject('nope'),
+      () => [error('kept')],
+    ]);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        message: 'Validator "checkServer" failed: offline',
+        severity: 'warning',
+        schemaKeyword: 'validatorError',
+      }),
+      expect.objectContaining({ message: 'Validator "#2" failed: nope' }),
+      error('kept'),
+    ]);
+  });
+
+  it('gives up on a validator after its timeout and aborts it', async () => {
+    vi.useFakeTimers();
+    try {
+      let signal: AbortSignal | undefined;
+      const run = runCustomValidators({}, [
+        {
+          name: 'slow',
+          timeout: 100,
+          validate: (_value, _path, context) => {
+            signal = context.signal;
+            return new Promise(() => {});
+          },
+        },
+        () => [error('fast')],
+      ]);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(await run).toEqual([
+        expect.objectContaining({
+          message: 'Validator "slow" timed out after 100 ms',
+          schemaKeyword: 'validatorTimeout',
+          severity: 'warning',
+        }),
+        error('fast'),
+      ]);
+      expect(signal?.aborted).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('applies the default timeout to validators without their own', async () => {
+    vi.useFakeTimers();
+    try {
+      const run = runCustomValidators({}, [() => new Promise(() => {})], '$', { timeout: 50 });
+      await vi.advanceTimersByTimeAsync(50);
+      expect((await run)[0].message).toMatch(/timed out after 50 ms/);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects when aborted, passing the abort on to validators', async () => {
+    const controller = new AbortController();
+    let received: AbortSignal | undefined;
+    const run = runCustomValidators(
+      {},
+      [
+        (_value, _path, { signal }) => {
+          received = signal;
+          return new Promise(() => {});
+        },
+      ],
+      '$',
+      { signal: controller.signal },
+    );
+    controller.abort();
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(received?.aborted).toBe(true);
+  });
+
+  describe('path-scoped validators', () => {
+    const doc = {
+      users: [
+        { id: 1, email: 'a@example.com' },
+        { id: 2, email: 'b@example.com' },
+        { id: 1, email: 'c@example.com' },
+      ],
+      trip: { start: '2024-05-02', end: '2024-05-01' },
+    };
+
+    it('calls the validator once per match with its concrete path', async () => {
+      const validate = vi.fn(() => []);
+      await runCustomValidators(doc, [{ path: '$.users[*].email', validate }]);
+      expect(validate.mock.calls.map(([value, path]) => [value, path])).toEqual([
+        ['a@example.com', '$.users[0].email'],
+        ['b@example.com', '$.users[1].email'],
+        ['c@example.com', '$.users[2].email'],
+      ]);
+    });
+
+    it('keeps rules like unique ids and date ordering short', async () => {
+      const uniqueIds: CustomValidator = (users, path) => {
+        const seen = new Set<unknown>();
+        return (users as { id: number }[]).flatMap((user, i) => {
+          const duplicate = seen.has(user.id);
+          seen.add(user.id);
+          return duplicate
+            ? [
+                {
+                  message: `Duplicate id ${user.id}`,
+                  path: `${path}[${i}].id`,
+                  severity: 'error' as const,
+                },
+              ]
+            : [];
+        });
+      };
+      const endAfterStart: CustomValidator = (range, path) => {
+        const { start, end } = range as { start: string; end: string };
+        return end < start
+          ? [
+              {
+                message: 'End must not be before start',
+                path: `${path}.end`,
+                severity: 'error' as const,
+              },
+            ]
+          : [];
+      };
+
+      const errors = await runCustomValidators(doc, [
+        { path: '$.users', validate: uniqueIds },
+        { path: '$.trip', validate: endAfterStart },
+      ]);
+      expect(errors.map((e) => [e.path, e.message])).toEqual([
+        ['$.users[2].id', 'Duplicate id 1'],
+        ['$.trip.end', 'End must not be before start'],
+      ]);
+    });
+
+    it('does not call the validator when nothing matches', async () => {
+      const validate = vi.fn(() => []);
+      expect(await runCustomValidators(doc, [{ path: '$.missing[*]', validate }])).toEqual([]);
+      expect(validate).not.toHaveBeenCalled();
+    });
+
+    it('re-roots matches under the given base path', async () => {
+      const validate = vi.fn(() => []);
+      await runCustomValidators(doc.users, [{ path: '$[1].id', validate }], '$.users');
+      expect(validate).toHaveBeenCalledWith(2, '$.users[1].id', expect.anything());
+    });
+
+    it('reports a malformed pattern as a failed validator', async () => {
+      const errors = await runCustomValidators(doc, [
+        { name: 'broken', path: 'users', validate: () => [] },
+      ]);
+      expect(errors).toEqual([
+        expect.objectContaining({
+          message: 'Validator "broken" failed: Invalid JSONPath pattern "users"',
+          path: '$',
+          severity: 'warning',
+        }),
+      ]);
+    });
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const validate = vi.fn(() => []);
+    await expect(
+      runCustomValidators({}, [validate], '$', { signal: AbortSignal.abort() }),
+    ).rejects.toBeDefined();
+    expect(validate).not.toHaveBeenCalled();
+  });
 });